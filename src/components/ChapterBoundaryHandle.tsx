@@ -0,0 +1,123 @@
+import { FC, KeyboardEvent, PointerEvent, useState } from 'react'
+import { DragHandleDots2Icon, Link2Icon } from '@radix-ui/react-icons'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+// Pixels of drag per round moved; about the height of a round row in the chapter table
+const PIXELS_PER_ROUND = 32
+
+interface ChapterBoundaryHandleProps {
+  /**
+   * Index of the chapter above the boundary
+   */
+  chapterIndex: number
+
+  /**
+   * First round of the chapter below the boundary
+   */
+  boundary: number
+
+  /**
+   * Lowest and highest round the boundary can move to, so both chapters keep a round
+   */
+  min: number
+  max: number
+
+  /**
+   * Called with the round the chapter below should start at
+   */
+  onMove: (chapterIndex: number, roundIndex: number) => void
+  onMerge: (chapterIndex: number) => void
+}
+
+/**
+ * Boundary between two chapter cards. Dragging it up or down moves rounds
+ * between the chapters in one gesture; the arrow keys move it one round at a time.
+ */
+export const ChapterBoundaryHandle: FC<ChapterBoundaryHandleProps> = ({
+  chapterIndex,
+  boundary,
+  min,
+  max,
+  onMove,
+  onMerge
+}) => {
+  const [drag, setDrag] = useState<{ startY: number; target: number } | null>(null)
+
+  const clamp = (roundIndex: number) => Math.min(max, Math.max(min, roundIndex))
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ startY: e.clientY, target: boundary })
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return
+    const target = clamp(boundary + Math.round((e.clientY - drag.startY) / PIXELS_PER_ROUND))
+    if (target !== drag.target) setDrag({ ...drag, target })
+  }
+
+  const handlePointerUp = () => {
+    if (drag && drag.target !== boundary) onMove(chapterIndex, drag.target)
+    setDrag(null)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const step = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0
+    if (step === 0) return
+    e.preventDefault()
+
+    const target = clamp(boundary + step)
+    if (target !== boundary) onMove(chapterIndex, target)
+  }
+
+  const moved = drag ? drag.target - boundary : 0
+
+  return (
+    <div className="group flex items-center gap-2 py-1">
+      <div
+        role="separator"
+        aria-orientation="horizontal"
+        aria-label={`Boundary between chapters ${chapterIndex + 1} and ${chapterIndex + 2}`}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={drag?.target ?? boundary}
+        tabIndex={0}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          "flex flex-1 items-center gap-2 rounded-md px-2 py-1 cursor-row-resize touch-none select-none",
+          "text-xs text-muted-foreground hover:bg-muted/50 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+          drag && "bg-muted"
+        )}
+      >
+        <div className="h-px flex-1 bg-border" />
+        <DragHandleDots2Icon className="h-4 w-4 rotate-90" />
+        {drag && moved !== 0 ? (
+          <Badge variant="outline" className="text-xs">
+            {moved > 0
+              ? `${moved} round${moved === 1 ? '' : 's'} to chapter ${chapterIndex + 1}`
+              : `${-moved} round${moved === -1 ? '' : 's'} to chapter ${chapterIndex + 2}`}
+          </Badge>
+        ) : (
+          <span>Chapter {chapterIndex + 2} starts at round {drag?.target ?? boundary}</span>
+        )}
+        <div className="h-px flex-1 bg-border" />
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+        onClick={() => onMerge(chapterIndex)}
+        title={`Merge chapters ${chapterIndex + 1} and ${chapterIndex + 2}`}
+      >
+        <Link2Icon className="h-3 w-3 mr-1" />
+        Merge
+      </Button>
+    </div>
+  )
+}
@@ -1,5 +1,9 @@
 import { FC } from 'react'
+import { FileTextIcon } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { CopyableText } from "./ui/copyable-text"
+import { StatusBadge } from './StatusBadge'
 import { Chapter, Round, SummaryQueueItem } from "@/store"
 import { ChapterTable } from './ChapterTable'
 import { ChapterHeader } from './ChapterHeader'
@@ -15,9 +19,9 @@ interface ChapterCardProps {
   onSlideUp: (chapterIndex: number, roundIndex: number) => void
   onSlideDown: (chapterIndex: number, roundIndex: number) => void
   onSplit: (chapterIndex: number, roundIndex: number) => void
-  onOmit: (chapterIndex: number, roundIndex: number, currentOmitted: boolean) => void
-  onReroll: (roundIndex: number) => void
-  roundSummaryQueue?: SummaryQueueItem[]
+  onOmit: (chapterIndex: number, roundId: string, currentOmitted: boolean) => void
+  onReroll: (roundId: string) => void
+  roundSummaryQueue?: SummaryQueueItem<string>[]
   allChapters?: Chapter[]
 }
 
@@ -35,7 +39,21 @@ export const ChapterCard: FC<ChapterCardProps> = ({
   roundSummaryQueue = [],
   allChapters = []
 }) => {
-  const { enqueueRoundSummary, processRoundSummaryQueue } = useStore()
+  const {
+    chapterSummaryQueue,
+    enqueueRoundSummary,
+    processRoundSummaryQueue,
+    enqueueChapterSummary,
+    processChapterSummaryQueue
+  } = useStore()
+  const isChapterQueued = chapterSummaryQueue.some(item => item.id === chapterIndex && item.type === 'chapter')
+
+  // Outline the chapter from its rounds, replacing any earlier outline once the new one is done
+  const summarizeChapter = () => {
+    enqueueChapterSummary(chapterIndex)
+    processChapterSummaryQueue()
+    toast.success(`Chapter ${chapterIndex + 1} added to the summarization queue`)
+  }
 
   const summarizeAllRounds = async () => {
     // Get rounds in this chapter
@@ -46,12 +64,12 @@ export const ChapterCard: FC<ChapterCardProps> = ({
     
     // Filter out omitted rounds
     const eligibleRounds = chapterRounds.filter(round => 
-      !chapter.omit.includes(round.roundIndex)
+      !chapter.omit.includes(round.id)
     )
     
     // Add each eligible round to the queue
     eligibleRounds.forEach(round => {
-      enqueueRoundSummary(round.roundIndex)
+      enqueueRoundSummary(round.id)
     })
     
     // Start processing the queue
@@ -83,6 +101,34 @@ export const ChapterCard: FC<ChapterCardProps> = ({
           onReroll={onReroll}
           allChapters={allChapters}
         />
+
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-1 text-sm font-medium">
+              <StatusBadge status={chapter.summaryStatus} lastError={chapter.lastError} />
+              Chapter outline
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-xs"
+              onClick={summarizeChapter}
+              disabled={isChapterQueued}
+            >
+              <FileTextIcon className="h-3 w-3 mr-1" />
+              {isChapterQueued ? 'Outline queued' : chapter.summary ? 'Rewrite Outline' : 'Write Outline'}
+            </Button>
+          </div>
+          {chapter.summary && (
+            <CopyableText
+              text={chapter.summary}
+              textWrapper="pre"
+              variant="muted"
+              maxHeight={300}
+              copySuccessMessage="Chapter outline copied to clipboard!"
+            />
+          )}
+        </div>
       </CardContent>
     </Card>
   )
@@ -0,0 +1,128 @@
+import { FC } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { ChapterGroupingSettings } from '@/store'
+import { summaryModels } from '@/data/summary-models'
+import { formatTokenCount, getChapterTokenBudget } from '@/utils/token-budget'
+
+interface ChapterGroupingSettingsPanelProps {
+  settings: ChapterGroupingSettings
+
+  /**
+   * Called with the changed settings only
+   */
+  onSettingsChange: (settings: Partial<ChapterGroupingSettings>) => void
+
+  className?: string
+}
+
+/**
+ * Chooses how rounds are grouped into chapters: by a fixed line count, or
+ * sized to fit the summarizing model's context window.
+ */
+export const ChapterGroupingSettingsPanel: FC<ChapterGroupingSettingsPanelProps> = ({
+  settings,
+  onSettingsChange,
+  className
+}) => {
+  const handleModelChange = (modelId: string) => {
+    const model = summaryModels.find(model => model.id === modelId)
+    onSettingsChange({ modelId, ...(model && { contextTokens: model.contextTokens }) })
+  }
+
+  // Ignore empty or invalid numbers while the user is typing
+  const handleNumberChange = (key: 'contextTokens' | 'reservedOutputTokens', value: string) => {
+    const tokens = Number(value)
+    if (value !== '' && Number.isFinite(tokens) && tokens >= 0) {
+      onSettingsChange({ [key]: Math.round(tokens) })
+    }
+  }
+
+  return (
+    <div className={cn("grid grid-cols-2 gap-4", className)}>
+      <div className="space-y-2">
+        <Label>Chapter size</Label>
+        <Select
+          value={settings.mode}
+          onValueChange={(mode) => onSettingsChange({ mode: mode as ChapterGroupingSettings['mode'] })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="lines">Line count (2500 lines)</SelectItem>
+            <SelectItem value="tokens">Token budget</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Chapter boundaries</Label>
+        <Select
+          value={settings.strategy ?? 'size'}
+          onValueChange={(strategy) => onSettingsChange({ strategy: strategy as ChapterGroupingSettings['strategy'] })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="size">When a chapter is full</SelectItem>
+            <SelectItem value="scene-breaks">At scene breaks</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {settings.mode === 'tokens' && (
+        <>
+          <div className="space-y-2">
+            <Label>Summarizing model</Label>
+            <Select value={settings.modelId} onValueChange={handleModelChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {summaryModels.map(model => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.id} ({formatTokenCount(model.contextTokens)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="context-tokens">Context window (tokens)</Label>
+            <Input
+              id="context-tokens"
+              type="number"
+              min={0}
+              defaultValue={settings.contextTokens}
+              key={`context-${settings.modelId}`}
+              onBlur={(e) => handleNumberChange('contextTokens', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reserved-output-tokens">Reserved for output (tokens)</Label>
+            <Input
+              id="reserved-output-tokens"
+              type="number"
+              min={0}
+              defaultValue={settings.reservedOutputTokens}
+              onBlur={(e) => handleNumberChange('reservedOutputTokens', e.target.value)}
+            />
+          </div>
+          <p className="col-span-2 text-xs text-muted-foreground">
+            Chapters are sized to at most ~{formatTokenCount(getChapterTokenBudget(settings))} estimated tokens.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
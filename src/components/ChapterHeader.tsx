@@ -1,15 +1,18 @@
 import { FC } from 'react'
 import { CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
-import { CheckIcon, ListIcon, AlignJustify, BanIcon } from "lucide-react"
+import { CheckIcon, ListIcon, AlignJustify, BanIcon, CoinsIcon, TriangleAlertIcon } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
-import { Chapter, Round, SummaryQueueItem } from "@/store"
+import { Chapter, Round, SummaryQueueItem, useStore } from "@/store"
+import { cn } from "@/lib/utils"
+import { formatTokenCount, getChapterTokenBudget, getChapterTokenCount, isChapterOverBudget } from "@/utils/token-budget"
+import { getChapterSummaryProgress } from "@/utils/summary-scheduler"
 
 interface ChapterHeaderProps {
   chapter: Chapter
   chapterIndex: number
   rounds: Round[]
-  roundSummaryQueue?: SummaryQueueItem[]
+  roundSummaryQueue?: SummaryQueueItem<string>[]
 }
 
 export const ChapterHeader: FC<ChapterHeaderProps> = ({
@@ -31,28 +34,18 @@ export const ChapterHeader: FC<ChapterHeaderProps> = ({
   const formattedChapterNumber = String(chapterIndex + 1).padStart(3, '0');
   
   const totalLines = chapterRounds.reduce((sum, round) => 
-    chapter.omit.includes(round.roundIndex) ? sum : sum + round.lineCount, 0);
+    chapter.omit.includes(round.id) ? sum : sum + round.lineCount, 0);
   
   const omissionsCount = chapter.omit.length;
-  
-  const calculateQueueProgress = () => {
-    if (chapterRounds.length === 0) return 100;
-    
-    const roundsInQueue = chapterRounds
-      .filter(round => !chapter.omit.includes(round.roundIndex))
-      .filter(round => 
-        round.summaryStatus === 'completed' || 
-        round.summaryStatus === 'inProgress' ||
-        roundSummaryQueue.some(
-          item => item.id === round.roundIndex && item.type === 'round'
-        )
-      ).length;
-    
-    const nonOmittedRounds = chapterRounds.length - omissionsCount;
-    return nonOmittedRounds > 0 ? (roundsInQueue / nonOmittedRounds) * 100 : 100;
-  };
 
-  const queueProgress = calculateQueueProgress();
+  // Estimated tokens, checked against the chapter budget in token-budget mode
+  const { chapterGrouping } = useStore();
+  const totalTokens = getChapterTokenCount(chapter, chapterRounds);
+  const isOverBudget = isChapterOverBudget(chapter, chapterRounds, chapterGrouping);
+  
+  // Summarized rounds out of the rounds the chapter keeps, updated as the queue works through them
+  const progress = getChapterSummaryProgress(chapter, rounds, roundSummaryQueue);
+  const queueProgress = progress.total > 0 ? (progress.completed / progress.total) * 100 : 100;
   const isComplete = queueProgress === 100;
 
   return (
@@ -67,8 +60,13 @@ export const ChapterHeader: FC<ChapterHeaderProps> = ({
             <CheckIcon className="h-4 w-4 text-green-500 ml-2" />
           </div>
         ) : (
-          <div className="flex-grow flex items-center mx-2">
+          <div className="flex-grow flex items-center gap-2 mx-2">
             <Progress value={queueProgress} className="h-2 w-full" />
+            <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+              {progress.completed}/{progress.total}
+              {progress.inProgress > 0 && ` · ${progress.inProgress} running`}
+              {progress.pending > 0 && ` · ${progress.pending} queued`}
+            </span>
           </div>
         )}
         
@@ -83,6 +81,16 @@ export const ChapterHeader: FC<ChapterHeaderProps> = ({
             <span>{totalLines}</span>
           </div>
           <Separator orientation="vertical" className="h-3" />
+          <div
+            className={cn("flex items-center gap-1.5", isOverBudget && "text-red-500")}
+            title={isOverBudget
+              ? `Over the ${formatTokenCount(getChapterTokenBudget(chapterGrouping))} token budget for ${chapterGrouping.modelId}`
+              : 'Estimated tokens'}
+          >
+            {isOverBudget ? <TriangleAlertIcon className="h-3.5 w-3.5" /> : <CoinsIcon className="h-3.5 w-3.5" />}
+            <span>~{formatTokenCount(totalTokens)}</span>
+          </div>
+          <Separator orientation="vertical" className="h-3" />
           <div className="flex items-center gap-1.5">
             <BanIcon className="h-3.5 w-3.5" />
             <span>{omissionsCount}</span>
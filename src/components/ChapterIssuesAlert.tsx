@@ -0,0 +1,52 @@
+import { FC } from 'react'
+import { AlertTriangle, Wrench } from 'lucide-react'
+import { toast } from 'sonner'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { useStore } from '@/store'
+
+// Issues listed before the rest are summarised as a count
+const SHOWN_ISSUES = 5
+
+/**
+ * Warns when the chapters no longer cover every round exactly once, and
+ * repairs them in one click.
+ */
+export const ChapterIssuesAlert: FC = () => {
+  const chapterIssues = useStore((state) => state.chapterIssues)
+  const repairChapters = useStore((state) => state.repairChapters)
+
+  if (chapterIssues.length === 0) return null
+
+  const handleRepair = () => {
+    const changes = repairChapters()
+    toast.success(`Repaired the chapters with ${changes.length} change${changes.length === 1 ? '' : 's'}`, {
+      description: (
+        <ul className="list-disc pl-4">
+          {changes.map((change, index) => <li key={index}>{change}</li>)}
+        </ul>
+      )
+    })
+  }
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>The chapters don't line up with the rounds</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {chapterIssues.slice(0, SHOWN_ISSUES).map((issue, index) => <li key={index}>{issue.message}</li>)}
+        </ul>
+        {chapterIssues.length > SHOWN_ISSUES && (
+          <p>and {chapterIssues.length - SHOWN_ISSUES} more</p>
+        )}
+        <div className="pt-1">
+          <Button variant="outline" size="sm" onClick={handleRepair}>
+            <Wrench className="h-4 w-4 mr-1" />
+            Repair chapters
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -9,13 +9,14 @@ import { Badge } from '@/components/ui/badge'
 // Sample data for demo purposes
 const sampleChapter: Chapter = {
   roundsRange: [0, 9], // 10 rounds in total (0-9)
-  omit: [2, 5], // Omit a couple of rounds
+  omit: ['r-sample-2', 'r-sample-5'], // Omit a couple of rounds
   summary: 'Sample Chapter',
   summaryStatus: 'completed'
 }
 
 const generateSampleRounds = (): Round[] => {
   return Array.from({ length: 10 }, (_, i) => ({
+    id: `r-sample-${i}`,
     roundIndex: i,
     startLine: i * 10,
     endLine: (i * 10) + 9,
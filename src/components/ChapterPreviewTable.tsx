@@ -27,8 +27,8 @@ export const ChapterPreviewTable: FC<ChapterPreviewTableProps> = ({
   }
 
   // Check if a round is omitted in a chapter
-  const isRoundOmitted = (roundIndex: number) => {
-    return chapter.omit.includes(roundIndex)
+  const isRoundOmitted = (roundId: string) => {
+    return chapter.omit.includes(roundId)
   }
 
   // Calculate the padding length for the index based on total rounds
@@ -89,17 +89,17 @@ export const ChapterPreviewTable: FC<ChapterPreviewTableProps> = ({
         <TableBody>
           {/* Intro rounds */}
           {introSlice.length > 0 && introSlice.map((round) => {
-            const isOmitted = isRoundOmitted(round.roundIndex)
+            const isOmitted = isRoundOmitted(round.id)
             return (
               <TableRow 
-                key={`intro-${round.roundIndex}`} 
+                key={`intro-${round.id}`} 
                 className={cn(
                   "py-1",
                   isOmitted && "opacity-50 bg-muted/50"
                 )}
               >
                 <TableCell className="flex items-center space-x-2 py-1 px-2">
-                  <StatusBadge status={round.summaryStatus} />
+                  <StatusBadge status={round.summaryStatus} lastError={round.lastError} />
                   <span className="font-mono text-xs font-extralight text-muted-foreground">
                     {getPaddedIndex(round.roundIndex)}
                   </span>
@@ -122,17 +122,17 @@ export const ChapterPreviewTable: FC<ChapterPreviewTableProps> = ({
           
           {/* Outro rounds */}
           {outroSlice.length > 0 && outroSlice.map((round) => {
-            const isOmitted = isRoundOmitted(round.roundIndex)
+            const isOmitted = isRoundOmitted(round.id)
             return (
               <TableRow 
-                key={`outro-${round.roundIndex}`} 
+                key={`outro-${round.id}`} 
                 className={cn(
                   "py-1",
                   isOmitted && "opacity-50 bg-muted/50"
                 )}
               >
                 <TableCell className="flex items-center space-x-2 py-1 px-2">
-                  <StatusBadge status={round.summaryStatus} />
+                  <StatusBadge status={round.summaryStatus} lastError={round.lastError} />
                   <span className="font-mono text-xs font-extralight text-muted-foreground">
                     {getPaddedIndex(round.roundIndex)}
                   </span>
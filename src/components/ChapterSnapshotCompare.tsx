@@ -0,0 +1,113 @@
+import { FC } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { Chapter, Round } from '@/store'
+import { diffChapters, MovedRound } from '@/utils/chapter-diff'
+
+interface ChapterSnapshotCompareProps {
+  rounds: Round[]
+  from: { label: string; chapters: Chapter[] }
+  to: { label: string; chapters: Chapter[] }
+}
+
+// Consecutive rounds that made the same move, so long runs read as one line
+const groupMoves = (moves: MovedRound[]) =>
+  moves.reduce<(MovedRound & { lastRoundIndex: number })[]>((runs, move) => {
+    const last = runs[runs.length - 1]
+    if (last && last.lastRoundIndex === move.roundIndex - 1 && last.from === move.from && last.to === move.to) {
+      last.lastRoundIndex = move.roundIndex
+    } else {
+      runs.push({ ...move, lastRoundIndex: move.roundIndex })
+    }
+    return runs
+  }, [])
+
+const chapterLabel = (chapterIndex: number | null) =>
+  chapterIndex === null ? 'no chapter' : `chapter ${chapterIndex + 1}`
+
+const roundsLabel = (start: number, end: number) =>
+  start === end ? `Round ${start}` : `Rounds ${start}-${end}`
+
+/**
+ * Shows two chapter layouts side by side, with the rounds that change
+ * chapter, the omits that differ and the summaries the second layout loses.
+ */
+export const ChapterSnapshotCompare: FC<ChapterSnapshotCompareProps> = ({ rounds, from, to }) => {
+  const { movedRounds, omitChanges, lostSummaries } = diffChapters(from.chapters, to.chapters, rounds)
+  const moves = groupMoves(movedRounds)
+
+  const hasRange = (chapters: Chapter[], chapter: Chapter) => chapters.some(other =>
+    other.roundsRange[0] === chapter.roundsRange[0] && other.roundsRange[1] === chapter.roundsRange[1]
+  )
+
+  const renderColumn = (side: { label: string; chapters: Chapter[] }, other: Chapter[]) => (
+    <div className="space-y-1">
+      <h4 className="text-sm font-medium">{side.label}</h4>
+      <ol className="space-y-1">
+        {side.chapters.map((chapter, chapterIndex) => (
+          <li
+            key={chapterIndex}
+            className={cn(
+              "flex items-center gap-2 rounded-md border px-2 py-1 text-xs",
+              !hasRange(other, chapter) && "border-amber-300 bg-amber-50"
+            )}
+          >
+            <span className="font-mono text-muted-foreground">{String(chapterIndex + 1).padStart(3, '0')}</span>
+            <span className="flex-1">{roundsLabel(...chapter.roundsRange)}</span>
+            {chapter.omit.length > 0 && <Badge variant="outline">{chapter.omit.length} omitted</Badge>}
+            {chapter.summary && <Badge variant="outline">Summary</Badge>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {renderColumn(from, to.chapters)}
+        {renderColumn(to, from.chapters)}
+      </div>
+
+      {moves.length === 0 && omitChanges.length === 0 && lostSummaries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The two layouts are the same.</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div className="space-y-1">
+            <h4 className="font-medium">Rounds that change chapter</h4>
+            {moves.length === 0 && <p className="text-muted-foreground">None</p>}
+            <ul className="space-y-0.5">
+              {moves.map(move => (
+                <li key={move.roundIndex}>
+                  {roundsLabel(move.roundIndex, move.lastRoundIndex)}: {chapterLabel(move.from)} → {chapterLabel(move.to)}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="space-y-1">
+            <h4 className="font-medium">Omits that differ</h4>
+            {omitChanges.length === 0 && <p className="text-muted-foreground">None</p>}
+            <ul className="space-y-0.5">
+              {omitChanges.map(change => (
+                <li key={change.roundIndex}>
+                  Round {change.roundIndex}: {change.omitted ? 'omitted' : 'included'} in {to.label}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="space-y-1">
+            <h4 className="font-medium">Summaries lost</h4>
+            {lostSummaries.length === 0 && <p className="text-muted-foreground">None</p>}
+            <ul className="space-y-0.5">
+              {lostSummaries.map(lost => (
+                <li key={lost.chapterIndex} className="truncate" title={lost.summary}>
+                  Chapter {lost.chapterIndex + 1} ({roundsLabel(...lost.roundsRange).toLowerCase()}): {lost.summary}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+import { FC, FormEvent, useState } from 'react'
+import { CameraIcon, CounterClockwiseClockIcon, TrashIcon } from '@radix-ui/react-icons'
+import { toast } from 'sonner'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useStore } from '@/store'
+import { ChapterSnapshotCompare } from './ChapterSnapshotCompare'
+
+// Select value standing for the chapters as they are now
+const CURRENT = 'current'
+
+/**
+ * Saves named snapshots of the chapter layout within the project, restores
+ * them, and compares any two of them, or one with the current chapters.
+ */
+export const ChapterSnapshotsPanel: FC = () => {
+  const {
+    rounds,
+    chapters,
+    chapterSnapshots,
+    saveChapterSnapshot,
+    restoreChapterSnapshot,
+    deleteChapterSnapshot
+  } = useStore()
+  const [name, setName] = useState('')
+  const [compareFrom, setCompareFrom] = useState(CURRENT)
+  const [compareTo, setCompareTo] = useState<string | null>(null)
+
+  const getLayout = (id: string) => {
+    if (id === CURRENT) return { label: 'Current chapters', chapters }
+    const snapshot = chapterSnapshots.find(snapshot => snapshot.id === id)
+    return snapshot ? { label: snapshot.name, chapters: snapshot.chapters } : null
+  }
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    saveChapterSnapshot(name.trim())
+    toast.success(`Saved snapshot "${name.trim()}"`)
+    setName('')
+  }
+
+  const handleRestore = (snapshotId: string, snapshotName: string) => {
+    restoreChapterSnapshot(snapshotId)
+    toast.success(`Restored snapshot "${snapshotName}"`)
+  }
+
+  const from = getLayout(compareFrom)
+  const to = compareTo ? getLayout(compareTo) : null
+
+  return (
+    <div className="bg-secondary/30 p-3 rounded-md space-y-3">
+      <form onSubmit={handleSave} className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="snapshot-name">Chapter snapshots</Label>
+          <Input
+            id="snapshot-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this chapter layout, e.g. Split at every session"
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={!name.trim() || chapters.length === 0}>
+          <CameraIcon className="h-4 w-4 mr-2" />
+          Save snapshot
+        </Button>
+      </form>
+
+      {chapterSnapshots.length > 0 && (
+        <>
+          <ul className="space-y-1">
+            {chapterSnapshots.map(snapshot => (
+              <li key={snapshot.id} className="flex items-center gap-2 rounded-md border bg-background px-2 py-1 text-sm">
+                <span className="flex-1 truncate">{snapshot.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {snapshot.chapters.length} chapters, {new Date(snapshot.createdAt).toLocaleString()}
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setCompareTo(snapshot.id)}>
+                  Compare
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                >
+                  <CounterClockwiseClockIcon className="h-3 w-3 mr-1" />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => deleteChapterSnapshot(snapshot.id)}
+                  title="Delete snapshot"
+                >
+                  <TrashIcon className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Compare</Label>
+              <Select value={compareFrom} onValueChange={setCompareFrom}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT}>Current chapters</SelectItem>
+                  {chapterSnapshots.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>{snapshot.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>With</Label>
+              <Select value={compareTo ?? undefined} onValueChange={setCompareTo}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose a snapshot" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT}>Current chapters</SelectItem>
+                  {chapterSnapshots.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>{snapshot.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {from && to && <ChapterSnapshotCompare rounds={rounds} from={from} to={to} />}
+        </>
+      )}
+    </div>
+  )
+}
@@ -10,7 +10,7 @@ import { useStore } from '@/store'
 import { extractBlocks } from '@/utils/content-transformation'
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { PlayIcon, PauseIcon, RefreshCwIcon } from "lucide-react"
+import { PlayIcon, PauseIcon, RefreshCwIcon, CalendarIcon, XIcon } from "lucide-react"
 
 interface ChapterTableProps {
   chapter: Chapter
@@ -21,8 +21,8 @@ interface ChapterTableProps {
   onSlideUp: (chapterIndex: number, roundIndex: number) => void
   onSlideDown: (chapterIndex: number, roundIndex: number) => void
   onSplit: (chapterIndex: number, roundIndex: number) => void
-  onOmit: (chapterIndex: number, roundIndex: number, currentOmitted: boolean) => void
-  onReroll: (roundIndex: number) => void
+  onOmit: (chapterIndex: number, roundId: string, currentOmitted: boolean) => void
+  onReroll: (roundId: string) => void
   allChapters?: Chapter[]
 }
 
@@ -48,7 +48,10 @@ export const ChapterTable: FC<ChapterTableProps> = ({
     enqueueRoundSummary, 
     dequeueRoundSummary,
     updateSummaryStatus,
-    processRoundSummaryQueue 
+    processRoundSummaryQueue,
+    pauseChapter,
+    resumeChapter,
+    cancelChapter
   } = useStore()
 
   // Compute local queue for just this chapter's rounds
@@ -56,9 +59,10 @@ export const ChapterTable: FC<ChapterTableProps> = ({
     return roundSummaryQueue.filter(item => {
       // Check if this queue item corresponds to a round in this chapter
       const [start, end] = chapter.roundsRange;
-      return item.type === 'round' && item.id >= start && item.id <= end;
+      const round = rounds.find(r => r.id === item.id);
+      return item.type === 'round' && !!round && round.roundIndex >= start && round.roundIndex <= end;
     });
-  }, [roundSummaryQueue, chapter.roundsRange]);
+  }, [roundSummaryQueue, rounds, chapter.roundsRange]);
 
   // Get rounds for a specific chapter
   const getChapterRounds = () => {
@@ -93,13 +97,13 @@ export const ChapterTable: FC<ChapterTableProps> = ({
   }
 
   // Check if a round is omitted in a chapter
-  const isRoundOmitted = (roundIndex: number) => {
+  const isRoundOmitted = (roundId: string) => {
     if (currentChapterIndex !== chapterIndex && allChapters.length > 0) {
       // Get the omitted rounds from the current chapter instead of the original chapter
       const currentChapter = allChapters[currentChapterIndex];
-      return currentChapter.omit.includes(roundIndex);
+      return currentChapter.omit.includes(roundId);
     }
-    return chapter.omit.includes(roundIndex);
+    return chapter.omit.includes(roundId);
   }
 
   // Calculate the padding length for the index based on total rounds
@@ -108,32 +112,42 @@ export const ChapterTable: FC<ChapterTableProps> = ({
     return index.toString().padStart(magnitude, '0')
   }
 
+  // Rounds by position, so each row can look up the round before it
+  const roundsByIndex = useMemo(() => new Map(rounds.map(round => [round.roundIndex, round])), [rounds])
+
+  // Check if a round opens a new play session (its session differs from the previous round's)
+  const startsSession = (round: Round) => {
+    if (!round.session) return false;
+    const previousRound = roundsByIndex.get(round.roundIndex - 1);
+    return previousRound?.session?.index !== round.session.index;
+  }
+
   // Check if a round is in the summarization queue
-  const isRoundInQueue = (roundIndex: number): SummaryQueueItem | undefined => {
+  const isRoundInQueue = (roundId: string): SummaryQueueItem | undefined => {
     return roundSummaryQueue.find(
-      item => item.id === roundIndex && item.type === 'round'
+      item => item.id === roundId && item.type === 'round'
     );
   }
 
   // Add a round to the summarization queue
-  const addToQueue = (roundIndex: number) => {
-    enqueueRoundSummary(roundIndex);
+  const addToQueue = (roundId: string) => {
+    enqueueRoundSummary(roundId);
   }
 
   // Remove a round from the summarization queue
-  const removeFromQueue = (roundIndex: number) => {
-    dequeueRoundSummary(roundIndex);
+  const removeFromQueue = (roundId: string) => {
+    dequeueRoundSummary(roundId);
   }
 
   // Summarize all rounds in the chapter
   const summarizeAllRounds = () => {
     const chapterRounds = getChapterRounds();
     // Filter out omitted rounds
-    const eligibleRounds = chapterRounds.filter(round => !isRoundOmitted(round.roundIndex));
+    const eligibleRounds = chapterRounds.filter(round => !isRoundOmitted(round.id));
     
     // Add each eligible round to the queue
     eligibleRounds.forEach(round => {
-      enqueueRoundSummary(round.roundIndex);
+      enqueueRoundSummary(round.id);
     });
     
     // Start processing the queue
@@ -147,8 +161,9 @@ export const ChapterTable: FC<ChapterTableProps> = ({
     const inProgress = chapterQueue.filter(item => item.status === 'inProgress').length;
     const completed = chapterQueue.filter(item => item.status === 'completed').length;
     const failed = chapterQueue.filter(item => item.status === 'failed').length;
+    const paused = chapterQueue.filter(item => item.paused).length;
     
-    return { total, pending, inProgress, completed, failed };
+    return { total, pending, inProgress, completed, failed, paused };
   }
 
   const handleRoundClick = (round: Round) => {
@@ -281,6 +296,7 @@ export const ChapterTable: FC<ChapterTableProps> = ({
   // Queue stats for display
   const queueStats = getQueueStats();
   const hasQueuedRounds = queueStats.total > 0;
+  const isChapterPaused = hasQueuedRounds && queueStats.paused === queueStats.total;
 
   return (
     <>
@@ -308,16 +324,51 @@ export const ChapterTable: FC<ChapterTableProps> = ({
                   {queueStats.failed} failed
                 </Badge>
               )}
+              {isChapterPaused && (
+                <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                  Paused
+                </Badge>
+              )}
             </div>
             <div className="flex space-x-2">
+              {isChapterPaused ? (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => resumeChapter(chapterIndex)}
+                >
+                  <PlayIcon className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              ) : (
+                <>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={processRoundSummaryQueue}
+                    disabled={queueStats.pending === 0}
+                  >
+                    <PlayIcon className="h-4 w-4 mr-1" />
+                    Process Queue
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => pauseChapter(chapterIndex)}
+                  >
+                    <PauseIcon className="h-4 w-4 mr-1" />
+                    Pause
+                  </Button>
+                </>
+              )}
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={processRoundSummaryQueue}
-                disabled={queueStats.pending === 0}
+                onClick={() => cancelChapter(chapterIndex)}
+                title="Take this chapter's rounds off the queue, stopping the ones being summarized"
               >
-                <PlayIcon className="h-4 w-4 mr-1" />
-                Process Queue
+                <XIcon className="h-4 w-4 mr-1" />
+                Cancel
               </Button>
             </div>
           </div>
@@ -347,13 +398,13 @@ export const ChapterTable: FC<ChapterTableProps> = ({
           </TableHeader>
           <TableBody>
             {getChapterRounds().map((round) => {
-              const isOmitted = isRoundOmitted(round.roundIndex);
-              const queueItem = isRoundInQueue(round.roundIndex);
+              const isOmitted = isRoundOmitted(round.id);
+              const queueItem = isRoundInQueue(round.id);
               const isQueued = !!queueItem;
               
               return (
                 <TableRow
-                  key={round.roundIndex}
+                  key={round.id}
                   className={cn(
                     "py-1",
                     isOmitted && "opacity-50 bg-muted/50 text-muted-foreground line-through",
@@ -365,7 +416,7 @@ export const ChapterTable: FC<ChapterTableProps> = ({
                   onClick={() => !isOmitted && handleRoundClick(round)}
                 >
                   <TableCell className="py-1 px-1">
-                    <StatusBadge status={round.summaryStatus} />
+                    <StatusBadge status={round.summaryStatus} lastError={round.lastError} />
                   </TableCell>
                   <TableCell className="font-mono text-xs font-extralight text-muted-foreground py-1 px-2">
                     {getPaddedIndex(round.roundIndex)}
@@ -378,19 +429,31 @@ export const ChapterTable: FC<ChapterTableProps> = ({
                       <span className="italic">Omitted from summarization</span>
                     ) : (
                       <div className="flex items-center space-x-2">
+                        {round.session && startsSession(round) && (
+                          <Badge variant="outline" className="text-xs shrink-0" title={`Session ${round.session.index + 1}`}>
+                            <CalendarIcon className="h-3 w-3 mr-1" />
+                            {round.session.date}
+                          </Badge>
+                        )}
+                        {round.textChanged && (
+                          <Badge variant="outline" className="text-xs shrink-0 bg-amber-50 text-amber-800" title="The transcript text changed since this summary was written">
+                            Changed
+                          </Badge>
+                        )}
                         <span className="truncate">{round.summary || "No summary available"}</span>
                         {isQueued && (
                           <Badge 
                             variant="outline" 
                             className={cn(
                               "text-xs ml-1",
-                              queueItem.status === 'pending' && "bg-yellow-50 text-yellow-800",
+                              queueItem.status === 'pending' && !queueItem.paused && "bg-yellow-50 text-yellow-800",
+                              queueItem.status === 'pending' && queueItem.paused && "bg-amber-50 text-amber-800",
                               queueItem.status === 'inProgress' && "bg-blue-50 text-blue-800", 
                               queueItem.status === 'completed' && "bg-green-50 text-green-800",
                               queueItem.status === 'failed' && "bg-red-50 text-red-800"
                             )}
                           >
-                            {queueItem.status === 'pending' && "Queued"}
+                            {queueItem.status === 'pending' && (queueItem.paused ? "Paused" : "Queued")}
                             {queueItem.status === 'inProgress' && "Processing"}
                             {queueItem.status === 'completed' && "Processed"}
                             {queueItem.status === 'failed' && "Failed"}
@@ -409,7 +472,7 @@ export const ChapterTable: FC<ChapterTableProps> = ({
                               size="sm"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                removeFromQueue(round.roundIndex);
+                                removeFromQueue(round.id);
                               }}
                               className="h-7 px-2 text-xs"
                             >
@@ -422,7 +485,7 @@ export const ChapterTable: FC<ChapterTableProps> = ({
                               size="sm"
                               onClick={(e) => {
                                 e.stopPropagation();
-                                addToQueue(round.roundIndex);
+                                addToQueue(round.id);
                               }}
                               className="h-7 px-2 text-xs"
                             >
@@ -434,6 +497,7 @@ export const ChapterTable: FC<ChapterTableProps> = ({
                       )}
                       <RoundActionsToolbar
                         size="xs"
+                        roundId={round.id}
                         roundIndex={round.roundIndex}
                         chapterIndex={chapterIndex}
                         isFirstChapter={isFirstChapter}
@@ -465,7 +529,7 @@ export const ChapterTable: FC<ChapterTableProps> = ({
         chapterIndex={currentChapterIndex}
         isFirstChapter={currentChapterIndex === 0}
         isLastChapter={currentChapterIndex === allChapters.length - 1}
-        isOmitted={selectedRound ? isRoundOmitted(selectedRound.roundIndex) : false}
+        isOmitted={selectedRound ? isRoundOmitted(selectedRound.id) : false}
         onPrevious={hasPreviousRound() ? handlePreviousRound : undefined}
         onNext={hasNextRound() ? handleNextRound : undefined}
       />
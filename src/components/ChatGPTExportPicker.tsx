@@ -0,0 +1,103 @@
+import { FC, useMemo } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { ChatGPTConversation, ImportOptions, listBranches, listConversations } from '@/utils/importers'
+
+interface ChatGPTExportPickerProps {
+  /**
+   * Conversations parsed from the uploaded conversations.json export
+   */
+  conversations: ChatGPTConversation[]
+
+  /**
+   * Currently loaded conversation and branch
+   */
+  selection: ImportOptions
+
+  /**
+   * Called when the user picks another conversation or branch
+   */
+  onSelectionChange: (selection: ImportOptions) => void
+}
+
+/**
+ * Lets the user choose which conversation of a ChatGPT export to load
+ * and which branch of regenerated replies to follow.
+ */
+export const ChatGPTExportPicker: FC<ChatGPTExportPickerProps> = ({
+  conversations,
+  selection,
+  onSelectionChange
+}) => {
+  const conversationIndex = selection.conversationIndex ?? 0
+  const conversationInfos = useMemo(() => listConversations(conversations), [conversations])
+  const branches = useMemo(
+    () => conversations[conversationIndex] ? listBranches(conversations[conversationIndex]) : [],
+    [conversations, conversationIndex]
+  )
+  const branchLeafId = selection.branchLeafId ?? branches.find(branch => branch.isCurrent)?.leafId ?? ''
+  const selectedBranch = branches.find(branch => branch.leafId === branchLeafId)
+
+  const handleConversationChange = (value: string) => {
+    // A new conversation always starts on its currently selected branch
+    onSelectionChange({ conversationIndex: Number(value) })
+  }
+
+  const handleBranchChange = (leafId: string) => {
+    onSelectionChange({ conversationIndex, branchLeafId: leafId })
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 bg-secondary/30 p-3 rounded-md">
+      <div className="space-y-2">
+        <Label>Conversation</Label>
+        <Select value={String(conversationIndex)} onValueChange={handleConversationChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select a conversation" />
+          </SelectTrigger>
+          <SelectContent>
+            {conversationInfos.map(info => (
+              <SelectItem key={info.index} value={String(info.index)}>
+                {info.title}
+                {info.createTime && (
+                  <span className="text-muted-foreground text-xs ml-2">
+                    {new Date(info.createTime * 1000).toLocaleDateString()}
+                  </span>
+                )}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Branch</Label>
+        <Select value={branchLeafId} onValueChange={handleBranchChange} disabled={branches.length < 2}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select a branch" />
+          </SelectTrigger>
+          <SelectContent>
+            {branches.map((branch, index) => (
+              <SelectItem key={branch.leafId} value={branch.leafId}>
+                {branch.isCurrent ? 'Current branch' : `Branch ${index + 1} (diverges at message ${branch.divergesAt + 1})`}
+                <span className="text-muted-foreground text-xs ml-2">
+                  {branch.messageCount} messages
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedBranch?.preview && (
+          <p className="text-xs text-muted-foreground truncate">
+            Ends with: {selectedBranch.preview}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -22,6 +22,8 @@ import {
 } from "@/components/ui/sheet"
 import { AppSidebarCustom } from './app-sidebar-custom'
 import { QueuePanel } from './QueuePanel'
+import { StorageIssueAlert } from './StorageIssueAlert'
+import { QueueRecoveryAlert } from './QueueRecoveryAlert'
 import { Button } from '@/components/ui/button'
 
 interface MainLayoutProps {
@@ -119,6 +121,8 @@ export function MainLayout({
           <div className="mx-auto">
             {/* Main content - actual component from children */}
             <div className="rounded-xl p-4">
+              <StorageIssueAlert />
+              <QueueRecoveryAlert />
               {children}
             </div>
           </div>
@@ -0,0 +1,218 @@
+import { FC, useState } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Pencil1Icon, PlusIcon, TrashIcon } from '@radix-ui/react-icons'
+import { useStore } from '@/store'
+import { MarkerProfile, validateMarkerProfile } from '@/utils/content-transformation'
+import { toast } from 'sonner'
+
+interface MarkerProfileEditorProps {
+  /**
+   * Called after the selected profile changes or is edited,
+   * so the current transcript can be re-transformed
+   */
+  onProfileChange?: (profile: MarkerProfile) => void
+}
+
+// Patterns are edited as one regular expression per line
+const toLines = (patterns: string[]) => patterns.join('\n')
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean)
+
+/**
+ * Selects the speaker-marker profile used to transform plain-text transcripts,
+ * and lets the user create, edit and delete profiles.
+ */
+export const MarkerProfileEditor: FC<MarkerProfileEditorProps> = ({ onProfileChange }) => {
+  const {
+    markerProfiles,
+    selectedMarkerProfileId,
+    saveMarkerProfile,
+    deleteMarkerProfile,
+    selectMarkerProfile
+  } = useStore()
+  const [draft, setDraft] = useState<MarkerProfile | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const selectedProfile = markerProfiles.find(profile => profile.id === selectedMarkerProfileId) ?? markerProfiles[0]
+
+  const handleSelect = (profileId: string) => {
+    selectMarkerProfile(profileId)
+    const profile = markerProfiles.find(p => p.id === profileId)
+    if (profile) onProfileChange?.(profile)
+  }
+
+  const openEditor = (profile: MarkerProfile) => {
+    setDraft(profile)
+    setErrors([])
+  }
+
+  const handleNew = () => {
+    // New profiles start as a copy of the selected one
+    openEditor({
+      ...selectedProfile,
+      id: `profile-${Date.now()}`,
+      name: `${selectedProfile.name} (copy)`,
+      builtIn: false
+    })
+  }
+
+  const handleDelete = () => {
+    deleteMarkerProfile(selectedProfile.id)
+    toast.success(`Deleted marker profile "${selectedProfile.name}"`)
+    const fallback = markerProfiles.find(profile => profile.builtIn)
+    if (fallback) onProfileChange?.(fallback)
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+
+    const validationErrors = validateMarkerProfile(draft)
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors)
+      return
+    }
+
+    saveMarkerProfile(draft)
+    selectMarkerProfile(draft.id)
+    onProfileChange?.(draft)
+    setDraft(null)
+    toast.success(`Saved marker profile "${draft.name}"`)
+  }
+
+  return (
+    <div className="flex items-end gap-2">
+      <div className="space-y-2 flex-1">
+        <Label>Speaker markers</Label>
+        <Select value={selectedProfile.id} onValueChange={handleSelect}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select a marker profile" />
+          </SelectTrigger>
+          <SelectContent>
+            {markerProfiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button variant="outline" size="icon" onClick={() => openEditor(selectedProfile)} title="Edit profile">
+        <Pencil1Icon className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="icon" onClick={handleNew} title="New profile">
+        <PlusIcon className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={handleDelete}
+        disabled={selectedProfile.builtIn}
+        title="Delete profile"
+      >
+        <TrashIcon className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Marker Profile</DialogTitle>
+            <DialogDescription>
+              One case-insensitive regular expression per line.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="marker-profile-name">Name</Label>
+                <Input
+                  id="marker-profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="marker-profile-user">User turn markers</Label>
+                <Textarea
+                  id="marker-profile-user"
+                  className="font-mono text-sm"
+                  value={toLines(draft.userMarkers)}
+                  onChange={(e) => setDraft({ ...draft, userMarkers: fromLines(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="marker-profile-dm">Dungeon master turn markers</Label>
+                <Textarea
+                  id="marker-profile-dm"
+                  className="font-mono text-sm"
+                  value={toLines(draft.dmMarkers)}
+                  onChange={(e) => setDraft({ ...draft, dmMarkers: fromLines(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="marker-profile-drop">Lines to drop</Label>
+                <Textarea
+                  id="marker-profile-drop"
+                  className="font-mono text-sm"
+                  value={toLines(draft.dropLinePatterns)}
+                  onChange={(e) => setDraft({ ...draft, dropLinePatterns: fromLines(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="marker-profile-session">Session date lines</Label>
+                <Input
+                  id="marker-profile-session"
+                  className="font-mono text-sm"
+                  value={draft.sessionDatePattern ?? ''}
+                  placeholder="Leave empty to keep date lines as text"
+                  onChange={(e) => setDraft({ ...draft, sessionDatePattern: e.target.value.trim() || undefined })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Whitespace</Label>
+                <Select
+                  value={draft.whitespace}
+                  onValueChange={(value) => setDraft({ ...draft, whitespace: value as MarkerProfile['whitespace'] })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="preserve">Preserve</SelectItem>
+                    <SelectItem value="collapse-newlines">Collapse blank lines</SelectItem>
+                    <SelectItem value="collapse-all">Collapse blank lines and spaces</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {errors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-4">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
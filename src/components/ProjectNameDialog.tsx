@@ -0,0 +1,72 @@
+import { FC, FormEvent, useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface ProjectNameDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  submitLabel: string
+  initialName?: string
+  onSubmit: (name: string) => void
+}
+
+/**
+ * Asks for a project name, when creating or renaming a project.
+ */
+export const ProjectNameDialog: FC<ProjectNameDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  submitLabel,
+  initialName = '',
+  onSubmit
+}) => {
+  const [name, setName] = useState(initialName)
+
+  // Start from the current name each time the dialog opens
+  useEffect(() => {
+    if (open) setName(initialName)
+  }, [open, initialName])
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    onSubmit(name.trim())
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Campaign name"
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,11 @@
 import { useStore } from '../store'
 import { cva } from 'class-variance-authority'
 import { cn } from "@/lib/utils"
+import { Progress } from "@/components/ui/progress"
+import { Button } from "@/components/ui/button"
+import { PlayIcon, PauseIcon, XIcon } from "lucide-react"
+import { getChapterSummaryProgress } from "@/utils/summary-scheduler"
+import { SummaryQueueSettingsPanel } from './SummaryQueueSettingsPanel'
 
 interface QueuePanelProps {
   setActiveView: (view: any) => void
@@ -44,12 +49,33 @@ const queueCard = cva("p-3 rounded border flex justify-between items-center", {
 })
 
 export function QueuePanel({ setActiveView }: QueuePanelProps) {
-  const { roundSummaryQueue, rounds } = useStore()
+  const {
+    roundSummaryQueue,
+    chapterSummaryQueue,
+    rounds,
+    chapters,
+    summaryQueueSettings,
+    setSummaryQueueSettings,
+    isQueuePaused,
+    pauseQueue,
+    resumeQueue,
+    cancelQueue
+  } = useStore()
+  const hasQueuedItems = roundSummaryQueue.length + chapterSummaryQueue.length > 0
+
+  // Chapters with rounds queued or running, with how far each has come
+  const activeChapters = chapters
+    .map((chapter, chapterIndex) => ({
+      chapterIndex,
+      progress: getChapterSummaryProgress(chapter, rounds, roundSummaryQueue)
+    }))
+    .filter(({ progress }) => progress.inProgress + progress.pending > 0)
 
   // Get round info with summary for display
-  const getRoundSummary = (roundId: number) => {
-    const round = rounds.find(r => r.roundIndex === roundId)
-    return round?.summary || "No summary available"
+  const getRound = (roundId: string) => rounds.find(r => r.id === roundId)
+
+  const getRoundSummary = (roundId: string) => {
+    return getRound(roundId)?.summary || "No summary available"
   }
 
   return (
@@ -62,6 +88,55 @@ export function QueuePanel({ setActiveView }: QueuePanelProps) {
           </span>
         )}
       </h2>
+
+      {hasQueuedItems && (
+        <div className="mb-4 flex gap-2">
+          {isQueuePaused ? (
+            <Button variant="outline" size="sm" onClick={resumeQueue}>
+              <PlayIcon className="h-4 w-4 mr-1" />
+              Resume
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={pauseQueue}>
+              <PauseIcon className="h-4 w-4 mr-1" />
+              Pause all
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={cancelQueue}
+            title="Empty the queue, stopping the summaries being written"
+          >
+            <XIcon className="h-4 w-4 mr-1" />
+            Cancel all
+          </Button>
+        </div>
+      )}
+
+      <SummaryQueueSettingsPanel
+        className="mb-4"
+        settings={summaryQueueSettings}
+        onSettingsChange={setSummaryQueueSettings}
+      />
+
+      {activeChapters.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {activeChapters.map(({ chapterIndex, progress }) => (
+            <div key={chapterIndex} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span className="font-medium">Chapter {String(chapterIndex + 1).padStart(3, '0')}</span>
+                <span className="font-mono text-muted-foreground">
+                  {progress.completed}/{progress.total}
+                  {progress.inProgress > 0 && ` · ${progress.inProgress} running`}
+                  {progress.pending > 0 && ` · ${progress.pending} queued`}
+                </span>
+              </div>
+              <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 100} className="h-1.5" />
+            </div>
+          ))}
+        </div>
+      )}
       
       {roundSummaryQueue.length === 0 ? (
         <div className="text-center py-4 text-muted-foreground">
@@ -79,7 +154,7 @@ export function QueuePanel({ setActiveView }: QueuePanelProps) {
             >
               <div className="overflow-hidden">
                 <div className="font-medium flex items-center gap-2">
-                  <span>Round {item.id}</span>
+                  <span>Round {getRound(item.id)?.roundIndex ?? '?'}</span>
                   {index === 0 && (
                     <span className="text-xs px-1.5 py-0.5 rounded-sm bg-primary/10 text-primary">
                       Next
@@ -96,9 +171,13 @@ export function QueuePanel({ setActiveView }: QueuePanelProps) {
                       ? "Completed"
                       : item.status === 'failed'
                         ? "Failed"
-                        : index === 0
-                          ? "Next in queue"
-                          : "Waiting"}
+                        : isQueuePaused || item.paused
+                          ? "Paused"
+                          : item.attempts
+                            ? `Waiting to retry (${item.attempts} failed)`
+                            : index === 0
+                              ? "Next in queue"
+                              : "Waiting"}
                 </div>
               </div>
               <div className={statusIndicator({ status: item.status })} />
@@ -0,0 +1,45 @@
+import { FC } from 'react'
+import { PlayIcon, RotateCcw } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { useStore } from '@/store'
+
+/**
+ * Offers to resume the summary queue when a project loads with work still
+ * queued, including summaries that were cut off when the page closed.
+ */
+export const QueueRecoveryAlert: FC = () => {
+  const queueRecovery = useStore((state) => state.queueRecovery)
+  const resumeQueue = useStore((state) => state.resumeQueue)
+  const dismissQueueRecovery = useStore((state) => state.dismissQueueRecovery)
+
+  if (!queueRecovery) return null
+
+  const { interrupted, queued } = queueRecovery
+
+  return (
+    <Alert className="mb-4">
+      <RotateCcw className="h-4 w-4" />
+      <AlertTitle>
+        {queued} summar{queued !== 1 ? 'ies are' : 'y is'} waiting in the queue
+      </AlertTitle>
+      <AlertDescription>
+        {interrupted > 0 && (
+          <p>
+            {interrupted} {interrupted !== 1 ? 'were' : 'was'} cut off when the page closed. Their partial
+            summaries were discarded and they were queued again.
+          </p>
+        )}
+        <div className="flex gap-2 pt-1">
+          <Button variant="outline" size="sm" onClick={resumeQueue}>
+            <PlayIcon className="h-4 w-4 mr-1" />
+            Resume
+          </Button>
+          <Button variant="ghost" size="sm" onClick={dismissQueueRecovery}>
+            Not now
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,78 @@
+import { FC, useMemo } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { getRawExcerpt, SourceMap } from '@/utils/source-map'
+
+interface RawExcerptDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rawContent: string
+  processedContent: string
+  sourceMap: SourceMap
+  // Raw line range to show (0-based, inclusive)
+  rawRange: [number, number]
+}
+
+/**
+ * Shows an excerpt of the raw upload with the lines the transformation
+ * removed or changed highlighted.
+ */
+export const RawExcerptDialog: FC<RawExcerptDialogProps> = ({
+  open,
+  onOpenChange,
+  rawContent,
+  processedContent,
+  sourceMap,
+  rawRange
+}) => {
+  const excerpt = useMemo(
+    () => open ? getRawExcerpt(rawContent, processedContent, sourceMap, rawRange[0], rawRange[1]) : [],
+    [open, rawContent, processedContent, sourceMap, rawRange]
+  )
+
+  const changedCount = excerpt.filter(line => line.status === 'changed').length
+  const removedCount = excerpt.filter(line => line.status === 'removed').length
+  const magnitude = String(rawRange[1] + 1).length
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Raw lines {rawRange[0] + 1}–{rawRange[1] + 1}</DialogTitle>
+          <DialogDescription className="flex gap-2">
+            <Badge variant="outline" className="bg-amber-500/10">{changedCount} changed</Badge>
+            <Badge variant="outline" className="bg-red-500/10">{removedCount} removed</Badge>
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[60vh] border rounded-md">
+          <pre className="font-mono text-xs">
+            {excerpt.map(line => (
+              <div
+                key={line.rawLine}
+                className={cn(
+                  "flex px-2",
+                  line.status === 'changed' && "bg-amber-500/10",
+                  line.status === 'removed' && "bg-red-500/10 text-muted-foreground line-through"
+                )}
+                title={line.status === 'changed' ? `Became:\n${line.processedLines.join('\n')}` : undefined}
+              >
+                <span className="select-none text-muted-foreground pr-3">
+                  {String(line.rawLine + 1).padStart(magnitude, ' ')}
+                </span>
+                <span className="whitespace-pre-wrap">{line.text || ' '}</span>
+              </div>
+            ))}
+          </pre>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
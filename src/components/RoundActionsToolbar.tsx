@@ -9,6 +9,7 @@ import { roundPrompt } from "@/data/round-prompt"
 import { toast } from "sonner"
 
 interface RoundActionsToolbarProps {
+  roundId: string
   roundIndex: number
   chapterIndex: number
   isFirstChapter: boolean
@@ -17,12 +18,13 @@ interface RoundActionsToolbarProps {
   onSlideUp: (chapterIndex: number, roundIndex: number) => void
   onSlideDown: (chapterIndex: number, roundIndex: number) => void
   onSplit: (chapterIndex: number, roundIndex: number) => void
-  onOmit: (chapterIndex: number, roundIndex: number, currentOmitted: boolean) => void
-  onReroll?: (roundIndex: number) => void
+  onOmit: (chapterIndex: number, roundId: string, currentOmitted: boolean) => void
+  onReroll?: (roundId: string) => void
   size?: 'xs' | 'sm'
 }
 
 export const RoundActionsToolbar: FC<RoundActionsToolbarProps> = ({
+  roundId,
   roundIndex,
   chapterIndex,
   isFirstChapter,
@@ -58,7 +60,7 @@ export const RoundActionsToolbar: FC<RoundActionsToolbarProps> = ({
       contentLength: r.rawContent?.length || 0
     })));
     
-    const round = rounds.find(r => r.roundIndex === roundIndex);
+    const round = rounds.find(r => r.id === roundId);
     
     if (!round) {
       console.error(`Round with index ${roundIndex} not found in rounds array`);
@@ -68,13 +70,13 @@ export const RoundActionsToolbar: FC<RoundActionsToolbarProps> = ({
     
     // Call onReroll to handle any UI updates
     if (typeof onReroll === 'function') {
-      onReroll(roundIndex);
+      onReroll(roundId);
     } else {
       console.warn('RoundActionsToolbar: onReroll is not a function');
     }
     
     // Mark the round as being processed and enqueue it for summarization
-    rerollRoundSummary(roundIndex);
+    rerollRoundSummary(roundId);
     
     // Set UI state
     setIsGenerating(true);
@@ -180,7 +182,7 @@ export const RoundActionsToolbar: FC<RoundActionsToolbarProps> = ({
                   )}
                   onClick={(e) => {
                     e.stopPropagation();
-                    onOmit(chapterIndex, roundIndex, isOmitted);
+                    onOmit(chapterIndex, roundId, isOmitted);
                   }}
                 >
                   <Cross2Icon className={isExtraSmall ? "h-2.5 w-2.5" : "h-3 w-3"} />
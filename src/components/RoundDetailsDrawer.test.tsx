@@ -5,6 +5,7 @@ import { Round } from '@/store';
 
 describe('RoundDetailsDrawer', () => {
     const mockRound: Round = {
+        id: 'r-0',
         roundIndex: 0,
         startLine: 1,
         endLine: 10,
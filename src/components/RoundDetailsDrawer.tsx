@@ -15,12 +15,15 @@ import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { ChevronLeft, ChevronRight, BookOpen, AlignJustify, FileText } from 'lucide-react'
+import { ChevronLeft, ChevronRight, BookOpen, AlignJustify, FileText, CalendarIcon, FileSearch, AlertTriangle } from 'lucide-react'
 import { extractBlocks } from '@/utils/content-transformation'
 import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { useStore } from '@/store'
 import { cn } from '@/lib/utils'
 import { CopyableText } from './ui/copyable-text'
+import { RawExcerptDialog } from './RawExcerptDialog'
+import { getRawLineRange } from '@/utils/source-map'
 
 // Create a DrawerBody component similar to DrawerHeader and DrawerFooter
 const DrawerBody: FC<React.HTMLAttributes<HTMLDivElement>> = ({ 
@@ -39,11 +42,11 @@ interface RoundDetailsDrawerProps {
     round: Round | null
     open: boolean
     onClose: () => void
-    onReroll?: (roundIndex: number) => void
+    onReroll?: (roundId: string) => void
     onSlideUp?: (chapterIndex: number, roundIndex: number) => void
     onSlideDown?: (chapterIndex: number, roundIndex: number) => void
     onSplit?: (chapterIndex: number, roundIndex: number) => void
-    onOmit?: (chapterIndex: number, roundIndex: number, currentOmitted: boolean) => void
+    onOmit?: (chapterIndex: number, roundId: string, currentOmitted: boolean) => void
     chapterIndex?: number
     isFirstChapter?: boolean
     isLastChapter?: boolean
@@ -73,18 +76,19 @@ export const RoundDetailsDrawer: FC<RoundDetailsDrawerProps> = ({
     console.log('RoundDetailsDrawer', { round });
     const [userContent, setUserContent] = useState<string>('');
     const [dmContent, setDmContent] = useState<string>('');
-    const { chapters } = useStore();
+    const [isRawExcerptOpen, setIsRawExcerptOpen] = useState(false);
+    const { chapters, rawFileContent, processedContent, sourceMap, roundSummaryQueue, summaryQueueSettings } = useStore();
 
     // Find the actual chapter index for this round
-    const findChapterForRound = (roundIndex: number) => {
+    const findChapterForRound = (round: Round) => {
         for (let i = 0; i < chapters.length; i++) {
             const [start, end] = chapters[i].roundsRange;
-            if (roundIndex >= start && roundIndex <= end) {
+            if (round.roundIndex >= start && round.roundIndex <= end) {
                 return {
                     index: i,
                     isFirst: i === 0,
                     isLast: i === chapters.length - 1,
-                    isOmitted: chapters[i].omit.includes(roundIndex)
+                    isOmitted: chapters[i].omit.includes(round.id)
                 };
             }
         }
@@ -100,7 +104,7 @@ export const RoundDetailsDrawer: FC<RoundDetailsDrawerProps> = ({
     // Get chapter info for the current round
     const getChapterInfo = () => {
         if (!round) return { index: chapterIndex, isFirst: isFirstChapter, isLast: isLastChapter, isOmitted: isOmitted };
-        return findChapterForRound(round.roundIndex);
+        return findChapterForRound(round);
     };
 
     // Check if the current round is the first round in the first chapter
@@ -182,6 +186,12 @@ export const RoundDetailsDrawer: FC<RoundDetailsDrawerProps> = ({
     // Get the current chapter information
     const { index: currentChapterIndex, isFirst, isLast, isOmitted: roundIsOmitted } = getChapterInfo();
 
+    // Raw upload lines this round came from, via the transformation's source map
+    const rawRange = sourceMap ? getRawLineRange(sourceMap, round.startLine, round.endLine) : null;
+
+    // Queue entry of a round waiting for a retry
+    const queueItem = roundSummaryQueue.find(item => item.id === round.id && item.type === 'round');
+
     // Determine if previous/next buttons should be disabled
     const isPreviousDisabled = isFirstRoundOfFirstChapter() || !onPrevious;
     const isNextDisabled = isLastRoundOfLastChapter() || !onNext;
@@ -193,7 +203,7 @@ export const RoundDetailsDrawer: FC<RoundDetailsDrawerProps> = ({
                     <div className="flex items-center justify-between">
                         <div className="space-y-1">
                             <DrawerTitle className="flex items-center gap-2">
-                                <StatusBadge status={round.summaryStatus || 'pending'} />
+                                <StatusBadge status={round.summaryStatus || 'pending'} lastError={round.lastError} />
                                 Round <span className="font-mono text-sm font-extralight text-muted-foreground">{getPaddedRoundIndex(round.roundIndex)}</span>
                             </DrawerTitle>
                         </div>
@@ -206,32 +216,83 @@ export const RoundDetailsDrawer: FC<RoundDetailsDrawerProps> = ({
                                 <AlignJustify className="h-3 w-3" />
                                 {round.lineCount} lines
                             </Badge>
+                            {rawRange && (
+                                <Badge variant="outline" className="flex items-center gap-1">
+                                    <FileSearch className="h-3 w-3" />
+                                    Raw lines {rawRange[0] + 1}–{rawRange[1] + 1}
+                                </Badge>
+                            )}
+                            {round.sourceFile && (
+                                <Badge variant="outline" className="flex items-center gap-1">
+                                    <FileText className="h-3 w-3" />
+                                    {round.sourceFile}
+                                </Badge>
+                            )}
+                            {round.textChanged && (
+                                <Badge variant="outline" className="bg-amber-50 text-amber-800">
+                                    Text changed since summary
+                                </Badge>
+                            )}
+                            {round.session && (
+                                <Badge variant="outline" className="flex items-center gap-1">
+                                    <CalendarIcon className="h-3 w-3" />
+                                    Session {round.session.index + 1} · {round.session.date}
+                                </Badge>
+                            )}
                         </div>
                     </div>
                 </DrawerHeader>
                 
                 <DrawerBody className="p-4">
                     {/* Toolbar Section */}
-                    {showToolbar && (
-                        <div className="flex justify-end mb-4">
-                            <RoundActionsToolbar
-                                size="sm"
-                                roundIndex={round.roundIndex}
-                                chapterIndex={currentChapterIndex}
-                                isFirstChapter={isFirst}
-                                isLastChapter={isLast}
-                                isOmitted={roundIsOmitted}
-                                onSlideUp={onSlideUp}
-                                onSlideDown={onSlideDown}
-                                onSplit={onSplit}
-                                onOmit={onOmit}
-                                onReroll={onReroll}
-                            />
+                    {(showToolbar || rawRange) && (
+                        <div className="flex justify-end gap-2 mb-4">
+                            {rawRange && (
+                                <Button variant="outline" size="sm" onClick={() => setIsRawExcerptOpen(true)}>
+                                    <FileSearch className="mr-1 h-4 w-4" />
+                                    View Raw
+                                </Button>
+                            )}
+                            {showToolbar && (
+                                <RoundActionsToolbar
+                                    size="sm"
+                                    roundId={round.id}
+                                    roundIndex={round.roundIndex}
+                                    chapterIndex={currentChapterIndex}
+                                    isFirstChapter={isFirst}
+                                    isLastChapter={isLast}
+                                    isOmitted={roundIsOmitted}
+                                    onSlideUp={onSlideUp}
+                                    onSlideDown={onSlideDown}
+                                    onSplit={onSplit}
+                                    onOmit={onOmit}
+                                    onReroll={onReroll}
+                                />
+                            )}
                         </div>
                     )}
                     
                     {/* Grid Layout */}
                     <div className="grid grid-cols-1 gap-4">
+                        {/* Why the last summary request failed, and whether it will be retried */}
+                        {round.lastError && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertTitle>
+                                    {round.summaryStatus === 'failed' ? 'Summary failed' : 'Summary request failed'}
+                                </AlertTitle>
+                                <AlertDescription>
+                                    <p>{round.lastError}</p>
+                                    {queueItem?.attempts !== undefined && (
+                                        <p>
+                                            Retry {queueItem.attempts} of {summaryQueueSettings.maxRetries}
+                                            {queueItem.status === 'inProgress' ? ' is running.' : ' is queued.'}
+                                        </p>
+                                    )}
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         {/* Full-width Summary Section */}
                         {round.summary && (
                             <CopyableText 
@@ -302,6 +363,16 @@ export const RoundDetailsDrawer: FC<RoundDetailsDrawerProps> = ({
                     </div>
                 </DrawerFooter>
             </DrawerContent>
+            {rawRange && rawFileContent && processedContent && sourceMap && (
+                <RawExcerptDialog
+                    open={isRawExcerptOpen}
+                    onOpenChange={setIsRawExcerptOpen}
+                    rawContent={rawFileContent}
+                    processedContent={processedContent}
+                    sourceMap={sourceMap}
+                    rawRange={rawRange}
+                />
+            )}
         </Drawer>
     )
 } 
\ No newline at end of file
@@ -1,12 +1,17 @@
-import { FC } from 'react'
+import { FC, ReactElement } from 'react'
 import { DotFilledIcon } from "@radix-ui/react-icons"
-import { cn } from "@/lib/utils"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
 
 interface StatusBadgeProps {
   status?: string
+
+  /**
+   * Why the last summary request failed, shown on hover
+   */
+  lastError?: string
 }
 
-export const StatusBadge: FC<StatusBadgeProps> = ({ status }) => {
+const getStatusIcon = (status?: string): ReactElement => {
   switch(status) {
     case 'completed':
       return (
@@ -29,4 +34,20 @@ export const StatusBadge: FC<StatusBadgeProps> = ({ status }) => {
         <DotFilledIcon className="h-4 w-4 text-gray-800/40" />
       )
   }
-} 
\ No newline at end of file
+}
+
+export const StatusBadge: FC<StatusBadgeProps> = ({ status, lastError }) => {
+  const icon = getStatusIcon(status)
+  if (!lastError) return icon
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex">{icon}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        {status === 'failed' ? 'Failed' : 'Last attempt failed'}: {lastError}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
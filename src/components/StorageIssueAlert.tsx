@@ -0,0 +1,57 @@
+import { FC } from 'react'
+import { AlertTriangle, Download } from 'lucide-react'
+import { toast } from 'sonner'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { downloadQuarantinedData } from '@/db/quarantine'
+import { useStore } from '@/store'
+
+/**
+ * Tells the user when their saved project couldn't be loaded, and offers the
+ * data that was set aside as a download. Saving resumes, in a new project, once
+ * the user continues.
+ */
+export const StorageIssueAlert: FC = () => {
+  const storageIssue = useStore((state) => state.storageIssue)
+  const dismissStorageIssue = useStore((state) => state.dismissStorageIssue)
+
+  if (!storageIssue) return null
+
+  const handleDownload = async () => {
+    if (storageIssue.backupId === null) return
+
+    try {
+      await downloadQuarantinedData(storageIssue.backupId)
+    } catch (error) {
+      console.error('Error downloading backup:', error)
+      toast.error('Could not download the backup')
+    }
+  }
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Your saved project couldn't be loaded</AlertTitle>
+      <AlertDescription>
+        <p>{storageIssue.message}</p>
+        <p>
+          {storageIssue.backupId !== null
+            ? 'The saved data was set aside and the app started with an empty project. Download a backup before you start over.'
+            : 'The app started with an empty project.'}
+          {' '}Nothing is saved until you continue; your saved projects are left as they are.
+        </p>
+        <div className="flex gap-2 pt-1">
+          {storageIssue.backupId !== null && (
+            <Button variant="outline" size="sm" onClick={handleDownload}>
+              <Download className="h-4 w-4 mr-1" />
+              Download backup
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={dismissStorageIssue}>
+            Continue in a new project
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
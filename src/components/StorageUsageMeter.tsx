@@ -0,0 +1,32 @@
+import { FC } from 'react'
+import { DatabaseIcon } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
+import { formatBytes } from '@/db/db'
+import { useStorageUsage } from '@/hooks/use-storage-usage'
+
+/**
+ * Shows how much browser storage the saved project takes up, for the sidebar footer.
+ */
+export const StorageUsageMeter: FC = () => {
+  const usage = useStorageUsage()
+
+  if (!usage) return null
+
+  const percent = usage.quota ? (usage.usage / usage.quota) * 100 : 0
+
+  return (
+    <div
+      className="px-2 py-1 space-y-1 text-xs text-muted-foreground group-data-[collapsible=icon]:hidden"
+      title={`${usage.projects} projects with ${usage.rounds} rounds and ${usage.chapters} chapters saved`}
+    >
+      <div className="flex items-center gap-1">
+        <DatabaseIcon className="h-3 w-3" />
+        <span>
+          {formatBytes(usage.usage)}
+          {usage.quota > 0 && ` of ${formatBytes(usage.quota)}`} used
+        </span>
+      </div>
+      {usage.quota > 0 && <Progress value={Math.max(percent, 1)} className="h-1" />}
+    </div>
+  )
+}
@@ -26,11 +26,11 @@ const StoreTest: React.FC = () => {
   // Generate sample rounds for testing
   const generateSampleRounds = () => {
     const rounds: Round[] = [
-      { roundIndex: 0, startLine: 1, endLine: 10, lineCount: 10 },
-      { roundIndex: 1, startLine: 11, endLine: 25, lineCount: 15 },
-      { roundIndex: 2, startLine: 26, endLine: 40, lineCount: 15 },
-      { roundIndex: 3, startLine: 41, endLine: 60, lineCount: 20 },
-      { roundIndex: 4, startLine: 61, endLine: 80, lineCount: 20 }
+      { id: 'r-sample-0', roundIndex: 0, startLine: 1, endLine: 10, lineCount: 10 },
+      { id: 'r-sample-1', roundIndex: 1, startLine: 11, endLine: 25, lineCount: 15 },
+      { id: 'r-sample-2', roundIndex: 2, startLine: 26, endLine: 40, lineCount: 15 },
+      { id: 'r-sample-3', roundIndex: 3, startLine: 41, endLine: 60, lineCount: 20 },
+      { id: 'r-sample-4', roundIndex: 4, startLine: 61, endLine: 80, lineCount: 20 }
     ];
     
     store.setRounds(rounds);
@@ -48,18 +48,18 @@ const StoreTest: React.FC = () => {
   
   // Test omitting a round
   const testOmitRound = () => {
-    store.omitRound(0, 1, true); // Omit round 1 in chapter 0
+    store.omitRound(0, 'r-sample-1', true); // Omit round 1 in chapter 0
   };
   
   // Test enqueueing a round for summary
   const testEnqueueRound = () => {
-    store.enqueueRoundSummary(0); // Enqueue round 0
-    store.enqueueRoundSummary(1); // Enqueue round 1
+    store.enqueueRoundSummary('r-sample-0'); // Enqueue round 0
+    store.enqueueRoundSummary('r-sample-1'); // Enqueue round 1
   };
   
   // Test rerolling a round summary
   const testRerollRound = () => {
-    store.rerollRoundSummary(1); // Reroll round 1 (moves to front of queue)
+    store.rerollRoundSummary('r-sample-1'); // Reroll round 1 (moves to front of queue)
   };
   
   // Reset the store
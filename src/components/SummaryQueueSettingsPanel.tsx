@@ -0,0 +1,70 @@
+import { FC } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { SummaryQueueSettings } from '@/store'
+
+interface SummaryQueueSettingsPanelProps {
+  settings: SummaryQueueSettings
+
+  /**
+   * Called with the changed settings only
+   */
+  onSettingsChange: (settings: Partial<SummaryQueueSettings>) => void
+
+  className?: string
+}
+
+/**
+ * Sets how many round summaries are requested at once: across how many
+ * chapters, and how many rounds within each. Also sets how often a request
+ * that failed for a passing reason is retried.
+ */
+export const SummaryQueueSettingsPanel: FC<SummaryQueueSettingsPanelProps> = ({
+  settings,
+  onSettingsChange,
+  className
+}) => {
+  // Ignore empty or invalid numbers while the user is typing
+  const handleLimitChange = (key: keyof SummaryQueueSettings, value: string, min = 1) => {
+    const limit = Number(value)
+    if (value !== '' && Number.isFinite(limit) && limit >= min) {
+      onSettingsChange({ [key]: Math.round(limit) })
+    }
+  }
+
+  return (
+    <div className={cn("grid grid-cols-3 gap-4", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="max-concurrent-chapters">Chapters at once</Label>
+        <Input
+          id="max-concurrent-chapters"
+          type="number"
+          min={1}
+          defaultValue={settings.maxConcurrentChapters}
+          onBlur={(e) => handleLimitChange('maxConcurrentChapters', e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="max-concurrent-rounds">Rounds per chapter</Label>
+        <Input
+          id="max-concurrent-rounds"
+          type="number"
+          min={1}
+          defaultValue={settings.maxConcurrentRounds}
+          onBlur={(e) => handleLimitChange('maxConcurrentRounds', e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="max-retries">Retries</Label>
+        <Input
+          id="max-retries"
+          type="number"
+          min={0}
+          defaultValue={settings.maxRetries}
+          onBlur={(e) => handleLimitChange('maxRetries', e.target.value, 0)}
+        />
+      </div>
+    </div>
+  )
+}
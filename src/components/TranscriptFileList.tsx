@@ -0,0 +1,130 @@
+import { FC, useState } from 'react'
+import { DragHandleDots2Icon, Cross2Icon } from '@radix-ui/react-icons'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { getFirstSessionDate, MergeOrder, MergeSource, sortMergeSources } from '@/utils/importers/merge'
+
+interface TranscriptFileListProps {
+  /**
+   * Imported files, in the order they will be merged
+   */
+  sources: MergeSource[]
+
+  /**
+   * Called with the files in their new order
+   */
+  onSourcesChange: (sources: MergeSource[]) => void
+
+  /**
+   * Whether every file starts a new chapter
+   */
+  splitOnSourceFiles: boolean
+  onSplitOnSourceFilesChange: (checked: boolean) => void
+
+  /**
+   * Called when the user confirms the order
+   */
+  onMerge: () => void
+  onCancel: () => void
+}
+
+/**
+ * Lets the user order several uploaded transcript files, by name, by the
+ * date of their first session or by dragging, before merging them.
+ */
+export const TranscriptFileList: FC<TranscriptFileListProps> = ({
+  sources,
+  onSourcesChange,
+  splitOnSourceFiles,
+  onSplitOnSourceFilesChange,
+  onMerge,
+  onCancel
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const handleSort = (order: MergeOrder) => {
+    onSourcesChange(sortMergeSources(sources, order))
+  }
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return
+
+    const reordered = [...sources]
+    const [moved] = reordered.splice(dragIndex, 1)
+    reordered.splice(targetIndex, 0, moved)
+    onSourcesChange(reordered)
+    setDragIndex(null)
+  }
+
+  const handleRemove = (index: number) => {
+    onSourcesChange(sources.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="bg-secondary/30 p-3 rounded-md space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Merge {sources.length} files</h4>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleSort('name')}>
+            Sort by name
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleSort('session-date')}>
+            Sort by session date
+          </Button>
+        </div>
+      </div>
+
+      <ol className="space-y-1">
+        {sources.map((source, index) => {
+          const sessionDate = getFirstSessionDate(source.result)
+          return (
+            <li
+              key={source.fileName}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={cn(
+                "flex items-center gap-2 rounded-md border bg-background px-2 py-1 text-sm",
+                dragIndex === index && "opacity-50"
+              )}
+            >
+              <DragHandleDots2Icon className="h-4 w-4 text-muted-foreground cursor-grab shrink-0" />
+              <span className="font-mono text-xs text-muted-foreground">{index + 1}</span>
+              <span className="flex-1 truncate">{source.fileName}</span>
+              <Badge variant="outline">{source.result.formatLabel}</Badge>
+              <Badge variant="outline">{source.result.rounds.length} rounds</Badge>
+              {sessionDate && <Badge variant="outline">{sessionDate}</Badge>}
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRemove(index)}>
+                <Cross2Icon className="h-3 w-3" />
+              </Button>
+            </li>
+          )
+        })}
+      </ol>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="split-on-source-files"
+            checked={splitOnSourceFiles}
+            onCheckedChange={onSplitOnSourceFilesChange}
+          />
+          <Label htmlFor="split-on-source-files">Start a new chapter at each file</Label>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onMerge} disabled={sources.length === 0}>
+            Merge files
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
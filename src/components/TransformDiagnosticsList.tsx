@@ -0,0 +1,72 @@
+import { FC } from 'react'
+import { ExclamationTriangleIcon, CrossCircledIcon } from '@radix-ui/react-icons'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Badge } from '@/components/ui/badge'
+import { TransformDiagnostic } from '@/utils/content-transformation'
+
+interface TransformDiagnosticsListProps {
+  diagnostics: TransformDiagnostic[]
+  /**
+   * Maps a processed content line to the 1-based raw line shown to the user
+   */
+  getRawLine: (processedLine: number) => number | null
+  /**
+   * Called when the user clicks a diagnostic's line link
+   */
+  onJumpToLine: (processedLine: number) => void
+}
+
+/**
+ * Lists the problems found while transforming and parsing an upload,
+ * with links that jump to the offending line in the file preview.
+ */
+export const TransformDiagnosticsList: FC<TransformDiagnosticsListProps> = ({
+  diagnostics,
+  getRawLine,
+  onJumpToLine
+}) => {
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length
+  const warningCount = diagnostics.length - errorCount
+
+  return (
+    <div className="bg-secondary/30 p-3 rounded-md">
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-sm font-medium">Diagnostics</h4>
+        {errorCount > 0 && (
+          <Badge variant="outline" className="bg-red-500/10">{errorCount} error{errorCount !== 1 ? 's' : ''}</Badge>
+        )}
+        {warningCount > 0 && (
+          <Badge variant="outline" className="bg-amber-500/10">{warningCount} warning{warningCount !== 1 ? 's' : ''}</Badge>
+        )}
+      </div>
+      <ScrollArea className="max-h-48">
+        <ul className="space-y-1 text-sm">
+          {diagnostics.map((diagnostic, index) => {
+            const rawLine = getRawLine(diagnostic.line)
+            return (
+              <li key={index} className="flex items-center gap-2">
+                {diagnostic.severity === 'error' ? (
+                  <CrossCircledIcon className="h-4 w-4 text-red-500 shrink-0" />
+                ) : (
+                  <ExclamationTriangleIcon className="h-4 w-4 text-amber-500 shrink-0" />
+                )}
+                <span className="flex-1">{diagnostic.message}</span>
+                {diagnostic.roundIndex !== undefined && (
+                  <span className="font-mono text-xs text-muted-foreground">round {diagnostic.roundIndex}</span>
+                )}
+                {rawLine !== null && (
+                  <button
+                    className="font-mono text-xs text-primary underline-offset-2 hover:underline"
+                    onClick={() => onJumpToLine(diagnostic.line)}
+                  >
+                    line {rawLine}
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -6,12 +6,8 @@ import {
   Upload,
   FileEdit,
   Settings2,
-  Code,
   GalleryVerticalEnd,
-  Command,
   Inbox,
-  Music,
-  MoreHorizontal,
   Wrench,
 } from "lucide-react"
 
@@ -22,18 +18,6 @@ export const appData = {
     email: "johndoe@example.com",
     avatar: "/avatars/default-avatar.jpg",
   },
-  teams: [
-    {
-      name: "Story Sync",
-      logo: Upload,
-      plan: "Pro",
-    },
-    {
-      name: "Personal",
-      logo: Command,
-      plan: "Free",
-    },
-  ],
   navMain: [
     {
       title: "Upload",
@@ -99,26 +83,6 @@ export const appData = {
       url: "#",
       icon: Bot,
       action: 'meta-prompt-tester'
-    },
-    {
-      name: "Story Project 1",
-      url: "#",
-      icon: Upload,
-    },
-    {
-      name: "Code Project",
-      url: "#",
-      icon: Code,
-    },
-    {
-      name: "Audio Project",
-      url: "#",
-      icon: Music,
-    },
-    {
-      name: "More",
-      url: "#",
-      icon: MoreHorizontal,
     }
   ],
 } 
\ No newline at end of file
@@ -2,9 +2,11 @@ import * as React from "react"
 import { ChevronRight, type LucideIcon } from "lucide-react"
 
 import { appData } from "./app-data"
+import { NavProjects } from "@/components/nav-projects"
 import { NavTools } from "@/components/nav-tools"
 import { NavUser } from "@/components/nav-user"
 import { TeamSwitcher } from "@/components/team-switcher"
+import { StorageUsageMeter } from "@/components/StorageUsageMeter"
 import {
   Sidebar,
   SidebarContent,
@@ -34,13 +36,15 @@ export function AppSidebarCustom({ onNavigation, ...props }: AppSidebarCustomPro
   return (
     <Sidebar collapsible="icon" {...props}>
       <SidebarHeader>
-        <TeamSwitcher teams={appData.teams} />
+        <TeamSwitcher />
       </SidebarHeader>
       <SidebarContent>
         <CustomNavMain items={appData.navMain} onNavigation={onNavigation} />
+        <NavProjects />
         <NavTools projects={appData.projects} onNavigation={onNavigation} />
       </SidebarContent>
       <SidebarFooter>
+        <StorageUsageMeter />
         <NavUser user={appData.user} />
       </SidebarFooter>
       <SidebarRail />
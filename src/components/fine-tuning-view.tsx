@@ -1,9 +1,16 @@
 import { FC } from 'react'
 import { Button } from "@/components/ui/button"
-import { DownloadIcon } from "@radix-ui/react-icons"
+import { DownloadIcon, FileTextIcon, ReloadIcon, ResetIcon } from "@radix-ui/react-icons"
 import { useStore } from "@/store"
 import { toast } from "sonner"
 import { ChapterCard } from './ChapterCard'
+import { ChapterBoundaryHandle } from './ChapterBoundaryHandle'
+import { ChapterIssuesAlert } from './ChapterIssuesAlert'
+import { ChapterSnapshotsPanel } from './ChapterSnapshotsPanel'
+import { ChapterGroupingSettingsPanel } from './ChapterGroupingSettingsPanel'
+import { formatTokenCount, getChapterSizeOptions, getChapterTokenBudget, isChapterOverBudget } from "@/utils/token-budget"
+import { groupRoundsByStrategy } from "@/utils/scene-breaks"
+import { useUndoRedo } from "@/hooks/use-undo-redo"
 
 export const FineTuningView: FC = () => {
   const {
@@ -13,9 +20,18 @@ export const FineTuningView: FC = () => {
     slideRoundDown,
     splitChapter,
     omitRound,
+    mergeChapters,
+    moveChapterBoundary,
     rerollRoundSummary,
-    roundSummaryQueue
+    roundSummaryQueue,
+    processedContent,
+    chapterGrouping,
+    setChapterGrouping,
+    regroupChapters,
+    enqueueChapterSummary,
+    processChapterSummaryQueue
   } = useStore()
+  const { undo, redo, undoLabel, redoLabel } = useUndoRedo()
 
   // Handle cases when there's no data yet
   if (chapters.length === 0 || rounds.length === 0) {
@@ -51,11 +67,35 @@ export const FineTuningView: FC = () => {
     toast.success("Configuration downloaded successfully")
   }
 
+  // Re-run the automatic grouping with the current settings; omitted rounds stay omitted
+  const handleRegroup = () => {
+    const regrouped = groupRoundsByStrategy(rounds, processedContent ?? '', {
+      strategy: chapterGrouping.strategy,
+      ...getChapterSizeOptions(chapterGrouping)
+    })
+    regroupChapters(regrouped)
+    toast.success(`Regrouped into ${regrouped.length} chapters`)
+  }
+
+  // Warn when a manual change leaves one of the given chapters over the token budget
+  const warnIfOverBudget = (chapterIndices: number[]) => {
+    const { chapters, rounds, chapterGrouping } = useStore.getState()
+    const overBudget = chapterIndices.filter(index =>
+      chapters[index] && isChapterOverBudget(chapters[index], rounds, chapterGrouping)
+    )
+
+    if (overBudget.length > 0) {
+      const budget = formatTokenCount(getChapterTokenBudget(chapterGrouping))
+      toast.warning(`Chapter ${overBudget.map(index => index + 1).join(', ')} is over the ${budget} token budget`)
+    }
+  }
+
   // Handle chapter actions
   const handleSlideUp = (chapterIndex: number, roundIndex: number) => {
     if (chapterIndex > 0) {
       slideRoundUp(chapterIndex, roundIndex)
       toast.success(`Round ${roundIndex} moved to previous chapter`)
+      warnIfOverBudget([chapterIndex - 1])
     }
   }
 
@@ -63,31 +103,56 @@ export const FineTuningView: FC = () => {
     if (chapterIndex < chapters.length - 1) {
       slideRoundDown(chapterIndex, roundIndex)
       toast.success(`Round ${roundIndex} moved to next chapter`)
+      // The current chapter disappears when all of its rounds moved down
+      warnIfOverBudget([chapterIndex, chapterIndex + 1])
     }
   }
 
   const handleSplit = (chapterIndex: number, roundIndex: number) => {
     splitChapter(chapterIndex, roundIndex)
     toast.success(`Chapter split at round ${roundIndex}`)
+    warnIfOverBudget([chapterIndex, chapterIndex + 1])
   }
 
-  const handleOmit = (chapterIndex: number, roundIndex: number, currentOmitted: boolean) => {
-    omitRound(chapterIndex, roundIndex, !currentOmitted)
+  const handleMoveBoundary = (chapterIndex: number, roundIndex: number) => {
+    moveChapterBoundary(chapterIndex, roundIndex)
+    toast.success(`Chapter ${chapterIndex + 2} now starts at round ${roundIndex}`)
+    warnIfOverBudget([chapterIndex, chapterIndex + 1])
+  }
+
+  const handleMerge = (chapterIndex: number) => {
+    mergeChapters(chapterIndex)
+    toast.success(`Chapters ${chapterIndex + 1} and ${chapterIndex + 2} merged`)
+    warnIfOverBudget([chapterIndex])
+  }
+
+  const handleOmit = (chapterIndex: number, roundId: string, currentOmitted: boolean) => {
+    omitRound(chapterIndex, roundId, !currentOmitted)
+    const roundIndex = rounds.find(round => round.id === roundId)?.roundIndex
 
     // Show different toast messages based on action
     if (currentOmitted) {
       toast.success(`Round ${roundIndex} included in summarization`)
+      warnIfOverBudget([chapterIndex])
     } else {
       toast.success(`Round ${roundIndex} omitted from summarization`)
     }
   }
 
-  const handleReroll = (roundIndex: number) => {
-    rerollRoundSummary(roundIndex)
+  // Queue an outline of every chapter; they are written one at a time
+  const handleSummarizeChapters = () => {
+    chapters.forEach((_, chapterIndex) => enqueueChapterSummary(chapterIndex))
+    processChapterSummaryQueue()
+    toast.success(`Added ${chapters.length} chapters to the summarization queue`)
+  }
+
+  const handleReroll = (roundId: string) => {
+    rerollRoundSummary(roundId)
+    const roundIndex = rounds.find(round => round.id === roundId)?.roundIndex
 
     // Check if the round is already in the queue to show appropriate message
     const isAlreadyInQueue = roundSummaryQueue.some(
-      item => item.id === roundIndex && item.type === 'round'
+      item => item.id === roundId && item.type === 'round'
     )
 
     if (isAlreadyInQueue) {
@@ -99,9 +164,57 @@ export const FineTuningView: FC = () => {
 
   return (
     <div className="space-y-6">
-      <div className="space-y-6">
+      <ChapterIssuesAlert />
+
+      <div className="flex items-end gap-4 bg-secondary/30 p-3 rounded-md">
+        <ChapterGroupingSettingsPanel
+          className="flex-1"
+          settings={chapterGrouping}
+          onSettingsChange={setChapterGrouping}
+        />
+        <Button variant="outline" onClick={handleRegroup}>
+          <ReloadIcon className="h-4 w-4 mr-2" />
+          Regroup chapters
+        </Button>
+      </div>
+
+      {/* Undo/redo of chapter edits, labelled with the step they reverse */}
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={undo}
+          disabled={!undoLabel}
+          title="Undo (Ctrl+Z)"
+        >
+          <ResetIcon className="h-4 w-4 mr-2" />
+          {undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={redo}
+          disabled={!redoLabel}
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <ResetIcon className="h-4 w-4 mr-2 -scale-x-100" />
+          {redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
         {chapters.map((chapter, chapterIndex) => (
-          <div key={chapterIndex} className="mb-6">
+          <div key={chapterIndex}>
+            {chapterIndex > 0 && (
+              <ChapterBoundaryHandle
+                chapterIndex={chapterIndex - 1}
+                boundary={chapter.roundsRange[0]}
+                min={chapters[chapterIndex - 1].roundsRange[0] + 1}
+                max={chapter.roundsRange[1]}
+                onMove={handleMoveBoundary}
+                onMerge={handleMerge}
+              />
+            )}
             <ChapterCard
               chapter={chapter}
               chapterIndex={chapterIndex}
@@ -120,7 +233,17 @@ export const FineTuningView: FC = () => {
         ))}
       </div>
 
+      <ChapterSnapshotsPanel />
+
       <div className="flex justify-end">
+        <Button
+          variant="outline"
+          className="mr-2"
+          onClick={handleSummarizeChapters}
+        >
+          <FileTextIcon className="h-4 w-4 mr-2" />
+          Outline All Chapters
+        </Button>
         <Button
           variant="outline"
           className="mr-2"
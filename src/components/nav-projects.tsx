@@ -1,11 +1,23 @@
+import * as React from "react"
 import {
-  Folder,
-  Forward,
+  BookMarked,
+  Copy,
   MoreHorizontal,
+  Pencil,
   Trash2,
-  type LucideIcon,
 } from "lucide-react"
+import { toast } from "sonner"
 
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -22,29 +34,60 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from "@/components/ui/sidebar"
+import { ProjectNameDialog } from "@/components/ProjectNameDialog"
+import { Project, useStore } from "@/store"
 
-export function NavTools({
-  projects,
-}: {
-  projects: {
-    name: string
-    url: string
-    icon: LucideIcon
-  }[]
-}) {
+/**
+ * Lists the projects in the sidebar, with actions to switch to, rename,
+ * duplicate and delete each one.
+ */
+export function NavProjects() {
   const { isMobile } = useSidebar()
+  const projects = useStore((state) => state.projects)
+  const activeProjectId = useStore((state) => state.activeProjectId)
+  const isProcessingQueue = useStore((state) => state.isProcessingQueue)
+  const switchProject = useStore((state) => state.switchProject)
+  const renameProject = useStore((state) => state.renameProject)
+  const duplicateProject = useStore((state) => state.duplicateProject)
+  const deleteProject = useStore((state) => state.deleteProject)
+  const [renaming, setRenaming] = React.useState<Project | null>(null)
+  const [deleting, setDeleting] = React.useState<Project | null>(null)
+
+  // Project actions read and write IndexedDB, so report failures instead of losing them
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      toast.error(failure)
+    }
+  }
+
+  const handleDuplicate = (project: Project) =>
+    run(async () => {
+      await duplicateProject(project.id)
+      toast.success(`Duplicated ${project.name}`)
+    }, 'Could not duplicate the project')
+
+  const handleDelete = (project: Project) =>
+    run(async () => {
+      await deleteProject(project.id)
+      toast.success(`Deleted ${project.name}`)
+    }, 'Could not delete the project')
 
   return (
     <SidebarGroup className="group-data-[collapsible=icon]:hidden">
-      <SidebarGroupLabel>Tools</SidebarGroupLabel>
+      <SidebarGroupLabel>Projects</SidebarGroupLabel>
       <SidebarMenu>
-        {projects.map((item) => (
-          <SidebarMenuItem key={item.name}>
-            <SidebarMenuButton asChild>
-              <a href={item.url}>
-                <item.icon />
-                <span>{item.name}</span>
-              </a>
+        {projects.map((project) => (
+          <SidebarMenuItem key={project.id}>
+            <SidebarMenuButton
+              isActive={project.id === activeProjectId}
+              disabled={isProcessingQueue && project.id !== activeProjectId}
+              onClick={() => run(() => switchProject(project.id), 'Could not open the project')}
+            >
+              <BookMarked />
+              <span>{project.name}</span>
             </SidebarMenuButton>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -58,16 +101,19 @@ export function NavTools({
                 side={isMobile ? "bottom" : "right"}
                 align={isMobile ? "end" : "start"}
               >
-                <DropdownMenuItem>
-                  <Folder className="text-muted-foreground" />
-                  <span>View Project</span>
+                <DropdownMenuItem onClick={() => setRenaming(project)}>
+                  <Pencil className="text-muted-foreground" />
+                  <span>Rename Project</span>
                 </DropdownMenuItem>
-                <DropdownMenuItem>
-                  <Forward className="text-muted-foreground" />
-                  <span>Share Project</span>
+                <DropdownMenuItem onClick={() => handleDuplicate(project)}>
+                  <Copy className="text-muted-foreground" />
+                  <span>Duplicate Project</span>
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={projects.length <= 1 || (isProcessingQueue && project.id === activeProjectId)}
+                  onClick={() => setDeleting(project)}
+                >
                   <Trash2 className="text-muted-foreground" />
                   <span>Delete Project</span>
                 </DropdownMenuItem>
@@ -75,13 +121,33 @@ export function NavTools({
             </DropdownMenu>
           </SidebarMenuItem>
         ))}
-        <SidebarMenuItem>
-          <SidebarMenuButton className="text-sidebar-foreground/70">
-            <MoreHorizontal className="text-sidebar-foreground/70" />
-            <span>More</span>
-          </SidebarMenuButton>
-        </SidebarMenuItem>
       </SidebarMenu>
+
+      <ProjectNameDialog
+        open={renaming !== null}
+        onOpenChange={(open) => !open && setRenaming(null)}
+        title="Rename project"
+        submitLabel="Rename"
+        initialName={renaming?.name}
+        onSubmit={(name) => renaming && renameProject(renaming.id, name)}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project's transcript, rounds, chapters and summaries will be removed from this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && handleDelete(deleting)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </SidebarGroup>
   )
 }
@@ -1,5 +1,6 @@
 import * as React from "react"
-import { ChevronsUpDown, Plus } from "lucide-react"
+import { BookMarked, ChevronsUpDown, Plus } from "lucide-react"
+import { toast } from "sonner"
 
 import {
   DropdownMenu,
@@ -7,7 +8,6 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
-  DropdownMenuShortcut,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import {
@@ -16,20 +16,34 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from "@/components/ui/sidebar"
+import { ProjectNameDialog } from "@/components/ProjectNameDialog"
+import { useStore } from "@/store"
 
-export function TeamSwitcher({
-  teams,
-}: {
-  teams: {
-    name: string
-    logo: React.ElementType
-    plan: string
-  }[]
-}) {
+/**
+ * Shows the active project and switches between projects, or creates a new one.
+ */
+export function TeamSwitcher() {
   const { isMobile } = useSidebar()
-  const [activeTeam, setActiveTeam] = React.useState(teams[0])
+  const projects = useStore((state) => state.projects)
+  const activeProjectId = useStore((state) => state.activeProjectId)
+  const roundCount = useStore((state) => state.rounds.length)
+  const isProcessingQueue = useStore((state) => state.isProcessingQueue)
+  const switchProject = useStore((state) => state.switchProject)
+  const createProject = useStore((state) => state.createProject)
+  const [isCreating, setIsCreating] = React.useState(false)
 
-  if (!activeTeam) {
+  const activeProject = projects.find((project) => project.id === activeProjectId)
+
+  const handleSwitch = async (projectId: string) => {
+    try {
+      await switchProject(projectId)
+    } catch (error) {
+      console.error('Error switching project:', error)
+      toast.error('Could not open the project')
+    }
+  }
+
+  if (!activeProject) {
     return null
   }
 
@@ -43,11 +57,11 @@ export function TeamSwitcher({
               className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
             >
               <div className="bg-sidebar-primary text-sidebar-primary-foreground flex aspect-square size-8 items-center justify-center rounded-lg">
-                <activeTeam.logo className="size-4" />
+                <BookMarked className="size-4" />
               </div>
               <div className="grid flex-1 text-left text-sm leading-tight">
-                <span className="truncate font-medium">{activeTeam.name}</span>
-                <span className="truncate text-xs">{activeTeam.plan}</span>
+                <span className="truncate font-medium">{activeProject.name}</span>
+                <span className="truncate text-xs">{roundCount} rounds</span>
               </div>
               <ChevronsUpDown className="ml-auto" />
             </SidebarMenuButton>
@@ -59,30 +73,41 @@ export function TeamSwitcher({
             sideOffset={4}
           >
             <DropdownMenuLabel className="text-muted-foreground text-xs">
-              Teams
+              {isProcessingQueue ? 'Projects (wait for summaries to finish to switch)' : 'Projects'}
             </DropdownMenuLabel>
-            {teams.map((team, index) => (
+            {projects.map((project) => (
               <DropdownMenuItem
-                key={team.name}
-                onClick={() => setActiveTeam(team)}
+                key={project.id}
+                onClick={() => handleSwitch(project.id)}
+                disabled={isProcessingQueue && project.id !== activeProjectId}
                 className="gap-2 p-2"
               >
                 <div className="flex size-6 items-center justify-center rounded-xs border">
-                  <team.logo className="size-4 shrink-0" />
+                  <BookMarked className="size-4 shrink-0" />
                 </div>
-                {team.name}
-                <DropdownMenuShortcut>⌘{index + 1}</DropdownMenuShortcut>
+                <span className="truncate">{project.name}</span>
               </DropdownMenuItem>
             ))}
             <DropdownMenuSeparator />
-            <DropdownMenuItem className="gap-2 p-2">
+            <DropdownMenuItem
+              className="gap-2 p-2"
+              disabled={isProcessingQueue}
+              onClick={() => setIsCreating(true)}
+            >
               <div className="bg-background flex size-6 items-center justify-center rounded-md border">
                 <Plus className="size-4" />
               </div>
-              <div className="text-muted-foreground font-medium">Add team</div>
+              <div className="text-muted-foreground font-medium">New project</div>
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <ProjectNameDialog
+          open={isCreating}
+          onOpenChange={setIsCreating}
+          title="New project"
+          submitLabel="Create"
+          onSubmit={createProject}
+        />
       </SidebarMenuItem>
     </SidebarMenu>
   )
@@ -1,14 +1,45 @@
-import { FC, useState, useRef } from 'react'
+import { FC, useState, useRef, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 
 import { UploadIcon } from "@radix-ui/react-icons"
-import { useStore } from '@/store'
-import { transformContent, parseContentIntoRounds, groupRoundsIntoChapters } from '@/utils/content-transformation'
+import { useStore, Chapter, ChapterGroupingSettings, Round } from '@/store'
+import { ChapterGroupingOptions } from '@/utils/content-transformation'
+import { groupRoundsByStrategy } from '@/utils/scene-breaks'
+import { getChapterSizeOptions } from '@/utils/token-budget'
+import {
+  ChatGPTConversation,
+  ImportFormat,
+  ImportOptions,
+  supportedFileExtensions
+} from '@/utils/importers'
+import { resyncRounds, ResyncStats } from '@/utils/resync'
+import { IngestCancelledError, IngestProgress, IngestResult, IngestTask, startIngest } from '@/utils/importers/ingest'
+import { MergeSource, mergeIngestResults } from '@/utils/importers/merge'
+import { MarkerProfile, TransformDiagnostic } from '@/utils/content-transformation'
+import { ChatGPTExportPicker } from './ChatGPTExportPicker'
+import { MarkerProfileEditor } from './MarkerProfileEditor'
+import { TransformDiagnosticsList } from './TransformDiagnosticsList'
+import { TranscriptFileList } from './TranscriptFileList'
+import { ChapterGroupingSettingsPanel } from './ChapterGroupingSettingsPanel'
 import { Toaster } from '@/components/ui/sonner'
 import { toast } from 'sonner'
 import { Textarea } from "@/components/ui/textarea"
+import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+
+// Upload card label for each ingestion phase
+const ingestPhaseLabels: Record<IngestProgress['phase'], string> = {
+  reading: 'Reading file',
+  processing: 'Splitting rounds',
+  grouping: 'Grouping chapters'
+}
+
+// Number of distinct play sessions found in the transcript
+const countSessions = (rounds: { session?: { index: number } }[]) =>
+  new Set(rounds.filter(round => round.session).map(round => round.session!.index)).size
 
 interface UploadAreaProps {
   onNext?: () => void;
@@ -18,22 +49,71 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
   const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const previewRef = useRef<HTMLTextAreaElement>(null)
+  // The import currently running in the ingest worker
+  const ingestTaskRef = useRef<IngestTask | null>(null)
+  const [ingestProgress, setIngestProgress] = useState<IngestProgress | null>(null)
   const [fileStats, setFileStats] = useState<{
     fileSizeKB: number;
     lineCount: number;
     roundCount: number;
     chapterCount: number;
+    sessionCount: number;
+    fileCount: number;
+    formatLabel: string;
   } | null>(null)
+  // Start a new chapter at every play session boundary
+  const [splitOnSessions, setSplitOnSessions] = useState(false)
+  // Files imported from a multi-file upload, waiting to be ordered and merged
+  const [mergeSources, setMergeSources] = useState<MergeSource[]>([])
+  // Start a new chapter at every merged file boundary
+  const [splitOnSourceFiles, setSplitOnSourceFiles] = useState(true)
+  // Which file of a multi-file upload is being imported, e.g. "2/5 session-2.txt"
+  const [ingestFileLabel, setIngestFileLabel] = useState('')
+  const [uploadedFileName, setUploadedFileName] = useState('')
+  const [importFormat, setImportFormat] = useState<ImportFormat | null>(null)
+  const [diagnostics, setDiagnostics] = useState<TransformDiagnostic[]>([])
+  // Re-sync a new upload with the stored rounds instead of replacing them, when appending to a project.
+  // Off unless asked for, as an unrelated transcript would take over the stored summaries
+  const [resyncMode, setResyncMode] = useState(false)
+  const [appendToTrailingChapter, setAppendToTrailingChapter] = useState(false)
+  // Conversations of a ChatGPT export and the conversation/branch currently loaded from it
+  const [chatGPTConversations, setChatGPTConversations] = useState<ChatGPTConversation[]>([])
+  const [chatGPTSelection, setChatGPTSelection] = useState<ImportOptions>({})
 
   // Get store actions and state
   const {
     setRawFileContent,
     setProcessedContent,
+    setSourceMap,
     setRounds,
     setChapters,
-    rawFileContent
+    applyResync,
+    rawFileContent,
+    processedContent,
+    sourceMap,
+    rounds: storedRounds,
+    chapters: storedChapters,
+    markerProfiles,
+    selectedMarkerProfileId,
+    chapterGrouping,
+    setChapterGrouping,
+    regroupChapters: storeRegroupedChapters
   } = useStore()
 
+  const selectedMarkerProfile = markerProfiles.find(profile => profile.id === selectedMarkerProfileId)
+
+  // How new chapters are grouped: session and file breaks, and a line or token size limit
+  const groupingOptions: ChapterGroupingOptions = {
+    splitOnSessions,
+    splitOnSourceFiles,
+    strategy: chapterGrouping.strategy,
+    ...getChapterSizeOptions(chapterGrouping)
+  }
+
+  // Stop any running import when the upload card goes away
+  useEffect(() => () => ingestTaskRef.current?.cancel(), [])
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(true)
@@ -43,83 +123,274 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
     setIsDragging(false)
   }
 
-  const uploadFile = async (file: File) => {
-    if (!file) return
+  // Import a file (or already-read content) in the ingest worker.
+  // Resolves to null when the import was cancelled or failed.
+  const ingestSource = async (
+    source: File | string,
+    fileName: string,
+    format?: ImportFormat,
+    options?: ImportOptions
+  ): Promise<IngestResult | null> => {
+    // Only one import runs at a time
+    ingestTaskRef.current?.cancel()
+    const task = startIngest({
+      source,
+      fileName,
+      format,
+      options: { markerProfile: selectedMarkerProfile, ...options },
+      grouping: groupingOptions
+    }, setIngestProgress)
+    ingestTaskRef.current = task
 
-    // Check if file is a text file
-    if (file.type !== 'text/plain' && !file.name.endsWith('.txt')) {
-      toast.error('Please upload a text file')
-      return
+    try {
+      setIsProcessing(true)
+      return await task.promise
+    } catch (error) {
+      if (error instanceof IngestCancelledError) {
+        toast.info('Import cancelled')
+      } else {
+        console.error('Error processing file:', error)
+        toast.error('Error processing file. Please try again.')
+      }
+      return null
+    } finally {
+      // A newer import may have replaced this one while it was running
+      if (ingestTaskRef.current === task) {
+        ingestTaskRef.current = null
+        setIsProcessing(false)
+        setIngestProgress(null)
+      }
     }
+  }
 
-    // Check file size (1-3MB)
-    const fileSizeMB = file.size / (1024 * 1024)
-    const fileSizeKB = Math.round(file.size / 1024)
+  // Feed an import result into the store, re-syncing it with the stored rounds when asked
+  const storeImport = (result: IngestResult, fileSizeKB: number, { fileCount = 1, resync = false } = {}) => {
+    // Store raw content, processed content and its map back to the raw file in Zustand
+    setRawFileContent(result.rawContent)
+    setProcessedContent(result.processedContent)
+    setSourceMap(result.sourceMap)
+
+    setDiagnostics(result.diagnostics)
+
+    let rounds: Round[] = result.rounds
+    let chapters: Chapter[] = result.chapters
+    let resyncStats: ResyncStats | null = null
+    if (resync && storedRounds.length > 0 && processedContent) {
+      // Keep summaries, omits and chapter boundaries of rounds that are still in the transcript
+      const resync = resyncRounds(
+        { rounds: storedRounds, chapters: storedChapters, processedContent },
+        { rounds, processedContent: result.processedContent },
+        { appendTo: appendToTrailingChapter ? 'trailing-chapter' : 'new-chapter', grouping: groupingOptions }
+      )
+      applyResync(resync)
+      rounds = resync.rounds
+      chapters = resync.chapters
+      resyncStats = resync.stats
+    } else {
+      // Store rounds and the chapters grouped by the worker in Zustand
+      setRounds(rounds)
+      setChapters(chapters)
+    }
+
+    // Set file stats
+    setFileStats({
+      fileSizeKB,
+      lineCount: result.rawContent.split('\n').length,
+      roundCount: rounds.length,
+      chapterCount: chapters.length,
+      sessionCount: countSessions(rounds),
+      fileCount,
+      formatLabel: result.formatLabel
+    })
+
+    return { ...result, rounds, chapters, resyncStats }
+  }
+
+  // Import a single file (or already-read content) and store the result
+  const applyImport = async (
+    source: File | string,
+    fileName: string,
+    fileSizeKB: number,
+    format?: ImportFormat,
+    options?: ImportOptions,
+    resync = false
+  ) => {
+    const result = await ingestSource(source, fileName, format, options)
+    return result && storeImport(result, fileSizeKB, { resync })
+  }
 
-    if (fileSizeMB < 1 || fileSizeMB > 3) {
-      toast.warning(`File size should be between 1-3MB. Current size: ${fileSizeMB.toFixed(2)}MB`)
-      // Still continue processing
+  // Report the outcome of a stored import
+  const announceImport = ({ formatLabel, rounds, chapters, diagnostics, resyncStats }: ReturnType<typeof storeImport>) => {
+    if (resyncStats) {
+      toast.success(`Re-synced ${formatLabel} file: ${resyncStats.appended} new rounds, ${rounds.length} rounds in ${chapters.length} chapters`)
+      if (resyncStats.changed > 0 || resyncStats.inserted > 0 || resyncStats.removed > 0) {
+        toast.warning(`${resyncStats.changed} rounds changed, ${resyncStats.inserted} inserted and ${resyncStats.removed} removed since the last upload`)
+      }
+    } else {
+      toast.success(`${formatLabel} file processed successfully: ${rounds.length} rounds, ${chapters.length} chapters`)
+    }
+    if (diagnostics.length > 0) {
+      toast.warning(`Found ${diagnostics.length} problem${diagnostics.length !== 1 ? 's' : ''} in the transcript`)
     }
+  }
 
-    try {
-      setIsProcessing(true)
+  const handleCancelClick = () => {
+    ingestTaskRef.current?.cancel()
+  }
 
-      // Read file content
-      const rawContent = await file.text()
+  // Find the raw line (0-based) a processed line came from, falling back to the nearest mapped line above it
+  const findRawLine = (processedLine: number): number | null => {
+    if (!sourceMap) return null
+    for (let line = Math.min(processedLine, sourceMap.length - 1); line >= 0; line--) {
+      if (sourceMap[line] !== -1) return sourceMap[line]
+    }
+    return null
+  }
+
+  // Select a line in the file preview and scroll it into view
+  const handleJumpToLine = (processedLine: number) => {
+    const rawLine = findRawLine(processedLine)
+    const textarea = previewRef.current
+    if (rawLine === null || !textarea || !rawFileContent) return
+
+    const rawLines = rawFileContent.split('\n')
+    const start = rawLines.slice(0, rawLine).reduce((offset, line) => offset + line.length + 1, 0)
+    textarea.focus()
+    textarea.setSelectionRange(start, start + rawLines[rawLine].length)
+    textarea.scrollTop = (rawLine / rawLines.length) * textarea.scrollHeight - textarea.clientHeight / 2
+  }
 
-      // Calculate line count
-      const lineCount = rawContent.split('\n').length
+  // Regroup the current rounds without re-importing the file, keeping omitted rounds
+  const regroupChapters = (options: Partial<ChapterGroupingOptions>) => {
+    if (!fileStats) return
 
-      // Store raw content in Zustand
-      setRawFileContent(rawContent)
+    const chapters = groupRoundsByStrategy(storedRounds, processedContent ?? '', { ...groupingOptions, ...options })
+    storeRegroupedChapters(chapters)
+    setFileStats({ ...fileStats, chapterCount: chapters.length })
+    toast.success(`Regrouped into ${chapters.length} chapters`)
+  }
 
-      // Transform content according to requirements
-      const processedContent = transformContent(rawContent)
+  const handleSplitOnSessionsChange = (checked: boolean) => {
+    setSplitOnSessions(checked)
+    regroupChapters({ splitOnSessions: checked })
+  }
 
-      // Store processed content in Zustand
-      setProcessedContent(processedContent)
+  const handleSplitOnSourceFilesChange = (checked: boolean) => {
+    setSplitOnSourceFiles(checked)
+    // Before merging the switch only sets the option
+    if (mergeSources.length === 0) {
+      regroupChapters({ splitOnSourceFiles: checked })
+    }
+  }
 
-      // Parse content into rounds
-      const rounds = parseContentIntoRounds(processedContent)
+  const handleChapterGroupingChange = (settings: Partial<ChapterGroupingSettings>) => {
+    setChapterGrouping(settings)
+    const updated = { ...chapterGrouping, ...settings }
+    regroupChapters({ strategy: updated.strategy, maxChapterTokens: getChapterSizeOptions(updated).maxChapterTokens })
+  }
 
-      // Store rounds in Zustand
-      setRounds(rounds)
+  // Picking another conversation or branch, or other markers, parses the same upload again and replaces
+  // the previous parse; re-syncing would match the new rounds against it
+  const handleChatGPTSelectionChange = async (selection: ImportOptions) => {
+    if (!rawFileContent || !fileStats) return
 
-      // Group rounds into chapters
-      const chapters = groupRoundsIntoChapters(rounds)
+    setChatGPTSelection(selection)
+    const result = await applyImport(rawFileContent, uploadedFileName, fileStats.fileSizeKB, 'chatgpt-json', selection)
+    if (!result) return
+    toast.success(`Loaded ${result.rounds.length} rounds, ${result.chapters.length} chapters`)
+  }
 
-      // Store chapters in Zustand
-      setChapters(chapters)
+  const handleMarkerProfileChange = async (profile: MarkerProfile) => {
+    // Only plain-text transcripts are split by speaker markers
+    if (!rawFileContent || !fileStats || importFormat !== 'chatgpt-text') return
 
-      // Set file stats
-      setFileStats({
-        fileSizeKB,
-        lineCount,
-        roundCount: rounds.length,
-        chapterCount: chapters.length
-      })
+    const result = await applyImport(rawFileContent, uploadedFileName, fileStats.fileSizeKB, 'chatgpt-text', {
+      markerProfile: profile
+    })
+    if (!result) return
+    toast.success(`Re-processed with "${profile.name}" markers: ${result.rounds.length} rounds, ${result.chapters.length} chapters`)
+  }
 
-      toast.success(`File processed successfully: ${rounds.length} rounds, ${chapters.length} chapters`)
-    } catch (error) {
-      console.error('Error processing file:', error)
-      toast.error('Error processing file. Please try again.')
-    } finally {
-      setIsProcessing(false)
+  const uploadFile = async (file: File) => {
+    if (!file) return
+
+    // Check if file has a supported transcript extension
+    const fileName = file.name.toLowerCase()
+    if (file.type !== 'text/plain' && !supportedFileExtensions.some(extension => fileName.endsWith(extension))) {
+      toast.error(`Please upload a transcript file (${supportedFileExtensions.join(', ')})`)
+      return
+    }
+
+    const fileSizeKB = Math.round(file.size / 1024)
+
+    // Read the file, detect its format, transform it and parse it into rounds off the main thread
+    const result = await applyImport(file, file.name, fileSizeKB, undefined, undefined, resyncMode)
+    if (!result) return
+
+    setUploadedFileName(file.name)
+    setImportFormat(result.format)
+    setChatGPTConversations(result.conversations)
+    setChatGPTSelection({})
+    announceImport(result)
+  }
+
+  // Import several files one after another, then let the user order them before merging
+  const uploadFiles = async (files: File[]) => {
+    const unsupported = files.filter(file =>
+      file.type !== 'text/plain' && !supportedFileExtensions.some(extension => file.name.toLowerCase().endsWith(extension))
+    )
+    if (unsupported.length > 0) {
+      toast.error(`Please upload transcript files only (${supportedFileExtensions.join(', ')})`)
+      return
+    }
+
+    const sources: MergeSource[] = []
+    for (const [index, file] of files.entries()) {
+      setIngestFileLabel(`${index + 1}/${files.length} ${file.name}`)
+      const result = await ingestSource(file, file.name)
+      if (!result) {
+        setIngestFileLabel('')
+        return
+      }
+      sources.push({ fileName: file.name, fileSizeKB: Math.round(file.size / 1024), result })
     }
+    setIngestFileLabel('')
+    setMergeSources(sources)
+  }
+
+  const handleMergeClick = () => {
+    const merged = mergeIngestResults(mergeSources, groupingOptions)
+    const fileSizeKB = mergeSources.reduce((total, source) => total + source.fileSizeKB, 0)
+    const stored = storeImport(merged, fileSizeKB, { fileCount: mergeSources.length, resync: resyncMode })
+
+    // Merged files can't be re-processed with other markers or ChatGPT selections
+    setUploadedFileName(mergeSources.map(source => source.fileName).join(', '))
+    setImportFormat(null)
+    setChatGPTConversations([])
+    setChatGPTSelection({})
+    setMergeSources([])
+    announceImport(stored)
   }
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
 
-    const file = e.dataTransfer.files[0]
-    uploadFile(file)
+    handleFiles(Array.from(e.dataTransfer.files))
   }
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      uploadFile(file)
+    handleFiles(Array.from(e.target.files ?? []))
+    // Allow picking the same files again
+    e.target.value = ''
+  }
+
+  const handleFiles = (files: File[]) => {
+    if (files.length > 1) {
+      uploadFiles(files)
+    } else if (files.length === 1) {
+      setMergeSources([])
+      uploadFile(files[0])
     }
   }
 
@@ -144,12 +415,20 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
   }
 
   const handleBackClick = () => {
+    ingestTaskRef.current?.cancel()
+
     // Clear content from store to return to upload state
     setRawFileContent('')
     setProcessedContent('')
+    setSourceMap(null)
     setRounds([])
     setChapters([])
     setFileStats(null)
+    setImportFormat(null)
+    setDiagnostics([])
+    setMergeSources([])
+    setChatGPTConversations([])
+    setChatGPTSelection({})
     toast.success('File deleted successfully')
   }
 
@@ -158,10 +437,13 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
       <CardHeader className="flex-shrink-0">
         <CardTitle>Upload Story</CardTitle>
         <CardDescription>
-          Upload your story file to begin processing. Supported format: UTF-8 text files (1-3MB).
+          Upload your story file to begin processing. Supported formats: ChatGPT text or conversations.json exports, Claude markdown exports and SillyTavern JSONL chat logs. Drop several files to merge them into one campaign.
         </CardDescription>
       </CardHeader>
       <CardContent className="flex-1 overflow-auto flex flex-col space-y-4">
+        {/* Speaker markers used to split plain-text transcripts */}
+        <MarkerProfileEditor onProfileChange={handleMarkerProfileChange} />
+
         {/* Always show the dropzone at the top */}
         <div
           className={`border-2 border-dashed rounded-lg p-6 text-center ${isDragging ? 'border-primary bg-secondary/50' : 'border-muted-foreground/25'
@@ -171,7 +453,7 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
           onDrop={handleDrop}
         >
           <UploadIcon className="mx-auto h-8 w-8 text-muted-foreground" />
-          <h3 className="mt-2 text-lg font-semibold">Drag & Drop File</h3>
+          <h3 className="mt-2 text-lg font-semibold">Drag & Drop Files</h3>
           <p className="mt-1 text-sm text-muted-foreground">
             or click the button below to browse
           </p>
@@ -182,32 +464,124 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
           >
             {isProcessing ? 'Processing...' : 'Select File'}
           </Button>
+          {/* Import progress, reported by the ingest worker */}
+          {ingestProgress && (
+            <div className="mt-4 space-y-2 text-left">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>{ingestFileLabel && `${ingestFileLabel}: `}{ingestPhaseLabels[ingestProgress.phase]}...</span>
+                {ingestProgress.phase === 'reading' && ingestProgress.total > 0 && (
+                  <span>
+                    {(ingestProgress.loaded / (1024 * 1024)).toFixed(1)} / {(ingestProgress.total / (1024 * 1024)).toFixed(1)} MB
+                  </span>
+                )}
+              </div>
+              <Progress
+                value={ingestProgress.phase === 'reading' && ingestProgress.total > 0
+                  ? (ingestProgress.loaded / ingestProgress.total) * 100
+                  : 100}
+              />
+              <Button variant="outline" size="sm" onClick={handleCancelClick}>
+                Cancel
+              </Button>
+            </div>
+          )}
           <input
             type="file"
             ref={fileInputRef}
             className="hidden"
-            accept=".txt,text/plain"
+            accept={[...supportedFileExtensions, 'text/plain'].join(',')}
+            multiple
             onChange={handleFileInputChange}
           />
         </div>
 
+        {/* Order the files of a multi-file upload before merging them */}
+        {mergeSources.length > 0 && (
+          <TranscriptFileList
+            sources={mergeSources}
+            onSourcesChange={setMergeSources}
+            splitOnSourceFiles={splitOnSourceFiles}
+            onSplitOnSourceFilesChange={handleSplitOnSourceFilesChange}
+            onMerge={handleMergeClick}
+            onCancel={() => setMergeSources([])}
+          />
+        )}
+
+        {/* Re-sync options when there are already rounds to keep */}
+        {storedRounds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="resync-mode"
+                checked={resyncMode}
+                onCheckedChange={setResyncMode}
+              />
+              <Label htmlFor="resync-mode">Append to this project: keep summaries and omits of matching rounds, add new rounds</Label>
+            </div>
+            {resyncMode && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="append-to-trailing-chapter"
+                  checked={appendToTrailingChapter}
+                  onCheckedChange={setAppendToTrailingChapter}
+                />
+                <Label htmlFor="append-to-trailing-chapter">Add new rounds to the last chapter</Label>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Show content preview below if rawFileContent exists */}
         {rawFileContent && (
           <div className="flex flex-col flex-1">
             <h3 className="text-lg font-semibold mb-2">File Content Preview</h3>
             <div className="flex-1 relative min-h-[200px]">
               <Textarea
+                ref={previewRef}
                 className="font-mono text-sm w-full absolute inset-0 resize-none overflow-auto"
                 value={rawFileContent || ''}
                 readOnly
               />
             </div>
 
+            {/* Conversation and branch selection for ChatGPT exports */}
+            {chatGPTConversations.length > 0 && (
+              <div className="mt-4">
+                <ChatGPTExportPicker
+                  conversations={chatGPTConversations}
+                  selection={chatGPTSelection}
+                  onSelectionChange={handleChatGPTSelectionChange}
+                />
+              </div>
+            )}
+
+            {/* Problems found while transforming and parsing the file */}
+            {diagnostics.length > 0 && (
+              <div className="mt-4">
+                <TransformDiagnosticsList
+                  diagnostics={diagnostics}
+                  getRawLine={(line) => {
+                    const rawLine = findRawLine(line)
+                    return rawLine === null ? null : rawLine + 1
+                  }}
+                  onJumpToLine={handleJumpToLine}
+                />
+              </div>
+            )}
+
             {/* File Stats Display */}
             {fileStats && (
               <div className="mt-4 bg-secondary/30 p-3 rounded-md">
                 <h4 className="text-sm font-medium mb-2">File Statistics</h4>
                 <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline" className="bg-background">
+                    Format: {fileStats.formatLabel}
+                  </Badge>
+                  {importFormat === 'chatgpt-text' && selectedMarkerProfile && (
+                    <Badge variant="outline" className="bg-background">
+                      Markers: {selectedMarkerProfile.name}
+                    </Badge>
+                  )}
                   <Badge variant="outline" className="bg-background">
                     Size: {fileStats.fileSizeKB} KB
                   </Badge>
@@ -220,7 +594,40 @@ export const UploadArea: FC<UploadAreaProps> = ({ onNext }) => {
                   <Badge variant="outline" className="bg-background">
                     Chapters: {fileStats.chapterCount}
                   </Badge>
+                  <Badge variant="outline" className="bg-background">
+                    Sessions: {fileStats.sessionCount}
+                  </Badge>
+                  {fileStats.fileCount > 1 && (
+                    <Badge variant="outline" className="bg-background">
+                      Files: {fileStats.fileCount}
+                    </Badge>
+                  )}
                 </div>
+                {fileStats.sessionCount > 0 && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <Switch
+                      id="split-on-sessions"
+                      checked={splitOnSessions}
+                      onCheckedChange={handleSplitOnSessionsChange}
+                    />
+                    <Label htmlFor="split-on-sessions">Start a new chapter at each session</Label>
+                  </div>
+                )}
+                {fileStats.fileCount > 1 && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <Switch
+                      id="split-on-merged-files"
+                      checked={splitOnSourceFiles}
+                      onCheckedChange={handleSplitOnSourceFilesChange}
+                    />
+                    <Label htmlFor="split-on-merged-files">Start a new chapter at each file</Label>
+                  </div>
+                )}
+                <ChapterGroupingSettingsPanel
+                  className="mt-3"
+                  settings={chapterGrouping}
+                  onSettingsChange={handleChapterGroupingChange}
+                />
               </div>
             )}
           </div>
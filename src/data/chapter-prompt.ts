@@ -0,0 +1,22 @@
+export const chapterPrompt = `<purpose>
+    You are an expert at outlining long-form interactive fiction.
+    Your goal is to turn one chapter of a role-playing campaign into a detailed narrative outline that a reader can follow without the transcript.
+</purpose>
+
+<instructions>
+    <instruction>The chapter-excerpt is [[excerpt-kind]], one entry per round, in the order the rounds were played.</instruction>
+    <instruction>Write a numbered outline of the chapter's events in the order they happen.</instruction>
+    <instruction>Give every major scene or turn of events its own numbered point, with indented sub-points for the important actions, discoveries and decisions within it.</instruction>
+    <instruction>Name the characters, places and items involved; assume the reader knows them.</instruction>
+    <instruction>Keep cause and effect clear: note why characters act and what their actions lead to.</instruction>
+    <instruction>Do not invent events that are not in the excerpt.</instruction>
+    <instruction>Use a direct and informational tone.</instruction>
+    <instruction>Do not include codeblocks or a title.</instruction>
+</instructions>
+
+<chapter-excerpt>
+    [[chapter-excerpt]]
+</chapter-excerpt>
+
+Your outline:
+`;
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { builtInMarkerProfiles, getSavedMarkerProfiles, mergeWithBuiltInProfiles } from './marker-profiles';
+import type { MarkerProfile } from '@/utils/content-transformation';
+
+const custom: MarkerProfile = {
+    id: 'profile-1',
+    name: 'Mine',
+    userMarkers: ['^me:'],
+    dmMarkers: ['^gm:'],
+    dropLinePatterns: [],
+    whitespace: 'preserve',
+    builtIn: false
+};
+
+describe('marker profile storage', () => {
+    it('should only save the user\'s own and edited profiles', () => {
+        const edited = { ...builtInMarkerProfiles[1], dropLinePatterns: ['^ooc:'] };
+        const profiles = [builtInMarkerProfiles[0], edited, builtInMarkerProfiles[2], custom];
+
+        expect(getSavedMarkerProfiles(profiles)).toEqual([edited, custom]);
+    });
+
+    it('should load the current built-ins with saved edits and the user\'s own profiles after them', () => {
+        const edited = { ...builtInMarkerProfiles[0], name: 'ChatGPT (mine)' };
+        const profiles = mergeWithBuiltInProfiles([custom, edited]);
+
+        expect(profiles).toEqual([edited, ...builtInMarkerProfiles.slice(1), custom]);
+    });
+});
@@ -0,0 +1,64 @@
+import { MarkerProfile, defaultMarkerProfile } from '@/utils/content-transformation';
+
+/**
+ * Built-in speaker-marker profiles for plain-text transcripts.
+ * Users can edit these or add their own from the upload area.
+ */
+export const builtInMarkerProfiles: MarkerProfile[] = [
+  defaultMarkerProfile,
+  {
+    id: 'user-assistant',
+    name: 'User / Assistant',
+    userMarkers: ['^\\s*user:'],
+    dmMarkers: ['^\\s*assistant:'],
+    dropLinePatterns: [],
+    sessionDatePattern: '^\\s*\\d+\\/\\d+\\s*$',
+    whitespace: 'collapse-newlines',
+    builtIn: true
+  },
+  {
+    id: 'player-gm',
+    name: 'Player / GM',
+    userMarkers: ['^\\s*player:'],
+    dmMarkers: ['^\\s*(?:gm|dm|narrator):'],
+    dropLinePatterns: [],
+    sessionDatePattern: '^\\s*\\d+\\/\\d+\\s*$',
+    whitespace: 'collapse-newlines',
+    builtIn: true
+  },
+];
+
+let lastProfiles: MarkerProfile[] = [];
+let lastSaved: MarkerProfile[] = [];
+
+// Compares two profiles field by field, whatever order their keys are in
+const isSameProfile = (a: MarkerProfile, b: MarkerProfile) =>
+  JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+
+/**
+ * The profiles worth saving: those the user created, and built-in ones they
+ * edited. Unedited built-ins are left out so later changes to them reach
+ * existing users.
+ */
+export function getSavedMarkerProfiles(profiles: MarkerProfile[]): MarkerProfile[] {
+  // Saves compare settings by reference, so the same profiles give back the same array
+  if (profiles !== lastProfiles) {
+    lastProfiles = profiles;
+    lastSaved = profiles.filter(profile => {
+      const builtIn = builtInMarkerProfiles.find(p => p.id === profile.id);
+      return !builtIn || !isSameProfile(profile, builtIn);
+    });
+  }
+  return lastSaved;
+}
+
+/**
+ * The built-in profiles, with any saved edits, followed by the user's own.
+ */
+export function mergeWithBuiltInProfiles(saved: MarkerProfile[]): MarkerProfile[] {
+  const savedById = new Map(saved.map(profile => [profile.id, profile]));
+  return [
+    ...builtInMarkerProfiles.map(profile => savedById.get(profile.id) ?? profile),
+    ...saved.filter(profile => !builtInMarkerProfiles.some(p => p.id === profile.id))
+  ];
+}
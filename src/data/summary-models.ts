@@ -0,0 +1,15 @@
+export interface SummaryModel {
+  id: string;
+  contextTokens: number; // context window size
+}
+
+/**
+ * Models that can summarize chapters, with their context window sizes in tokens.
+ * Token-budget chapter grouping sizes chapters to fit the selected model.
+ */
+export const summaryModels: SummaryModel[] = [
+  { id: 'gpt-4o', contextTokens: 128000 },
+  { id: 'gpt-4o-mini', contextTokens: 128000 },
+  { id: 'o3-mini', contextTokens: 200000 },
+  { id: 'gpt-4.5-preview', contextTokens: 128000 },
+];
@@ -0,0 +1,157 @@
+/**
+ * IndexedDB database for the persisted projects.
+ * Each entity lives in its own table so saving a summary only rewrites the
+ * round it belongs to, instead of serialising the whole project as one blob.
+ * Rows that belong to a project are keyed by the project id first.
+ */
+import Dexie, { type EntityTable, type Table } from 'dexie';
+import type { Chapter, Project, Round } from '@/store';
+
+export const DATABASE_NAME = 'storySyncDB';
+
+// The project that data saved before projects existed is moved into
+export const DEFAULT_PROJECT_ID = 'default';
+export const DEFAULT_PROJECT_NAME = 'My campaign';
+
+// Settings shared by all projects, such as the marker profile library
+export interface SettingRecord {
+  key: string;
+  value: unknown;
+}
+
+export type ProjectRecord = Project;
+
+// Raw and processed transcript text, and the line map between them
+export interface ProjectContentRecord {
+  projectId: string;
+  key: 'rawFileContent' | 'processedContent' | 'sourceMap';
+  value: unknown;
+}
+
+// Small slices of a project's state, such as its settings, queues and undo history
+export interface ProjectSettingRecord {
+  projectId: string;
+  key: string;
+  value: unknown;
+}
+
+export interface ProjectRoundRecord {
+  projectId: string;
+  roundIndex: number;
+  round: Round;
+}
+
+// Chapters have no id of their own, so they are stored by position
+export interface ProjectChapterRecord {
+  projectId: string;
+  index: number;
+  chapter: Chapter;
+}
+
+// Stored state the app couldn't load, kept so it can be downloaded instead of being overwritten
+export interface QuarantineRecord {
+  id?: number;
+  createdAt: string;
+  version: number; // schema version the data was saved with
+  reason: string;
+  data: unknown;
+}
+
+export const db = new Dexie(DATABASE_NAME) as Dexie & {
+  settings: EntityTable<SettingRecord, 'key'>;
+  projects: EntityTable<ProjectRecord, 'id'>;
+  projectContent: Table<ProjectContentRecord, [string, string]>;
+  projectSettings: Table<ProjectSettingRecord, [string, string]>;
+  projectRounds: Table<ProjectRoundRecord, [string, number]>;
+  projectChapters: Table<ProjectChapterRecord, [string, number]>;
+  quarantine: EntityTable<QuarantineRecord, 'id'>;
+};
+
+db.version(1).stores({
+  content: 'key',
+  settings: 'key',
+  rounds: 'roundIndex',
+  chapters: 'index'
+});
+
+db.version(2).stores({
+  projects: 'id',
+  projectContent: '[projectId+key], projectId',
+  projectSettings: '[projectId+key], projectId',
+  projectRounds: '[projectId+roundIndex], projectId',
+  projectChapters: '[projectId+index], projectId'
+}).upgrade(async tx => {
+  // Version 1 held a single project, which becomes the default project
+  const [content, settings, rounds, chapters] = await Promise.all([
+    tx.table('content').toArray(),
+    tx.table('settings').toArray(),
+    tx.table('rounds').toArray(),
+    tx.table('chapters').toArray()
+  ]);
+  if (content.length === 0 && settings.length === 0) return;
+
+  const projectId = DEFAULT_PROJECT_ID;
+  const globalKeys = ['markerProfiles', 'version'];
+  const projectSettings = settings.filter(({ key }) => !globalKeys.includes(key));
+
+  await Promise.all([
+    tx.table('projects').put({ id: projectId, name: DEFAULT_PROJECT_NAME, createdAt: new Date().toISOString() }),
+    tx.table('projectContent').bulkPut(content.map(record => ({ projectId, ...record }))),
+    tx.table('projectSettings').bulkPut(projectSettings.map(record => ({ projectId, ...record }))),
+    tx.table('projectRounds').bulkPut(rounds.map(round => ({ projectId, roundIndex: round.roundIndex, round }))),
+    tx.table('projectChapters').bulkPut(chapters.map(record => ({ projectId, ...record }))),
+    tx.table('settings').bulkDelete(projectSettings.map(({ key }) => key)),
+    tx.table('settings').put({ key: 'activeProjectId', value: projectId })
+  ]);
+});
+
+// Primary keys can't change in place, so the version 1 tables are dropped once copied
+db.version(3).stores({
+  content: null,
+  rounds: null,
+  chapters: null
+});
+
+db.version(4).stores({
+  quarantine: '++id'
+});
+
+db.on('blocked', () => {
+  console.warn('Database upgrade blocked. Please close other tabs of this application');
+});
+
+export interface StorageUsage {
+  usage: number; // bytes used by this origin
+  quota: number; // bytes the browser allows this origin, 0 when unknown
+  projects: number;
+  rounds: number;
+  chapters: number;
+}
+
+/**
+ * How much browser storage the app uses, with the number of stored projects, rounds and chapters.
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const [estimate, projects, rounds, chapters] = await Promise.all([
+    navigator.storage?.estimate?.() ?? Promise.resolve<StorageEstimate>({}),
+    db.projects.count(),
+    db.projectRounds.count(),
+    db.projectChapters.count()
+  ]);
+
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, projects, rounds, chapters };
+}
+
+/**
+ * Formats a byte count as B, KB, MB or GB.
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
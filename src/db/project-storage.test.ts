@@ -0,0 +1,138 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi } from 'vitest';
+import type { StorageValue } from 'zustand/middleware';
+import type { Chapter, PersistedState } from '@/store';
+import { db } from './db';
+import { getPersistChanges } from './project-storage';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(3);
+
+const saved: StorageValue<PersistedState> = {
+    version: 0,
+    state: {
+        projects: [{ id: 'campaign', name: 'Campaign', createdAt: '2025-01-01T00:00:00.000Z' }],
+        activeProjectId: 'campaign',
+        rawFileContent: 'raw',
+        processedContent: 'processed',
+        sourceMap: null,
+        markerProfiles: [],
+        selectedMarkerProfileId: 'default',
+        rounds,
+        chapters: [{ roundsRange: [0, 1], omit: [] }, { roundsRange: [2, 2], omit: [] }],
+        chapterGrouping: { mode: 'lines', strategy: 'size', modelId: 'test', contextTokens: 1000, reservedOutputTokens: 200 },
+        chapterSnapshots: [],
+        history: { past: [], future: [] },
+        roundSummaryQueue: [],
+        chapterSummaryQueue: [],
+        summaryQueueSettings: { maxConcurrentChapters: 3, maxConcurrentRounds: 3, maxRetries: 3 }
+    }
+};
+
+describe('getPersistChanges', () => {
+    it('should write everything when nothing was saved before', () => {
+        const changes = getPersistChanges(null, saved);
+
+        expect(changes.replaceProject).toBe(true);
+        expect(changes.projects).toEqual(saved.state.projects);
+        expect(changes.content.map(record => record.key)).toEqual(['rawFileContent', 'processedContent', 'sourceMap']);
+        expect(changes.projectSettings.map(record => record.key)).toContain('chapterGrouping');
+        expect(changes.projectSettings).toContainEqual({ projectId: 'campaign', key: 'version', value: 0 });
+        expect(changes.rounds.map(record => record.projectId)).toEqual(['campaign', 'campaign', 'campaign']);
+        expect(changes.chapters.map(record => record.index)).toEqual([0, 1]);
+    });
+
+    it('should only write the round whose summary changed', () => {
+        const next: StorageValue<PersistedState> = {
+            ...saved,
+            state: {
+                ...saved.state,
+                rounds: saved.state.rounds.map(round => round.roundIndex === 1 ? { ...round, summary: 'A fight' } : round)
+            }
+        };
+
+        const changes = getPersistChanges(saved, next);
+
+        expect(changes.replaceProject).toBe(false);
+        expect(changes.content).toEqual([]);
+        expect(changes.settings).toEqual([]);
+        expect(changes.projectSettings).toEqual([]);
+        expect(changes.rounds.map(record => record.roundIndex)).toEqual([1]);
+        expect(changes.chapters).toEqual([]);
+    });
+
+    it('should delete rounds and chapters that are gone', () => {
+        const next: StorageValue<PersistedState> = {
+            ...saved,
+            state: {
+                ...saved.state,
+                rounds: rounds.slice(0, 2),
+                chapters: [{ roundsRange: [0, 1], omit: [] }]
+            }
+        };
+
+        const changes = getPersistChanges(saved, next);
+
+        expect(changes.removedRounds).toEqual([2]);
+        expect(changes.chapters.map(record => record.index)).toEqual([0]);
+        expect(changes.removedChapters).toEqual([1]);
+    });
+
+    it('should write the whole project after switching to another project', () => {
+        const project = { id: 'one-shot', name: 'One-shot', createdAt: '2025-02-01T00:00:00.000Z' };
+        const next: StorageValue<PersistedState> = {
+            ...saved,
+            state: { ...saved.state, projects: [...saved.state.projects, project], activeProjectId: project.id }
+        };
+
+        const changes = getPersistChanges(saved, next);
+
+        expect(changes.replaceProject).toBe(true);
+        expect(changes.projects).toEqual([project]);
+        expect(changes.settings).toEqual([{ key: 'activeProjectId', value: 'one-shot' }]);
+        expect(changes.rounds.map(record => record.projectId)).toEqual(['one-shot', 'one-shot', 'one-shot']);
+    });
+
+    it('should report deleted projects', () => {
+        const project = { id: 'one-shot', name: 'One-shot', createdAt: '2025-02-01T00:00:00.000Z' };
+        const previous = { ...saved, state: { ...saved.state, projects: [...saved.state.projects, project] } };
+
+        const changes = getPersistChanges(previous, saved);
+
+        expect(changes.removedProjects).toEqual(['one-shot']);
+        expect(changes.replaceProject).toBe(false);
+    });
+});
+
+describe('project storage', () => {
+    it('should leave the other stored projects alone when the active one fails to load', async () => {
+        const [campaign, other] = [
+            { id: 'campaign', name: 'Campaign', createdAt: '2025-01-01T00:00:00.000Z' },
+            { id: 'one-shot', name: 'One-shot', createdAt: '2025-02-01T00:00:00.000Z' }
+        ];
+        await db.projects.bulkPut([campaign, other]);
+        await db.settings.put({ key: 'activeProjectId', value: campaign.id });
+        await db.projectSettings.put({ projectId: campaign.id, key: 'version', value: 4 });
+        await db.projectChapters.put({ projectId: campaign.id, index: 0, chapter: { roundsRange: 'all of them' } as unknown as Chapter });
+        await db.projectContent.put({ projectId: other.id, key: 'rawFileContent', value: 'The one-shot' });
+
+        // The store loads the stored state when it is created
+        const { useStore } = await import('@/store');
+        await vi.waitFor(() => expect(useStore.getState().storageIssue).not.toBeNull());
+
+        useStore.getState().setRawFileContent('Started over');
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(await db.projects.toArray()).toEqual([campaign, other]);
+        expect(await db.projectChapters.get([campaign.id, 0])).toBeDefined();
+        expect(await db.quarantine.count()).toBe(1);
+
+        // Continuing saves the store as a new project next to the stored ones
+        useStore.getState().dismissStorageIssue();
+        const { activeProjectId } = useStore.getState();
+        await vi.waitFor(async () => expect(await db.projects.count()).toBe(3));
+
+        expect(await db.projectContent.get([other.id, 'rawFileContent'])).toMatchObject({ value: 'The one-shot' });
+        expect(await db.projectContent.get([activeProjectId, 'rawFileContent'])).toMatchObject({ value: 'Started over' });
+    });
+});
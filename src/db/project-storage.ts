@@ -0,0 +1,345 @@
+/**
+ * Zustand persist storage backed by the IndexedDB tables in `db.ts`.
+ * Only the active project is held in the store. Every save is compared with
+ * the previous one by reference, so only the content, settings, rounds and
+ * chapters that changed are written, under the active project's id.
+ */
+import type { Table } from 'dexie';
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { PersistedState, ProjectState } from '@/store';
+import {
+  db,
+  DEFAULT_PROJECT_ID,
+  DEFAULT_PROJECT_NAME,
+  ProjectChapterRecord,
+  ProjectContentRecord,
+  ProjectRecord,
+  ProjectRoundRecord,
+  ProjectSettingRecord,
+  SettingRecord
+} from './db';
+
+const CONTENT_KEYS = ['rawFileContent', 'processedContent', 'sourceMap'] as const;
+const PROJECT_SETTING_KEYS = [
+  'selectedMarkerProfileId',
+  'chapterGrouping',
+  'chapterSnapshots',
+  'history',
+  'roundSummaryQueue',
+  'chapterSummaryQueue',
+  'summaryQueueSettings'
+] as const;
+const GLOBAL_SETTING_KEYS = ['markerProfiles', 'activeProjectId'] as const;
+
+// Project setting holding the schema version the project was saved with
+const VERSION_KEY = 'version';
+
+const PROJECT_TABLES = [db.projectContent, db.projectSettings, db.projectRounds, db.projectChapters];
+
+export interface PersistChanges {
+  projectId: string;
+  replaceProject: boolean; // clear the project's rows before writing, when it wasn't the one saved last
+  settings: SettingRecord[];
+  projects: ProjectRecord[];
+  removedProjects: string[];
+  content: ProjectContentRecord[];
+  projectSettings: ProjectSettingRecord[];
+  rounds: ProjectRoundRecord[];
+  removedRounds: number[];
+  chapters: ProjectChapterRecord[];
+  removedChapters: number[];
+}
+
+/**
+ * Records that must be written, and keys that must be deleted, to go from the
+ * previously saved state to the next one. Without a previous state, or when the
+ * active project changed, the whole project is written.
+ */
+export function getPersistChanges(
+  previous: StorageValue<PersistedState> | null,
+  next: StorageValue<PersistedState>
+): PersistChanges {
+  const { state } = next;
+  const projectId = state.activeProjectId;
+  const global = previous?.state;
+  const before = global?.activeProjectId === projectId ? global : undefined;
+
+  const settings: SettingRecord[] = GLOBAL_SETTING_KEYS
+    .filter(key => !global || global[key] !== state[key])
+    .map(key => ({ key, value: state[key] }));
+
+  const projects = state.projects.filter(project => !global?.projects.includes(project));
+  const removedProjects = (global?.projects ?? [])
+    .filter(project => !state.projects.some(({ id }) => id === project.id))
+    .map(({ id }) => id);
+
+  const content = CONTENT_KEYS
+    .filter(key => !before || before[key] !== state[key])
+    .map(key => ({ projectId, key, value: state[key] }));
+  const projectSettings: ProjectSettingRecord[] = PROJECT_SETTING_KEYS
+    .filter(key => !before || before[key] !== state[key])
+    .map(key => ({ projectId, key, value: state[key] }));
+  if (!before || previous?.version !== next.version) {
+    projectSettings.push({ projectId, key: VERSION_KEY, value: next.version });
+  }
+
+  // Rounds are matched by index, chapters by position
+  const previousRounds = new Map((before?.rounds ?? []).map(round => [round.roundIndex, round]));
+  const nextRoundIndices = new Set(state.rounds.map(round => round.roundIndex));
+  const rounds = before?.rounds === state.rounds
+    ? []
+    : state.rounds
+      .filter(round => previousRounds.get(round.roundIndex) !== round)
+      .map(round => ({ projectId, roundIndex: round.roundIndex, round }));
+  const removedRounds = [...previousRounds.keys()].filter(roundIndex => !nextRoundIndices.has(roundIndex));
+
+  const previousChapters = before?.chapters ?? [];
+  const chapters = state.chapters
+    .map((chapter, index) => ({ projectId, index, chapter }))
+    .filter(({ index, chapter }) => previousChapters[index] !== chapter);
+  const removedChapters = previousChapters.slice(state.chapters.length).map((_, offset) => state.chapters.length + offset);
+
+  return {
+    projectId,
+    replaceProject: !before,
+    settings,
+    projects,
+    removedProjects,
+    content,
+    projectSettings,
+    rounds,
+    removedRounds,
+    chapters,
+    removedChapters
+  };
+}
+
+export interface StoredProject {
+  state: Partial<ProjectState>; // keys the project never saved are missing
+  version: number; // schema version the project was saved with
+}
+
+/**
+ * Reads the stored part of one project's state.
+ */
+async function readProject(projectId: string): Promise<StoredProject> {
+  return db.transaction('r', PROJECT_TABLES, async () => {
+    const [content, settings, rounds, chapters] = await Promise.all([
+      db.projectContent.where('projectId').equals(projectId).toArray(),
+      db.projectSettings.where('projectId').equals(projectId).toArray(),
+      db.projectRounds.where('projectId').equals(projectId).sortBy('roundIndex'),
+      db.projectChapters.where('projectId').equals(projectId).sortBy('index')
+    ]);
+
+    const { [VERSION_KEY]: version, ...values } = Object.fromEntries(
+      [...content, ...settings].map(({ key, value }) => [key, value])
+    );
+
+    return {
+      state: {
+        ...values,
+        rounds: rounds.map(({ round }) => round),
+        chapters: chapters.map(({ chapter }) => chapter)
+      },
+      // Projects saved before versioning count as version 0
+      version: typeof version === 'number' ? version : 0
+    };
+  });
+}
+
+/**
+ * Reads the project list, the shared settings and the active project back from
+ * the tables, or null when nothing is stored.
+ */
+async function readState(): Promise<StorageValue<PersistedState> | null> {
+  const [settings, projects] = await Promise.all([db.settings.toArray(), db.projects.toArray()]);
+  if (projects.length === 0) return null;
+
+  const { activeProjectId, markerProfiles } = Object.fromEntries(settings.map(({ key, value }) => [key, value]));
+  // Fall back to the first project if the active one has gone missing
+  const projectId = projects.some(project => project.id === activeProjectId) ? activeProjectId as string : projects[0].id;
+  const project = await readProject(projectId);
+
+  return {
+    state: {
+      ...(markerProfiles ? { markerProfiles } : {}),
+      projects,
+      activeProjectId: projectId,
+      ...project.state
+    } as PersistedState,
+    version: project.version
+  };
+}
+
+async function writeChanges(changes: PersistChanges) {
+  const { projectId } = changes;
+
+  await db.transaction('rw', [db.settings, db.projects, ...PROJECT_TABLES], async () => {
+    const clearedProjects = changes.replaceProject ? [...changes.removedProjects, projectId] : changes.removedProjects;
+    await Promise.all(PROJECT_TABLES.flatMap(table =>
+      clearedProjects.map(id => table.where('projectId').equals(id).delete())
+    ));
+
+    await Promise.all([
+      db.settings.bulkPut(changes.settings),
+      db.projects.bulkDelete(changes.removedProjects),
+      db.projects.bulkPut(changes.projects),
+      db.projectContent.bulkPut(changes.content),
+      db.projectSettings.bulkPut(changes.projectSettings),
+      db.projectRounds.bulkPut(changes.rounds),
+      db.projectRounds.bulkDelete(changes.removedRounds.map(roundIndex => [projectId, roundIndex] as [string, number])),
+      db.projectChapters.bulkPut(changes.chapters),
+      db.projectChapters.bulkDelete(changes.removedChapters.map(index => [projectId, index] as [string, number]))
+    ]);
+  });
+}
+
+/**
+ * Moves a project saved by the localStorage version of the app into IndexedDB,
+ * as the default project, removing the localStorage copy once it has been written.
+ */
+async function migrateFromLocalStorage(name: string): Promise<StorageValue<PersistedState> | null> {
+  if (typeof localStorage === 'undefined') return null;
+
+  const stored = localStorage.getItem(name);
+  if (!stored) return null;
+
+  let value: StorageValue<PersistedState>;
+  try {
+    const parsed = JSON.parse(stored);
+    value = {
+      ...parsed,
+      state: {
+        ...parsed.state,
+        projects: [{ id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_NAME, createdAt: new Date().toISOString() }],
+        activeProjectId: DEFAULT_PROJECT_ID
+      }
+    };
+  } catch (error) {
+    console.error('Could not read the project saved in localStorage:', error);
+    return null;
+  }
+
+  await writeChanges(getPersistChanges(null, value));
+  localStorage.removeItem(name);
+  return value;
+}
+
+// The state as last written, to compare the next save against; null forces a full rewrite
+let lastWritten: StorageValue<PersistedState> | null = null;
+// A project read by `loadProject`, which a coming save switches to
+let lastLoaded: (StoredProject & { projectId: string }) | null = null;
+// Saves before the stored state has loaded into the store, or after it failed to load,
+// would overwrite every stored project with the initial state
+let canSave = false;
+// Saves run one after another so a slow write can't land after a newer one
+let pendingWrite = Promise.resolve();
+// Set while changes another tab already saved are applied to the store
+let applyingSaved = false;
+
+/**
+ * Applies changes to the store that another tab has already saved, so the
+ * save they trigger here only records them as written.
+ */
+export function applyWithoutSaving(apply: () => void) {
+  applyingSaved = true;
+  try {
+    apply();
+  } finally {
+    applyingSaved = false;
+  }
+}
+
+/**
+ * Lets saves through once the stored state has loaded into the store. After a
+ * failed load, `fresh` compares the next save against nothing stored, so it adds
+ * the store's project without removing or rewriting the projects already there.
+ */
+export function allowSaves({ fresh = false } = {}) {
+  if (fresh) lastWritten = null;
+  canSave = true;
+}
+
+/**
+ * Reads a stored project so the store can switch to it. The save that switches
+ * compares against what was read, so switching doesn't rewrite the project.
+ */
+export async function loadProject(projectId: string): Promise<StoredProject> {
+  const project = await readProject(projectId);
+  lastLoaded = { ...project, projectId };
+  return project;
+}
+
+const copyRows = async <T extends { projectId: string }, TKey>(table: Table<T, TKey>, fromProjectId: string, toProjectId: string) => {
+  const records = await table.where('projectId').equals(fromProjectId).toArray();
+  await table.bulkPut(records.map(record => ({ ...record, projectId: toProjectId })));
+};
+
+/**
+ * Copies every stored row of a project to a new project id, once pending saves have landed.
+ */
+export async function copyProject(fromProjectId: string, toProjectId: string) {
+  await pendingWrite;
+
+  await db.transaction('rw', PROJECT_TABLES, async () => {
+    await Promise.all([
+      copyRows(db.projectContent, fromProjectId, toProjectId),
+      copyRows(db.projectSettings, fromProjectId, toProjectId),
+      copyRows(db.projectRounds, fromProjectId, toProjectId),
+      copyRows(db.projectChapters, fromProjectId, toProjectId)
+    ]);
+  });
+}
+
+/**
+ * Creates the IndexedDB persist storage, or undefined when the browser has no IndexedDB.
+ */
+export function createProjectStorage(): PersistStorage<PersistedState> | undefined {
+  if (typeof indexedDB === 'undefined') return undefined;
+
+  return {
+    getItem: async (name) => {
+      const value = await readState() ?? await migrateFromLocalStorage(name);
+      lastWritten = value;
+      return value;
+    },
+
+    setItem: (_name, value) => {
+      if (!canSave) return;
+      if (applyingSaved) {
+        lastWritten = value;
+        return;
+      }
+
+      // A project that was just loaded is already stored as it was read
+      let previous = lastWritten;
+      if (previous && lastLoaded?.projectId === value.state.activeProjectId && previous.state.activeProjectId !== lastLoaded.projectId) {
+        previous = {
+          version: lastLoaded.version,
+          state: { ...previous.state, ...lastLoaded.state, activeProjectId: lastLoaded.projectId }
+        };
+        lastLoaded = null;
+      }
+      const changes = getPersistChanges(previous, value);
+      lastWritten = value;
+
+      pendingWrite = pendingWrite
+        .then(() => writeChanges(changes))
+        .catch(error => {
+          console.error('Error saving project:', error);
+          lastWritten = null;
+        });
+      return pendingWrite;
+    },
+
+    removeItem: () => {
+      lastWritten = null;
+      pendingWrite = pendingWrite.then(() =>
+        db.transaction('rw', [db.settings, db.projects, ...PROJECT_TABLES], async () => {
+          await Promise.all([db.settings, db.projects, ...PROJECT_TABLES].map(table => table.clear()));
+        })
+      );
+      return pendingWrite;
+    }
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Quarantine for stored state the app can't load.
+ * The data is copied aside before the app starts with a fresh project, and can
+ * be downloaded as a JSON backup.
+ */
+import { db, QuarantineRecord } from './db';
+
+/**
+ * Sets stored data aside, returning the id of the quarantine record.
+ */
+export async function quarantineData(data: unknown, version: number, reason: string): Promise<number> {
+  const id = await db.quarantine.add({ createdAt: new Date().toISOString(), version, reason, data });
+  return id as number;
+}
+
+/**
+ * Reads every table but the quarantine itself, so all stored projects can be set aside together.
+ */
+export async function readDatabase(): Promise<Record<string, unknown[]>> {
+  const tables = db.tables.filter(table => table.name !== db.quarantine.name);
+  const rows = await Promise.all(tables.map(table => table.toArray()));
+  return Object.fromEntries(tables.map((table, index) => [table.name, rows[index]]));
+}
+
+/**
+ * Downloads a quarantine record as a JSON file.
+ */
+export async function downloadQuarantinedData(id: number) {
+  const record: QuarantineRecord | undefined = await db.quarantine.get(id);
+  if (!record) throw new Error(`Backup ${id} not found`);
+
+  const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `story-sync-backup-${record.createdAt.slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react"
+import { getStorageUsage, StorageUsage } from "@/db/db"
+import { useStore } from "@/store"
+
+// How long the store must stay quiet before usage is measured again
+const REFRESH_DELAY_MS = 2000
+
+/**
+ * Browser storage used by the app, measured on mount and again shortly after
+ * the project changes.
+ */
+export function useStorageUsage() {
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let timeout: ReturnType<typeof setTimeout> | undefined
+
+    const refresh = () => {
+      getStorageUsage()
+        .then(result => { if (!cancelled) setUsage(result) })
+        .catch(error => console.error('Error measuring storage usage:', error))
+    }
+
+    refresh()
+    const unsubscribe = useStore.subscribe(() => {
+      clearTimeout(timeout)
+      timeout = setTimeout(refresh, REFRESH_DELAY_MS)
+    })
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+      unsubscribe()
+    }
+  }, [])
+
+  return usage
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react"
+import { toast } from "sonner"
+import { useStore } from "@/store"
+
+const undo = () => {
+  const { history, undo } = useStore.getState()
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return
+
+  undo()
+  toast.success(`Undid: ${entry.label}`)
+}
+
+const redo = () => {
+  const { history, redo } = useStore.getState()
+  const entry = history.future[history.future.length - 1]
+  if (!entry) return
+
+  redo()
+  toast.success(`Redid: ${entry.label}`)
+}
+
+/**
+ * Undo and redo of chapter edits with Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS),
+ * plus the labels of the steps they would undo or redo.
+ */
+export function useUndoRedo() {
+  const history = useStore((state) => state.history)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return
+
+      // Leave text fields to their own undo
+      const target = event.target as HTMLElement | null
+      if (target?.closest("input, textarea, [contenteditable='true']")) return
+
+      event.preventDefault()
+      if (event.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  return {
+    undo,
+    redo,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[history.future.length - 1]?.label
+  }
+}
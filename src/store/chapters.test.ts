@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useStore } from './index';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(6, 6);
+
+describe('chapter boundaries', () => {
+    beforeEach(() => {
+        useStore.getState().resetStore();
+        useStore.getState().setRounds(rounds);
+        useStore.getState().setChapters([
+            { roundsRange: [0, 1], omit: ['r-1'], summary: 'Arrival', summaryStatus: 'completed' },
+            { roundsRange: [2, 4], omit: ['r-4'], summary: 'The cave', summaryStatus: 'completed' },
+            { roundsRange: [5, 5], omit: [] }
+        ]);
+    });
+
+    it('should merge a chapter with the next one and drop their summaries', () => {
+        useStore.getState().enqueueChapterSummary(1);
+        useStore.getState().enqueueChapterSummary(2);
+        useStore.getState().mergeChapters(0);
+
+        const { chapters, chapterSummaryQueue, history } = useStore.getState();
+        expect(chapters).toEqual([
+            { roundsRange: [0, 4], omit: ['r-1', 'r-4'] },
+            { roundsRange: [5, 5], omit: [] }
+        ]);
+        expect(chapterSummaryQueue.map(item => item.id)).toEqual([1]);
+        expect(history.past[0].label).toBe('Merge chapters 1 and 2');
+    });
+
+    it('should move queued summaries of later chapters along with a split', () => {
+        useStore.getState().enqueueChapterSummary(0);
+        useStore.getState().enqueueChapterSummary(1);
+        useStore.getState().enqueueChapterSummary(2);
+        useStore.getState().splitChapter(0, 1);
+
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([2, 3]);
+    });
+
+    it('should move queued summaries along with the chapters on undo and redo', () => {
+        useStore.getState().enqueueChapterSummary(2);
+        useStore.getState().mergeChapters(0);
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([1]);
+
+        useStore.getState().undo();
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([2]);
+
+        useStore.getState().redo();
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([1]);
+    });
+
+    it('should not merge the last chapter', () => {
+        const before = useStore.getState().chapters;
+        useStore.getState().mergeChapters(2);
+
+        expect(useStore.getState().chapters).toBe(before);
+    });
+
+    it('should move a boundary several rounds at once, taking omits along and dropping summaries', () => {
+        useStore.getState().enqueueChapterSummary(1);
+        useStore.getState().enqueueChapterSummary(2);
+        useStore.getState().moveChapterBoundary(0, 4);
+
+        expect(useStore.getState().chapters.slice(0, 2)).toEqual([
+            { roundsRange: [0, 3], omit: ['r-1'] },
+            { roundsRange: [4, 4], omit: ['r-4'] }
+        ]);
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([2]);
+
+        useStore.getState().moveChapterBoundary(0, 1);
+        expect(useStore.getState().chapters[1]).toMatchObject({ roundsRange: [1, 4], omit: ['r-1', 'r-4'] });
+    });
+
+    it('should keep at least one round on each side of a boundary', () => {
+        const before = useStore.getState().chapters;
+        useStore.getState().moveChapterBoundary(0, 0);
+        useStore.getState().moveChapterBoundary(0, 5);
+
+        expect(useStore.getState().chapters).toBe(before);
+    });
+});
+
+describe('chapter checks', () => {
+    beforeEach(() => {
+        useStore.getState().resetStore();
+        useStore.getState().setRounds(rounds);
+        useStore.getState().setChapters([{ roundsRange: [0, 2], omit: [] }, { roundsRange: [3, 5], omit: ['r-4'] }]);
+    });
+
+    it('should keep chapters tiled when sliding rounds either way', () => {
+        useStore.getState().slideRoundUp(1, 4);
+        expect(useStore.getState().chapters).toEqual([
+            { roundsRange: [0, 4], omit: ['r-4'] },
+            { roundsRange: [5, 5], omit: [] }
+        ]);
+
+        useStore.getState().slideRoundDown(0, 2);
+        expect(useStore.getState().chapters.map(chapter => chapter.roundsRange)).toEqual([[0, 1], [2, 5]]);
+        expect(useStore.getState().chapterIssues).toEqual([]);
+    });
+
+    it('should drop a chapter whose first round slides down into the next one', () => {
+        useStore.getState().setChapters([
+            { roundsRange: [0, 1], omit: [] },
+            { roundsRange: [2, 3], omit: [] },
+            { roundsRange: [4, 5], omit: [] }
+        ]);
+        useStore.getState().enqueueChapterSummary(0);
+        useStore.getState().enqueueChapterSummary(1);
+        useStore.getState().enqueueChapterSummary(2);
+        useStore.getState().slideRoundDown(1, 2);
+
+        expect(useStore.getState().chapters.map(chapter => chapter.roundsRange)).toEqual([[0, 1], [2, 5]]);
+        expect(useStore.getState().chapterIssues).toEqual([]);
+        // The chapter that took the rounds needs a new summary
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([0]);
+    });
+
+    it('should flag broken chapters and repair them', () => {
+        useStore.getState().setChapters([{ roundsRange: [0, 2], omit: [] }, { roundsRange: [4, 5], omit: ['r-1'] }]);
+        expect(useStore.getState().chapterIssues.map(issue => issue.kind)).toEqual(['gap', 'omit-out-of-range']);
+
+        const changes = useStore.getState().repairChapters();
+
+        expect(changes).toHaveLength(2);
+        expect(useStore.getState().chapters).toEqual([
+            { roundsRange: [0, 3], omit: ['r-1'] },
+            { roundsRange: [4, 5], omit: [] }
+        ]);
+        expect(useStore.getState().chapterIssues).toEqual([]);
+        expect(useStore.getState().history.past.at(-1)?.label).toBe('Repair chapters');
+    });
+
+    it('should keep queued summaries only for chapters a repair leaves as they are', () => {
+        useStore.getState().setChapters([
+            { roundsRange: [0, 1], omit: [] },
+            { roundsRange: [0, 2], omit: [] },
+            { roundsRange: [3, 5], omit: [] }
+        ]);
+        useStore.getState().enqueueChapterSummary(1);
+        useStore.getState().enqueueChapterSummary(2);
+        useStore.getState().repairChapters();
+
+        expect(useStore.getState().chapters.map(chapter => chapter.roundsRange)).toEqual([[0, 1], [2, 2], [3, 5]]);
+        expect(useStore.getState().chapterSummaryQueue.map(item => item.id)).toEqual([2]);
+    });
+});
+
+describe('chapter snapshots', () => {
+    beforeEach(() => {
+        useStore.getState().resetStore();
+        useStore.getState().setRounds(rounds);
+        useStore.getState().setChapters([{ roundsRange: [0, 2], omit: ['r-1'], summary: 'Arrival' }, { roundsRange: [3, 5], omit: [] }]);
+    });
+
+    it('should restore a saved layout as an undoable step', () => {
+        const saved = useStore.getState().chapters;
+        useStore.getState().saveChapterSnapshot('Two chapters');
+        useStore.getState().mergeChapters(0);
+
+        const [snapshot] = useStore.getState().chapterSnapshots;
+        useStore.getState().restoreChapterSnapshot(snapshot.id);
+
+        expect(useStore.getState().chapters).toEqual(saved);
+        expect(useStore.getState().history.past.at(-1)?.label).toBe('Restore snapshot "Two chapters"');
+
+        useStore.getState().undo();
+        expect(useStore.getState().chapters).toHaveLength(1);
+    });
+
+    it('should delete a snapshot', () => {
+        useStore.getState().saveChapterSnapshot('Two chapters');
+        useStore.getState().deleteChapterSnapshot(useStore.getState().chapterSnapshots[0].id);
+
+        expect(useStore.getState().chapterSnapshots).toEqual([]);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useStore } from './index';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(4, 6);
+
+describe('undo/redo history', () => {
+    beforeEach(() => {
+        useStore.getState().resetStore();
+        useStore.getState().setRounds(rounds);
+        useStore.getState().setChapters([{ roundsRange: [0, 3], omit: [] }]);
+    });
+
+    it('should undo and redo a split with its label', () => {
+        useStore.getState().splitChapter(0, 2);
+        expect(useStore.getState().history.past[0].label).toBe('Split chapter 1 at round 2');
+
+        useStore.getState().undo();
+        expect(useStore.getState().chapters).toEqual([{ roundsRange: [0, 3], omit: [] }]);
+
+        useStore.getState().redo();
+        expect(useStore.getState().chapters.map(chapter => chapter.roundsRange)).toEqual([[0, 1], [2, 3]]);
+    });
+
+    it('should drop redo steps after a new edit', () => {
+        const { splitChapter, undo, omitRound } = useStore.getState();
+        splitChapter(0, 2);
+        undo();
+        omitRound(0, 'r-1', true);
+
+        expect(useStore.getState().history.future).toHaveLength(0);
+        expect(useStore.getState().history.past.map(entry => entry.label)).toEqual(['Omit round 1']);
+    });
+
+    it('should keep a summary written after an omit when the omit is undone', () => {
+        useStore.getState().omitRound(0, 'r-1', true);
+        useStore.getState().updateRound('r-1', { summary: 'A new summary', summaryStatus: 'completed' });
+        useStore.getState().undo();
+
+        expect(useStore.getState().chapters[0].omit).toEqual([]);
+        expect(useStore.getState().rounds[1]).toMatchObject({ summary: 'A new summary', summaryStatus: 'completed' });
+    });
+
+    it('should keep an outline written after a step when the chapter still covers the same rounds', () => {
+        useStore.getState().omitRound(0, 'r-1', true);
+        useStore.getState().updateChapter(0, { summary: 'A new outline', summaryStatus: 'completed' });
+        useStore.getState().undo();
+
+        expect(useStore.getState().chapters).toEqual([
+            { roundsRange: [0, 3], omit: [], summary: 'A new outline', summaryStatus: 'completed', lastError: undefined }
+        ]);
+    });
+
+    it('should keep at most 50 steps', () => {
+        for (let i = 0; i < 60; i++) {
+            useStore.getState().omitRound(0, 'r-1', i % 2 === 0);
+        }
+
+        expect(useStore.getState().history.past).toHaveLength(50);
+    });
+});
@@ -1,16 +1,34 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import { extractBlocks } from '@/utils/content-transformation';
+import { extractBlocks, MarkerProfile, RoundSession } from '@/utils/content-transformation';
 import { roundPrompt } from '@/data/round-prompt';
+import { builtInMarkerProfiles, getSavedMarkerProfiles, mergeWithBuiltInProfiles } from '@/data/marker-profiles';
+import { summaryModels } from '@/data/summary-models';
+import type { ResyncResult } from '@/utils/resync';
+import { ChapterIssue, checkChapters, repairChapters as repairChapterStructure } from '@/utils/chapter-invariants';
+import { planRetry, pickRoundsToStart, SummaryRequestError } from '@/utils/summary-scheduler';
+import { buildChapterSummaryPrompt } from '@/utils/chapter-summary';
+import { getChapterTokenBudget } from '@/utils/token-budget';
+import { allowSaves, copyProject, createProjectStorage, loadProject } from '@/db/project-storage';
+import { DEFAULT_PROJECT_ID, DEFAULT_PROJECT_NAME } from '@/db/db';
+import { quarantineData, readDatabase } from '@/db/quarantine';
+import { migratePersistedState, PersistedStateError, STORE_VERSION, validatePersistedState } from './migrations';
+import { requestQueueProcessing, startTabSync } from './tab-sync';
 
 // Define types for each slice
 export interface Round {
-  roundIndex: number;
+  id: string; // stable identity from the round's text, see `assignRoundIds`
+  roundIndex: number; // position in the transcript, for display and chapter ranges
   startLine: number;
   endLine: number;
   lineCount: number;
+  tokenCount?: number; // estimated tokens, missing for rounds imported before token estimates existed
+  session?: RoundSession; // play session the round belongs to, from date lines in the transcript
+  sourceFile?: string; // uploaded file the round came from, when several files were merged
   summary?: string;
   summaryStatus?: 'pending' | 'inProgress' | 'completed' | 'failed';
+  lastError?: string; // why the last summary request failed, cleared once one succeeds
+  textChanged?: boolean; // the transcript text changed in a re-sync since the summary was written
   userText?: string;
   dmText?: string;
   rawContent?: string;
@@ -18,92 +36,678 @@ export interface Round {
 
 export interface Chapter {
   roundsRange: [number, number]; // [start, end]
-  omit: number[]; // array of round indices to omit
+  omit: string[]; // IDs of the rounds to omit
   summary?: string;
   summaryStatus?: 'pending' | 'inProgress' | 'completed' | 'failed';
+  lastError?: string; // why the last summary request failed, cleared once one succeeds
 }
 
-export interface SummaryQueueItem {
-  id: number;
+// How uploads are grouped into chapters
+export interface ChapterGroupingSettings {
+  mode: 'lines' | 'tokens'; // fixed line threshold, or sized to fit the model's context window
+  strategy: 'size' | 'scene-breaks'; // cut purely by size, or at scene breaks within a size window
+  modelId: string;
+  contextTokens: number;
+  reservedOutputTokens: number; // kept free for the summary the model writes
+}
+
+// How many round summaries are requested at once
+export interface SummaryQueueSettings {
+  maxConcurrentChapters: number; // chapters with rounds being summarized at once
+  maxConcurrentRounds: number; // rounds being summarized at once within one chapter
+  maxRetries: number; // retries of a request that failed for a passing reason, such as a rate limit
+}
+
+// One undoable step: the chapters as they were before it. Round edits are summaries, which aren't undone
+export interface HistoryEntry {
+  label: string; // short description of what the step did, e.g. "Split chapter 3 at round 40"
+  chapters: Chapter[];
+}
+
+// A named copy of the chapter layout, with its omits and chapter summaries, to compare or go back to
+export interface ChapterSnapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  chapters: Chapter[];
+}
+
+// A campaign; only the active project's transcript, rounds and chapters are loaded in the store
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Stored data that couldn't be loaded when the app started
+export interface StorageIssue {
+  message: string;
+  backupId: number | null; // quarantine record holding the data, when it could be kept
+}
+
+// Round items are keyed by round ID, chapter items by chapter index, kept up to date by `followChapters`
+export interface SummaryQueueItem<TId extends string | number = string | number> {
+  id: TId;
   type: 'round' | 'chapter';
   status: 'pending' | 'inProgress' | 'completed' | 'failed';
+  attempts?: number; // failed requests so far
+  retryAt?: number; // time the item may be retried, in ms since the epoch
+  paused?: boolean; // left in the queue but not started until resumed
+  previousSummary?: string; // summary before the latest attempt, put back if the page closes during it
+}
+
+// Queue work that was waiting when the project loaded, offered to the user to resume
+export interface QueueRecovery {
+  interrupted: number; // items whose requests were cut off, and were queued again
+  queued: number; // items waiting in the queue, including the interrupted ones
 }
 
 // Define the store state
-interface StoreState {
+export interface StoreState {
+  // Projects Slice
+  projects: Project[];
+  activeProjectId: string;
+  storageIssue: StorageIssue | null;
+
   // File Upload & Raw Content Slice
   rawFileContent: string | null;
   processedContent: string | null;
+  sourceMap: number[] | null; // processed line -> raw line (-1 for inserted lines)
+
+  // Marker Profiles Slice
+  markerProfiles: MarkerProfile[];
+  selectedMarkerProfileId: string;
 
   // Rounds Metadata Slice
   rounds: Round[];
 
   // Chapters Slice
   chapters: Chapter[];
+  chapterGrouping: ChapterGroupingSettings;
+  chapterIssues: ChapterIssue[]; // ways the chapters fail to tile the rounds, see `checkChapters`
+  chapterSnapshots: ChapterSnapshot[];
+
+  // Undo/Redo Slice
+  history: {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+  };
 
   // Summarization Queues Slice
-  roundSummaryQueue: SummaryQueueItem[];
-  chapterSummaryQueue: SummaryQueueItem[];
+  roundSummaryQueue: SummaryQueueItem<string>[];
+  chapterSummaryQueue: SummaryQueueItem<number>[];
+  summaryQueueSettings: SummaryQueueSettings;
+
+  // Projects Actions
+  createProject: (name: string) => void;
+  renameProject: (projectId: string, name: string) => void;
+  duplicateProject: (projectId: string) => Promise<void>;
+  deleteProject: (projectId: string) => Promise<void>;
+  switchProject: (projectId: string) => Promise<void>;
+  dismissStorageIssue: () => void;
 
   // File Upload & Raw Content Actions
   setRawFileContent: (content: string) => void;
   setProcessedContent: (content: string) => void;
+  setSourceMap: (sourceMap: number[] | null) => void;
+
+  // Marker Profiles Actions
+  saveMarkerProfile: (profile: MarkerProfile) => void;
+  deleteMarkerProfile: (profileId: string) => void;
+  selectMarkerProfile: (profileId: string) => void;
 
   // Rounds Metadata Actions
   setRounds: (rounds: Round[]) => void;
-  updateRound: (roundIndex: number, updatedData: Partial<Round>) => void;
+  updateRound: (roundId: string, updatedData: Partial<Round>) => void;
+  applyResync: (result: ResyncResult) => void;
 
   // Chapters Actions
   setChapters: (chapters: Chapter[]) => void;
   updateChapter: (chapterIndex: number, updatedData: Partial<Chapter>) => void;
+  setChapterGrouping: (settings: Partial<ChapterGroupingSettings>) => void;
+  regroupChapters: (chapters: Chapter[]) => void;
 
   // Chapter Manipulation Actions
   slideRoundUp: (chapterIndex: number, roundIndex: number) => void;
   slideRoundDown: (chapterIndex: number, roundIndex: number) => void;
   splitChapter: (chapterIndex: number, roundIndex: number) => void;
-  omitRound: (chapterIndex: number, roundIndex: number, omit: boolean) => void;
+  omitRound: (chapterIndex: number, roundId: string, omit: boolean) => void;
+  mergeChapters: (chapterIndex: number) => void; // merges the chapter with the one after it
+  moveChapterBoundary: (chapterIndex: number, roundIndex: number) => void; // the next chapter starts at roundIndex
+  repairChapters: () => string[]; // returns what the repair changed
+
+  // Chapter Snapshot Actions
+  saveChapterSnapshot: (name: string) => void;
+  restoreChapterSnapshot: (snapshotId: string) => void;
+  deleteChapterSnapshot: (snapshotId: string) => void;
+
+  // Undo/Redo Actions
+  undo: () => void;
+  redo: () => void;
 
   // Summarization Queue Actions
-  enqueueRoundSummary: (roundIndex: number) => void;
-  dequeueRoundSummary: (roundIndex: number) => void;
-  rerollRoundSummary: (roundIndex: number) => void;
+  enqueueRoundSummary: (roundId: string) => void;
+  dequeueRoundSummary: (roundId: string) => void;
+  rerollRoundSummary: (roundId: string) => void;
   enqueueChapterSummary: (chapterIndex: number) => void;
-  updateSummaryStatus: (id: number, type: 'round' | 'chapter', status: 'pending' | 'inProgress' | 'completed' | 'failed') => void;
+  dequeueChapterSummary: (chapterIndex: number) => void;
+  updateSummaryStatus: (id: string | number, type: 'round' | 'chapter', status: 'pending' | 'inProgress' | 'completed' | 'failed') => void;
+  setSummaryQueueSettings: (settings: Partial<SummaryQueueSettings>) => void;
+  pauseQueue: () => void;
+  resumeQueue: () => void;
+  cancelQueue: () => void;
+  pauseChapter: (chapterIndex: number) => void; // pauses the chapter's rounds and its outline
+  resumeChapter: (chapterIndex: number) => void;
+  cancelChapter: (chapterIndex: number) => void;
   processRoundSummaryQueue: () => Promise<void>;
+  processChapterSummaryQueue: () => Promise<void>;
   isProcessingQueue: boolean;
+  isQueuePaused: boolean; // nothing new is started, and requests in flight are aborted
+  queueRecovery: QueueRecovery | null;
+  recoverInterruptedQueue: () => void; // re-queues work a closed tab left in progress
+  dismissQueueRecovery: () => void;
+  isQueueOwner: boolean; // this tab runs the queue, other tabs mirror it; see `startTabSync`
 
   // Reset Store
   resetStore: () => void;
 }
 
+// Parts of the state that belong to the active project
+export type ProjectState = Pick<StoreState,
+  | 'rawFileContent'
+  | 'processedContent'
+  | 'sourceMap'
+  | 'selectedMarkerProfileId'
+  | 'rounds'
+  | 'chapters'
+  | 'chapterGrouping'
+  | 'chapterSnapshots'
+  | 'history'
+  | 'roundSummaryQueue'
+  | 'chapterSummaryQueue'
+  | 'summaryQueueSettings'
+>;
+
+// Parts of the state kept across reloads
+export type PersistedState = ProjectState & Pick<StoreState, 'projects' | 'activeProjectId' | 'markerProfiles'>;
+
+// State of a project with nothing uploaded yet
+const createEmptyProjectState = (): ProjectState => ({
+  rawFileContent: null,
+  processedContent: null,
+  sourceMap: null,
+  selectedMarkerProfileId: builtInMarkerProfiles[0].id,
+  rounds: [],
+  chapters: [],
+  chapterGrouping: {
+    mode: 'lines',
+    strategy: 'size',
+    modelId: summaryModels[0].id,
+    contextTokens: summaryModels[0].contextTokens,
+    reservedOutputTokens: 4000
+  },
+  chapterSnapshots: [],
+  history: { past: [], future: [] },
+  roundSummaryQueue: [],
+  chapterSummaryQueue: [],
+  summaryQueueSettings: {
+    maxConcurrentChapters: 3,
+    maxConcurrentRounds: 3,
+    maxRetries: 3
+  }
+});
+
+const createProjectInfo = (name: string): Project => ({
+  id: `project-${Date.now()}`,
+  name,
+  createdAt: new Date().toISOString()
+});
+
+// Number of steps kept for undo
+const HISTORY_LIMIT = 50;
+
+// Position of every round, by ID
+const getRoundPositions = (rounds: Round[]) => new Map(rounds.map(round => [round.id, round.roundIndex]));
+
+// IDs of the rounds in the chapter's range
+const getChapterRoundIds = (state: StoreState, chapterIndex: number) => {
+  const [start, end] = state.chapters[chapterIndex]?.roundsRange ?? [0, -1];
+  return new Set(state.rounds.filter(round => round.roundIndex >= start && round.roundIndex <= end).map(round => round.id));
+};
+
+// Marks the queued rounds of a chapter, and its queued outline, as paused or not
+const setChapterPaused = (state: StoreState, chapterIndex: number, paused: boolean) => {
+  const roundIds = getChapterRoundIds(state, chapterIndex);
+  return {
+    roundSummaryQueue: state.roundSummaryQueue.map(item => roundIds.has(item.id) ? { ...item, paused } : item),
+    chapterSummaryQueue: state.chapterSummaryQueue.map(item => item.id === chapterIndex ? { ...item, paused } : item)
+  };
+};
+
+const requeuedStatus = (status: SummaryQueueItem['status']) => status === 'inProgress' ? 'pending' : status;
+
+// Chapters are identified by their round range, which stays the same while edits to other chapters shift their index
+const getChapterKey = (chapter: Chapter | undefined) => chapter ? chapter.roundsRange.join('-') : '';
+
+// Moves queued chapter outlines along with their chapters after an edit. Outlines of chapters
+// whose rounds changed, or that are gone, are dropped, which aborts any that are in flight
+const followChapters = (queue: SummaryQueueItem<number>[], previous: Chapter[], next: Chapter[]) => {
+  const indexByKey = new Map(next.map((chapter, index) => [getChapterKey(chapter), index]));
+  return queue.flatMap(item => {
+    const index = indexByKey.get(getChapterKey(previous[item.id]));
+    if (index === undefined) return [];
+    return index === item.id ? [item] : [{ ...item, id: index }];
+  });
+};
+
+// Records the state before an edit as an undo step and drops the redo steps
+const recordHistory = (state: StoreState, label: string) => ({
+  history: {
+    past: [...state.history.past, { label, chapters: state.chapters }].slice(-HISTORY_LIMIT),
+    future: []
+  }
+});
+
+// Restores a history entry, returning the restored state and the entry that reverses it.
+// Chapters that still cover the same rounds keep any outline written since the step
+const restoreHistoryEntry = (state: StoreState, entry: HistoryEntry) => {
+  const currentByKey = new Map(state.chapters.map(chapter => [getChapterKey(chapter), chapter]));
+  const chapters = entry.chapters.map(chapter => {
+    const current = currentByKey.get(getChapterKey(chapter));
+    return current
+      ? { ...chapter, summary: current.summary, summaryStatus: current.summaryStatus, lastError: current.lastError }
+      : chapter;
+  });
+
+  return {
+    restored: {
+      chapters,
+      chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, chapters)
+    },
+    reverse: { label: entry.label, chapters: state.chapters }
+  };
+};
+
+// Rounds and chapters being summarized by this tab, with the controllers that abort their requests.
+// Chapters are tracked by `getChapterKey`
+const activeRoundTasks = new Map<string, AbortController>();
+const activeChapterTasks = new Map<string, AbortController>();
+
+// Sends a prompt to the summary server and streams the reply, passing the text so far to `onText`
+const streamSummary = async (prompt: string, model: string, onText: (text: string) => void, signal: AbortSignal) => {
+  const response = await fetch('http://localhost:4000/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prompt, model }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw SummaryRequestError.fromResponse(response);
+  }
+
+  // Handle streaming response
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Failed to get response stream reader');
+  }
+
+  const decoder = new TextDecoder();
+  let done = false;
+  let text = '';
+  while (!done) {
+    const { value, done: doneReading } = await reader.read();
+    done = doneReading;
+
+    if (value) {
+      text += decoder.decode(value, { stream: !done });
+      onText(text.trim());
+    }
+  }
+
+  return text.trim();
+};
+
+// Summarizes one queued round, streaming the summary into the round, and takes it off the queue.
+// Failures that may pass leave it queued for a retry after a delay. When the request is aborted
+// because the round was paused or taken off the queue, the round is put back as it was
+const summarizeRound = async (roundId: string, signal: AbortSignal) => {
+  // Put back when a request fails, so no partial summary is left behind
+  const previousSummary = useStore.getState().rounds.find(r => r.id === roundId)?.summary;
+  useStore.setState((state) => ({
+    roundSummaryQueue: state.roundSummaryQueue.map(item =>
+      item.id === roundId && item.type === 'round' ? { ...item, status: 'inProgress' as const, previousSummary } : item
+    ),
+    rounds: state.rounds.map(round => round.id === roundId ? { ...round, summaryStatus: 'inProgress' as const } : round)
+  }));
+
+  try {
+    const state = useStore.getState();
+    const round = state.rounds.find(r => r.id === roundId);
+    if (!round) {
+      throw new Error(`Round ${roundId} not found in rounds array`);
+    }
+
+    // Extract roundContent
+    let roundContent = round.rawContent;
+    if (!roundContent) {
+      // Get processed content from store
+      const processedContent = state.processedContent;
+      if (!processedContent) {
+        throw new Error('No processed content available in store');
+      }
+
+      // Extract the content for this round from the processed content
+      const lines = processedContent.split('\n');
+      roundContent = lines.slice(round.startLine, round.endLine + 1).join('\n');
+      if (!roundContent) {
+        throw new Error(`Could not extract content for round ${round.roundIndex}`);
+      }
+
+      // Extract user and dungeon master content and keep them on the round
+      const { userContent, dmContent } = extractBlocks(roundContent);
+      state.updateRound(roundId, {
+        rawContent: roundContent,
+        userText: userContent,
+        dmText: dmContent
+      });
+    }
+
+    // Extract DM content from the raw content
+    const { dmContent } = extractBlocks(roundContent);
+    if (!dmContent) {
+      throw new Error('No dungeon master content found in the round');
+    }
+
+    // Prepare the prompt by replacing the placeholder
+    const prompt = roundPrompt.replace("[[narrative-excerpt]]", dmContent);
+
+    state.updateRound(roundId, { summary: '', summaryStatus: 'inProgress' });
+    const summary = await streamSummary(prompt, 'gpt-4o-mini', (text) => {
+      // Update the summary as it comes in
+      state.updateRound(roundId, { summary: text, summaryStatus: 'inProgress' });
+    }, signal);
+
+    // Update with completed status
+    state.updateRound(roundId, {
+      summary,
+      summaryStatus: 'completed',
+      lastError: undefined,
+      textChanged: undefined
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      // A paused round waits in the queue again; a removed one keeps the summary it had
+      useStore.setState((state) => {
+        const isQueued = state.roundSummaryQueue.some(item => item.id === roundId && item.type === 'round');
+        return {
+          roundSummaryQueue: state.roundSummaryQueue.map(item =>
+            item.id === roundId && item.type === 'round' ? { ...item, status: 'pending' as const } : item
+          ),
+          rounds: state.rounds.map(round =>
+            round.id === roundId
+              ? { ...round, summary: previousSummary, summaryStatus: isQueued ? 'pending' as const : previousSummary ? 'completed' as const : undefined }
+              : round
+          )
+        };
+      });
+      return;
+    }
+
+    const lastError = error instanceof Error ? error.message : String(error);
+    const { roundSummaryQueue, summaryQueueSettings } = useStore.getState();
+    const item = roundSummaryQueue.find(item => item.id === roundId && item.type === 'round');
+    const retry = item && planRetry(error, item.attempts ?? 0, summaryQueueSettings.maxRetries);
+
+    if (retry) {
+      console.warn(`Summarizing round ${roundId} failed, retry ${retry.attempts} of ${summaryQueueSettings.maxRetries} in ${retry.delay}ms:`, error);
+
+      useStore.setState((state) => ({
+        roundSummaryQueue: state.roundSummaryQueue.map(item =>
+          item.id === roundId && item.type === 'round'
+            ? { ...item, status: 'pending' as const, attempts: retry.attempts, retryAt: Date.now() + retry.delay }
+            : item
+        ),
+        rounds: state.rounds.map(round =>
+          round.id === roundId
+            ? { ...round, summary: previousSummary, summaryStatus: 'pending' as const, lastError }
+            : round
+        )
+      }));
+      setTimeout(() => void useStore.getState().processRoundSummaryQueue(), retry.delay);
+      return;
+    }
+
+    console.error(`Error summarizing round ${roundId}:`, error);
+    useStore.getState().updateRound(roundId, { summary: previousSummary, summaryStatus: 'failed', lastError });
+  }
+
+  useStore.getState().dequeueRoundSummary(roundId);
+};
+
+// Outlines one queued chapter from its rounds, streaming into the chapter summary, and takes it off the queue.
+// Retried like rounds, unless the chapter's rounds change meanwhile, and put back as it was when aborted
+const summarizeChapter = async (chapterIndex: number, signal: AbortSignal) => {
+  const chapter = useStore.getState().chapters[chapterIndex];
+  const previousSummary = chapter?.summary;
+  const previousStatus = chapter?.summaryStatus;
+  useStore.setState((state) => ({
+    chapterSummaryQueue: state.chapterSummaryQueue.map(item =>
+      item.id === chapterIndex && item.type === 'chapter' ? { ...item, status: 'inProgress' as const, previousSummary } : item
+    ),
+    chapters: state.chapters.map((chapter, index) =>
+      index === chapterIndex ? { ...chapter, summaryStatus: 'inProgress' as const } : chapter
+    )
+  }));
+  // Edits to other chapters may move this one to another index; no other chapter starts at its first round
+  const findChapter = (chapters: Chapter[]) => chapters.findIndex(current => current.roundsRange[0] === chapter?.roundsRange[0]);
+  const isSameChapter = () => {
+    const { chapters } = useStore.getState();
+    return chapters[findChapter(chapters)]?.roundsRange[1] === chapter?.roundsRange[1];
+  };
+  const updateChapter = (updatedData: Partial<Chapter>) => useStore.setState((state) => {
+    const index = findChapter(state.chapters);
+    return {
+      chapters: state.chapters.map((chapter, i) => i === index ? { ...chapter, ...updatedData } : chapter)
+    };
+  });
+  // An outline written before the chapter changed doesn't fit it any more
+  const restoredSummary = () => isSameChapter() ? previousSummary : undefined;
+  // Its queue item moves along with it
+  const updateQueueItem = (update: (item: SummaryQueueItem<number>) => SummaryQueueItem<number> | null) =>
+    useStore.setState((state) => {
+      const index = findChapter(state.chapters);
+      return {
+        chapterSummaryQueue: state.chapterSummaryQueue.flatMap(item => item.id === index ? update(item) ?? [] : [item])
+      };
+    });
+
+  try {
+    const state = useStore.getState();
+    if (!chapter) {
+      throw new Error(`Chapter ${chapterIndex + 1} not found`);
+    }
+
+    const { prompt } = buildChapterSummaryPrompt(
+      chapter,
+      state.rounds,
+      state.processedContent,
+      getChapterTokenBudget(state.chapterGrouping)
+    );
+
+    updateChapter({ summary: '' });
+    const summary = await streamSummary(prompt, state.chapterGrouping.modelId, (text) => {
+      updateChapter({ summary: text });
+    }, signal);
+    if (!isSameChapter()) {
+      throw new Error(`Chapter ${chapterIndex + 1} changed while it was being summarized`);
+    }
+
+    updateChapter({ summary, summaryStatus: 'completed', lastError: undefined });
+  } catch (error) {
+    if (signal.aborted) {
+      // A paused chapter waits in the queue again; a removed one keeps the outline it had
+      updateQueueItem(item => ({ ...item, status: 'pending' }));
+      updateChapter({ summary: restoredSummary(), summaryStatus: isSameChapter() ? previousStatus : undefined });
+      return;
+    }
+
+    const lastError = error instanceof Error ? error.message : String(error);
+    const { chapters, chapterSummaryQueue, summaryQueueSettings } = useStore.getState();
+    const item = chapterSummaryQueue.find(item => item.id === findChapter(chapters) && item.type === 'chapter');
+    const retry = item && isSameChapter() && planRetry(error, item.attempts ?? 0, summaryQueueSettings.maxRetries);
+
+    if (retry) {
+      console.warn(`Summarizing chapter ${chapterIndex + 1} failed, retry ${retry.attempts} of ${summaryQueueSettings.maxRetries} in ${retry.delay}ms:`, error);
+
+      updateQueueItem(item => ({ ...item, status: 'pending', attempts: retry.attempts, retryAt: Date.now() + retry.delay }));
+      updateChapter({ summary: previousSummary, summaryStatus: 'pending', lastError });
+      setTimeout(() => void useStore.getState().processChapterSummaryQueue(), retry.delay);
+      return;
+    }
+
+    console.error(`Error summarizing chapter ${chapterIndex + 1}:`, error);
+    updateChapter({ summary: restoredSummary(), summaryStatus: 'failed', lastError });
+  }
+
+  updateQueueItem(() => null);
+};
+
 // Create the store
 export const useStore = create<StoreState>()(
   devtools(
     persist(
       (set) => ({
         // Initial state
-        rawFileContent: null,
-        processedContent: null,
-        rounds: [],
-        chapters: [],
-        roundSummaryQueue: [],
-        chapterSummaryQueue: [],
+        ...createEmptyProjectState(),
+        projects: [{ id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_NAME, createdAt: new Date().toISOString() }],
+        activeProjectId: DEFAULT_PROJECT_ID,
+        storageIssue: null,
+        chapterIssues: [],
+        markerProfiles: builtInMarkerProfiles,
         isProcessingQueue: false,
+        isQueuePaused: false,
+        queueRecovery: null,
+        isQueueOwner: false,
+
+        // Projects Actions
+        // A new project starts empty, keeping the current marker profile, chapter grouping and queue settings
+        createProject: (name) => set((state) => {
+          // Summaries in flight belong to the current project
+          if (state.isProcessingQueue) return state;
+
+          const project = createProjectInfo(name);
+          return {
+            ...createEmptyProjectState(),
+            selectedMarkerProfileId: state.selectedMarkerProfileId,
+            chapterGrouping: state.chapterGrouping,
+            summaryQueueSettings: state.summaryQueueSettings,
+            projects: [...state.projects, project],
+            activeProjectId: project.id
+          };
+        }),
+
+        renameProject: (projectId, name) => set((state) => ({
+          projects: state.projects.map(project => project.id === projectId ? { ...project, name } : project)
+        })),
+
+        duplicateProject: async (projectId) => {
+          const source = useStore.getState().projects.find(project => project.id === projectId);
+          if (!source) return;
+
+          const copy = createProjectInfo(`${source.name} (copy)`);
+          await copyProject(projectId, copy.id);
+          set((state) => ({ projects: [...state.projects, copy] }));
+        },
+
+        // The last project can't be deleted; deleting the active one switches to another first
+        deleteProject: async (projectId) => {
+          const { projects, activeProjectId, switchProject } = useStore.getState();
+          if (projects.length <= 1) return;
+
+          if (projectId === activeProjectId) {
+            await switchProject(projects.find(project => project.id !== projectId)!.id);
+            if (useStore.getState().activeProjectId === projectId) return;
+          }
+
+          set((state) => ({ projects: state.projects.filter(project => project.id !== projectId) }));
+        },
+
+        switchProject: async (projectId) => {
+          const state = useStore.getState();
+          if (projectId === state.activeProjectId || state.isProcessingQueue) return;
+
+          // Projects other than the active one may still be at an older schema version
+          const { state: stored, version } = await loadProject(projectId);
+          const project = validatePersistedState(migratePersistedState(stored, version));
+          set({ ...createEmptyProjectState(), ...project, activeProjectId: projectId });
+        },
+
+        // Saves resume in a new project, so the projects that couldn't be loaded stay stored as they were
+        dismissStorageIssue: () => {
+          allowSaves({ fresh: true });
+          const project = createProjectInfo(DEFAULT_PROJECT_NAME);
+          set({ storageIssue: null, projects: [project], activeProjectId: project.id });
+        },
 
         // File Upload & Raw Content Actions
         setRawFileContent: (content) => set({ rawFileContent: content }),
         setProcessedContent: (content) => set({ processedContent: content }),
+        setSourceMap: (sourceMap) => set({ sourceMap }),
+
+        // Marker Profiles Actions
+        saveMarkerProfile: (profile) => set((state) => {
+          const exists = state.markerProfiles.some(p => p.id === profile.id);
+
+          return {
+            // Replace an existing profile with the same id, otherwise add it
+            markerProfiles: exists
+              ? state.markerProfiles.map(p => p.id === profile.id ? profile : p)
+              : [...state.markerProfiles, profile]
+          };
+        }),
+
+        deleteMarkerProfile: (profileId) => set((state) => {
+          const profile = state.markerProfiles.find(p => p.id === profileId);
+
+          // Built-in profiles can't be deleted
+          if (!profile || profile.builtIn) return state;
+
+          return {
+            markerProfiles: state.markerProfiles.filter(p => p.id !== profileId),
+            selectedMarkerProfileId: state.selectedMarkerProfileId === profileId
+              ? builtInMarkerProfiles[0].id
+              : state.selectedMarkerProfileId
+          };
+        }),
+
+        selectMarkerProfile: (profileId) => set({ selectedMarkerProfileId: profileId }),
 
         // Rounds Metadata Actions
-        setRounds: (rounds) => set({ rounds }),
-        updateRound: (roundIndex, updatedData) => set((state) => ({
+        // New rounds start a new history
+        setRounds: (rounds) => set({ rounds, history: { past: [], future: [] } }),
+        updateRound: (roundId, updatedData) => set((state) => ({
           rounds: state.rounds.map((round) =>
-            round.roundIndex === roundIndex
+            round.id === roundId
               ? { ...round, ...updatedData }
               : round
           )
         })),
 
+        // Replace rounds and chapters with a re-sync result, moving queued items to the matched rounds and chapters
+        applyResync: ({ rounds, chapters, roundIdMap, chapterIndexMap }) => set((state) => ({
+          rounds,
+          chapters,
+          history: { past: [], future: [] },
+          // Requests in flight were for the replaced rounds and chapters, so their items wait to run again
+          roundSummaryQueue: state.roundSummaryQueue
+            .filter(item => roundIdMap.has(item.id))
+            .map(item => ({ ...item, id: roundIdMap.get(item.id)!, status: requeuedStatus(item.status) })),
+          chapterSummaryQueue: state.chapterSummaryQueue
+            .filter(item => chapterIndexMap.has(item.id))
+            .map(item => ({ ...item, id: chapterIndexMap.get(item.id)!, status: requeuedStatus(item.status) }))
+        })),
+
         // Chapters Actions
         setChapters: (chapters) => set({ chapters }),
         updateChapter: (chapterIndex, updatedData) => set((state) => ({
@@ -113,6 +717,38 @@ export const useStore = create<StoreState>()(
               : chapter
           )
         })),
+        setChapterGrouping: (settings) => set((state) => ({
+          chapterGrouping: { ...state.chapterGrouping, ...settings }
+        })),
+
+        // Replace the chapter boundaries, keeping omitted rounds and the summaries of unchanged chapters
+        regroupChapters: (chapters) => set((state) => {
+          const omitted = state.chapters.flatMap(chapter => chapter.omit);
+          const positions = getRoundPositions(state.rounds);
+          const previousIndexOf = (chapter: Chapter) => state.chapters.findIndex(previous =>
+            previous.roundsRange[0] === chapter.roundsRange[0] && previous.roundsRange[1] === chapter.roundsRange[1]
+          );
+
+          const newChapters = chapters.map(chapter => {
+            const [start, end] = chapter.roundsRange;
+            const previous = state.chapters[previousIndexOf(chapter)];
+            return {
+              ...previous,
+              roundsRange: chapter.roundsRange,
+              omit: omitted.filter(roundId => {
+                const position = positions.get(roundId);
+                return position !== undefined && position >= start && position <= end;
+              })
+            };
+          });
+
+          // Queued chapter summaries follow unchanged chapters and are dropped for the rest
+          return {
+            chapters: newChapters,
+            ...recordHistory(state, `Regroup into ${newChapters.length} chapters`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, newChapters)
+          };
+        }),
 
         // Chapter Manipulation Actions
         slideRoundUp: (chapterIndex, roundIndex) => set((state) => {
@@ -131,42 +767,45 @@ export const useStore = create<StoreState>()(
             return state;
           }
 
-          // Calculate how many rounds to move (from the clicked round to the end of the chapter)
-          const roundsToMove = currentEnd - roundIndex + 1;
-
-          // Update the previous chapter's end range
-          const [prevStart, prevEnd] = previousChapter.roundsRange;
-          previousChapter.roundsRange = [prevStart, prevEnd + roundsToMove] as [number, number];
+          // The previous chapter takes the rounds from the start of this chapter up to the clicked round
+          const [prevStart] = previousChapter.roundsRange;
+          previousChapter.roundsRange = [prevStart, roundIndex] as [number, number];
 
           // Update the current chapter's start range
-          currentChapter.roundsRange = [currentStart, roundIndex - 1] as [number, number];
+          currentChapter.roundsRange = [roundIndex + 1, currentEnd] as [number, number];
+
+          // Update the previous chapter
+          newChapters[chapterIndex - 1] = previousChapter;
 
           // If the current chapter would be empty after this operation, remove it
-          if (currentChapter.roundsRange[0] > currentChapter.roundsRange[1]) {
+          const removesCurrent = currentChapter.roundsRange[0] > currentChapter.roundsRange[1];
+          if (removesCurrent) {
             newChapters.splice(chapterIndex, 1);
           } else {
             newChapters[chapterIndex] = currentChapter;
           }
 
-          // Update the previous chapter
-          newChapters[chapterIndex - 1] = previousChapter;
-
           // Move any omitted rounds to the appropriate chapter
+          const positions = getRoundPositions(state.rounds);
           const omittedRoundsToMove = currentChapter.omit.filter(
-            omittedIndex => omittedIndex >= roundIndex && omittedIndex <= currentEnd
+            omittedId => (positions.get(omittedId) ?? -1) <= roundIndex
           );
 
           if (omittedRoundsToMove.length > 0) {
             // Remove from current chapter
             currentChapter.omit = currentChapter.omit.filter(
-              omittedIndex => omittedIndex < roundIndex
+              omittedId => !omittedRoundsToMove.includes(omittedId)
             );
 
             // Add to previous chapter
             previousChapter.omit = [...previousChapter.omit, ...omittedRoundsToMove];
           }
 
-          return { chapters: newChapters };
+          return {
+            chapters: newChapters,
+            ...recordHistory(state, `Slide round ${roundIndex} up`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, newChapters)
+          };
         }),
 
         slideRoundDown: (chapterIndex, roundIndex) => set((state) => {
@@ -185,42 +824,45 @@ export const useStore = create<StoreState>()(
             return state;
           }
 
-          // Calculate how many rounds to move (from the clicked round to the end of the chapter)
-          const roundsToMove = currentEnd - roundIndex + 1;
-
-          // Update the next chapter's start range
-          const [nextStart, nextEnd] = nextChapter.roundsRange;
-          nextChapter.roundsRange = [nextStart - roundsToMove, nextEnd] as [number, number];
+          // Update the next chapter's start range; it starts at the clicked round
+          const [, nextEnd] = nextChapter.roundsRange;
+          nextChapter.roundsRange = [roundIndex, nextEnd] as [number, number];
 
           // Update the current chapter's end range
           currentChapter.roundsRange = [currentStart, roundIndex - 1] as [number, number];
 
+          // Update the next chapter, before removing the current one shifts it
+          newChapters[chapterIndex + 1] = nextChapter;
+
           // If the current chapter would be empty after this operation, remove it
-          if (currentChapter.roundsRange[0] > currentChapter.roundsRange[1]) {
+          const removesCurrent = currentChapter.roundsRange[0] > currentChapter.roundsRange[1];
+          if (removesCurrent) {
             newChapters.splice(chapterIndex, 1);
           } else {
             newChapters[chapterIndex] = currentChapter;
           }
 
-          // Update the next chapter
-          newChapters[chapterIndex + 1] = nextChapter;
-
           // Move any omitted rounds to the appropriate chapter
+          const positions = getRoundPositions(state.rounds);
           const omittedRoundsToMove = currentChapter.omit.filter(
-            omittedIndex => omittedIndex >= roundIndex && omittedIndex <= currentEnd
+            omittedId => (positions.get(omittedId) ?? -1) >= roundIndex
           );
 
           if (omittedRoundsToMove.length > 0) {
             // Remove from current chapter
             currentChapter.omit = currentChapter.omit.filter(
-              omittedIndex => omittedIndex < roundIndex
+              omittedId => !omittedRoundsToMove.includes(omittedId)
             );
 
             // Add to next chapter
             nextChapter.omit = [...nextChapter.omit, ...omittedRoundsToMove];
           }
 
-          return { chapters: newChapters };
+          return {
+            chapters: newChapters,
+            ...recordHistory(state, `Slide round ${roundIndex} down`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, newChapters)
+          };
         }),
 
         splitChapter: (chapterIndex, roundIndex) => set((state) => {
@@ -242,15 +884,17 @@ export const useStore = create<StoreState>()(
           }
 
           // Create two new chapters from the split
+          const positions = getRoundPositions(state.rounds);
+          const isBeforeSplit = (roundId: string) => (positions.get(roundId) ?? -1) < roundIndex;
           const firstChapter = {
             ...chapterToSplit,
             roundsRange: [start, roundIndex - 1] as [number, number],
-            omit: chapterToSplit.omit.filter(idx => idx < roundIndex)
+            omit: chapterToSplit.omit.filter(isBeforeSplit)
           };
 
           const secondChapter: Chapter = {
             roundsRange: [roundIndex, end] as [number, number],
-            omit: chapterToSplit.omit.filter(idx => idx >= roundIndex),
+            omit: chapterToSplit.omit.filter(roundId => !isBeforeSplit(roundId)),
             summary: undefined,
             summaryStatus: undefined
           };
@@ -261,57 +905,162 @@ export const useStore = create<StoreState>()(
           // Insert the second chapter after the first one
           newChapters.splice(chapterIndex + 1, 0, secondChapter);
 
-          return { chapters: newChapters };
+          return {
+            chapters: newChapters,
+            ...recordHistory(state, `Split chapter ${chapterIndex + 1} at round ${roundIndex}`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, newChapters)
+          };
         }),
 
-        omitRound: (chapterIndex, roundIndex, omit) => set((state) => {
+        omitRound: (chapterIndex, roundId, omit) => set((state) => {
           const newChapters = [...state.chapters];
           const chapter = { ...newChapters[chapterIndex] };
 
           if (omit) {
-            // Add roundIndex to omit array if not already there
-            if (!chapter.omit.includes(roundIndex)) {
-              chapter.omit = [...chapter.omit, roundIndex];
+            // Add the round to omit array if not already there
+            if (!chapter.omit.includes(roundId)) {
+              chapter.omit = [...chapter.omit, roundId];
             }
           } else {
-            // Remove roundIndex from omit array
-            chapter.omit = chapter.omit.filter(idx => idx !== roundIndex);
+            // Remove the round from omit array
+            chapter.omit = chapter.omit.filter(id => id !== roundId);
           }
 
           newChapters[chapterIndex] = chapter;
 
-          // Update the corresponding round's summary status to reflect it's omitted
-          // This will help with visual indication in the UI
-          const newRounds = [...state.rounds];
-          const roundToUpdate = newRounds.find(round => round.roundIndex === roundIndex);
-
-          if (roundToUpdate) {
-            // If omitted, mark round with a special status (or use existing status)
-            // This is purely for UI indication and doesn't affect actual summarization
-            const updatedRound = {
-              ...roundToUpdate,
-              // Optional: Add a flag to indicate this round is omitted from processing
-              // We could add a new property like `isOmitted` but using the chapter.omit array is cleaner
-            };
+          // Omitting only changes the chapter; the round itself is left as it is
+          const roundIndex = state.rounds.find(round => round.id === roundId)?.roundIndex;
+          return {
+            chapters: newChapters,
+            ...recordHistory(state, `${omit ? 'Omit' : 'Include'} round ${roundIndex ?? roundId}`)
+          };
+        }),
 
-            // Update the round in the array
-            const roundIdx = newRounds.findIndex(r => r.roundIndex === roundIndex);
-            if (roundIdx !== -1) {
-              newRounds[roundIdx] = updatedRound;
-            }
+        mergeChapters: (chapterIndex) => set((state) => {
+          const first = state.chapters[chapterIndex];
+          const second = state.chapters[chapterIndex + 1];
+          if (!first || !second) return state;
+
+          // The merged chapter needs a new summary
+          const merged: Chapter = {
+            roundsRange: [first.roundsRange[0], second.roundsRange[1]],
+            omit: [...first.omit, ...second.omit]
+          };
+          const newChapters = [...state.chapters];
+          newChapters.splice(chapterIndex, 2, merged);
+
+          // Queued summaries of the merged chapters are dropped, later chapters move up one
+          return {
+            chapters: newChapters,
+            ...recordHistory(state, `Merge chapters ${chapterIndex + 1} and ${chapterIndex + 2}`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, newChapters)
+          };
+        }),
+
+        moveChapterBoundary: (chapterIndex, roundIndex) => set((state) => {
+          const current = state.chapters[chapterIndex];
+          const next = state.chapters[chapterIndex + 1];
+          // Both chapters keep at least one round, and the boundary has to move
+          if (!current || !next || roundIndex <= current.roundsRange[0] || roundIndex > next.roundsRange[1]
+            || roundIndex === next.roundsRange[0]) {
+            return state;
           }
 
+          // Omitted rounds go with the chapter that now holds them
+          const positions = getRoundPositions(state.rounds);
+          const omitted = [...current.omit, ...next.omit];
+          const isBeforeBoundary = (roundId: string) => (positions.get(roundId) ?? -1) < roundIndex;
+
+          // Both chapters need new summaries
+          const newChapters = [...state.chapters];
+          newChapters[chapterIndex] = {
+            roundsRange: [current.roundsRange[0], roundIndex - 1],
+            omit: omitted.filter(isBeforeBoundary)
+          };
+          newChapters[chapterIndex + 1] = {
+            roundsRange: [roundIndex, next.roundsRange[1]],
+            omit: omitted.filter(roundId => !isBeforeBoundary(roundId))
+          };
+
           return {
             chapters: newChapters,
-            rounds: newRounds
+            ...recordHistory(state, `Move start of chapter ${chapterIndex + 2} to round ${roundIndex}`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, newChapters)
+          };
+        }),
+
+        // Rebuild chapters that don't tile the rounds
+        repairChapters: () => {
+          const state = useStore.getState();
+          const { chapters, changes } = repairChapterStructure(state.chapters, state.rounds);
+          if (changes.length === 0) return changes;
+
+          set({
+            chapters,
+            ...recordHistory(state, 'Repair chapters'),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, chapters)
+          });
+          return changes;
+        },
+
+        // Chapter Snapshot Actions
+        saveChapterSnapshot: (name) => set((state) => ({
+          chapterSnapshots: [
+            ...state.chapterSnapshots,
+            { id: `snapshot-${Date.now()}`, name, createdAt: new Date().toISOString(), chapters: state.chapters }
+          ]
+        })),
+
+        // Restoring is an undoable step; queued chapter summaries follow the chapters the snapshot leaves as they are
+        restoreChapterSnapshot: (snapshotId) => set((state) => {
+          const snapshot = state.chapterSnapshots.find(snapshot => snapshot.id === snapshotId);
+          if (!snapshot) return state;
+
+          return {
+            chapters: snapshot.chapters,
+            ...recordHistory(state, `Restore snapshot "${snapshot.name}"`),
+            chapterSummaryQueue: followChapters(state.chapterSummaryQueue, state.chapters, snapshot.chapters)
+          };
+        }),
+
+        deleteChapterSnapshot: (snapshotId) => set((state) => ({
+          chapterSnapshots: state.chapterSnapshots.filter(snapshot => snapshot.id !== snapshotId)
+        })),
+
+        // Undo/Redo Actions
+        undo: () => set((state) => {
+          const entry = state.history.past[state.history.past.length - 1];
+          if (!entry) return state;
+
+          const { restored, reverse } = restoreHistoryEntry(state, entry);
+          return {
+            ...restored,
+            history: {
+              past: state.history.past.slice(0, -1),
+              future: [...state.history.future, reverse]
+            }
+          };
+        }),
+
+        redo: () => set((state) => {
+          const entry = state.history.future[state.history.future.length - 1];
+          if (!entry) return state;
+
+          const { restored, reverse } = restoreHistoryEntry(state, entry);
+          return {
+            ...restored,
+            history: {
+              past: [...state.history.past, reverse],
+              future: state.history.future.slice(0, -1)
+            }
           };
         }),
 
         // Summarization Queue Actions
-        enqueueRoundSummary: (roundIndex) => set((state) => {
+        enqueueRoundSummary: (roundId) => set((state) => {
           // Check if round is already in queue
           const existingIndex = state.roundSummaryQueue.findIndex(
-            item => item.id === roundIndex && item.type === 'round'
+            item => item.id === roundId && item.type === 'round'
           );
 
           if (existingIndex === -1) {
@@ -319,7 +1068,7 @@ export const useStore = create<StoreState>()(
             return {
               roundSummaryQueue: [
                 ...state.roundSummaryQueue,
-                { id: roundIndex, type: 'round', status: 'pending' }
+                { id: roundId, type: 'round', status: 'pending' }
               ]
             };
           }
@@ -327,21 +1076,21 @@ export const useStore = create<StoreState>()(
           return state;
         }),
 
-        dequeueRoundSummary: (roundIndex) => set((state) => ({
+        dequeueRoundSummary: (roundId) => set((state) => ({
           roundSummaryQueue: state.roundSummaryQueue.filter(
-            item => !(item.id === roundIndex && item.type === 'round')
+            item => !(item.id === roundId && item.type === 'round')
           )
         })),
 
-        rerollRoundSummary: (roundIndex) => set((state) => {
+        rerollRoundSummary: (roundId) => set((state) => {
           const newQueue = [...state.roundSummaryQueue];
           const existingIndex = newQueue.findIndex(
-            item => item.id === roundIndex && item.type === 'round'
+            item => item.id === roundId && item.type === 'round'
           );
 
           // Update the round status to 'pending' in the rounds array
           const newRounds = [...state.rounds];
-          const roundToUpdateIndex = newRounds.findIndex(round => round.roundIndex === roundIndex);
+          const roundToUpdateIndex = newRounds.findIndex(round => round.id === roundId);
           if (roundToUpdateIndex !== -1) {
             newRounds[roundToUpdateIndex] = {
               ...newRounds[roundToUpdateIndex],
@@ -351,13 +1100,10 @@ export const useStore = create<StoreState>()(
 
           if (existingIndex !== -1) {
             // Remove from current position
-            const item = newQueue.splice(existingIndex, 1)[0];
-            // Add to the front of the queue
-            newQueue.unshift({ ...item, status: 'pending' });
-          } else {
-            // Add to the front if not in queue
-            newQueue.unshift({ id: roundIndex, type: 'round', status: 'pending' });
+            newQueue.splice(existingIndex, 1);
           }
+          // Add to the front of the queue, as a fresh request with no failed attempts
+          newQueue.unshift({ id: roundId, type: 'round', status: 'pending' });
 
           return {
             roundSummaryQueue: newQueue,
@@ -384,6 +1130,12 @@ export const useStore = create<StoreState>()(
           return state;
         }),
 
+        dequeueChapterSummary: (chapterIndex) => set((state) => ({
+          chapterSummaryQueue: state.chapterSummaryQueue.filter(
+            item => !(item.id === chapterIndex && item.type === 'chapter')
+          )
+        })),
+
         updateSummaryStatus: (id, type, status) => set((state) => {
           if (type === 'round') {
             return {
@@ -393,7 +1145,7 @@ export const useStore = create<StoreState>()(
                   : item
               ),
               rounds: state.rounds.map(round =>
-                round.roundIndex === id
+                round.id === id
                   ? { ...round, summaryStatus: status }
                   : round
               )
@@ -414,223 +1166,259 @@ export const useStore = create<StoreState>()(
           }
         }),
 
+        setSummaryQueueSettings: (settings) => set((state) => ({
+          summaryQueueSettings: { ...state.summaryQueueSettings, ...settings }
+        })),
+
+        // Pausing or cancelling aborts the affected requests in flight; see the queue subscription below
+        pauseQueue: () => set({ isQueuePaused: true }),
+
+        resumeQueue: () => {
+          set({ isQueuePaused: false, queueRecovery: null });
+          void useStore.getState().processRoundSummaryQueue();
+          void useStore.getState().processChapterSummaryQueue();
+        },
+
+        cancelQueue: () => set({ roundSummaryQueue: [], chapterSummaryQueue: [], queueRecovery: null }),
+
+        pauseChapter: (chapterIndex) => set((state) => setChapterPaused(state, chapterIndex, true)),
+
+        resumeChapter: (chapterIndex) => {
+          set((state) => setChapterPaused(state, chapterIndex, false));
+          void useStore.getState().processRoundSummaryQueue();
+          void useStore.getState().processChapterSummaryQueue();
+        },
+
+        cancelChapter: (chapterIndex) => set((state) => {
+          const roundIds = getChapterRoundIds(state, chapterIndex);
+          return {
+            roundSummaryQueue: state.roundSummaryQueue.filter(item => !roundIds.has(item.id)),
+            chapterSummaryQueue: state.chapterSummaryQueue.filter(item => item.id !== chapterIndex)
+          };
+        }),
+
+        // Items left in progress by a tab that closed mid-request go back to pending, with their
+        // partial summaries rolled back, and queued work is offered for resuming
+        recoverInterruptedQueue: () => set((state) => {
+          const isOrphaned = (item: SummaryQueueItem) => item.status === 'inProgress' &&
+            (item.type === 'round'
+              ? !activeRoundTasks.has(item.id as string)
+              : !activeChapterTasks.has(getChapterKey(state.chapters[item.id as number])));
+          const orphanedRounds = new Map(state.roundSummaryQueue.filter(isOrphaned).map(item => [item.id, item]));
+          const orphanedChapters = new Map(state.chapterSummaryQueue.filter(isOrphaned).map(item => [item.id, item]));
+          const interrupted = orphanedRounds.size + orphanedChapters.size;
+
+          const queued = [...state.roundSummaryQueue, ...state.chapterSummaryQueue]
+            .filter(item => item.status === 'pending' && !item.paused).length + interrupted;
+          const isIdle = activeRoundTasks.size === 0 && activeChapterTasks.size === 0;
+          const queueRecovery = queued > 0 && isIdle && !state.isQueuePaused ? { interrupted, queued } : state.queueRecovery;
+          if (interrupted === 0) return queueRecovery === state.queueRecovery ? state : { queueRecovery };
+
+          const requeue = <TId extends string | number>(item: SummaryQueueItem<TId>) =>
+            isOrphaned(item) ? { ...item, status: 'pending' as const } : item;
+          return {
+            roundSummaryQueue: state.roundSummaryQueue.map(requeue),
+            chapterSummaryQueue: state.chapterSummaryQueue.map(requeue),
+            rounds: state.rounds.map(round => {
+              const item = orphanedRounds.get(round.id);
+              return item ? { ...round, summary: item.previousSummary, summaryStatus: 'pending' as const } : round;
+            }),
+            chapters: state.chapters.map((chapter, chapterIndex) => {
+              const item = orphanedChapters.get(chapterIndex);
+              return item ? { ...chapter, summary: item.previousSummary, summaryStatus: 'pending' as const } : chapter;
+            }),
+            queueRecovery
+          };
+        }),
+
+        dismissQueueRecovery: () => set({ queueRecovery: null }),
+
         // Process Queue
+        // Starts as many queued rounds as the limits allow; each finished round starts the next
         processRoundSummaryQueue: async () => {
+          // Another tab owns the queue; it processes the items and this tab mirrors its progress.
+          // When no tab owns the queue, it runs here
+          const { isQueueOwner, activeProjectId } = useStore.getState();
+          if (!isQueueOwner && await requestQueueProcessing(activeProjectId)) {
+            return;
+          }
           const state = useStore.getState();
-          
-          // If queue is empty or already processing, don't proceed
-          if (state.roundSummaryQueue.length === 0 || state.isProcessingQueue) {
+
+          const roundIds = state.isQueuePaused ? [] : pickRoundsToStart(
+            state.roundSummaryQueue,
+            state.rounds,
+            state.chapters,
+            new Set(activeRoundTasks.keys()),
+            state.summaryQueueSettings
+          );
+
+          if (roundIds.length === 0) {
+            if (activeRoundTasks.size === 0 && activeChapterTasks.size === 0 && state.isProcessingQueue) {
+              set({ isProcessingQueue: false });
+            }
             return;
           }
-          
-          // Set processing flag
+
           set({ isProcessingQueue: true });
-          
-          try {
-            // Get the first item in the queue (highest priority)
-            const queueItem = state.roundSummaryQueue[0];
-            
-            if (queueItem.type !== 'round') {
-              // Skip non-round items (would be handled by a different processor)
-              return;
-            }
-            
-            const roundIndex = queueItem.id;
-            
-            // Get the round
-            const round = state.rounds.find(r => r.roundIndex === roundIndex);
-            
-            if (!round) {
-              console.error(`Round with index ${roundIndex} not found in rounds array`);
-              // Remove from queue and continue
-              set((state) => ({
-                roundSummaryQueue: state.roundSummaryQueue.filter((_, i) => i !== 0),
-                isProcessingQueue: false
-              }));
-              return;
-            }
-            
-            // Extract roundContent
-            let roundContent = round.rawContent;
-            if (!roundContent) {
-              // Get processed content from store
-              const processedContent = state.processedContent;
-              if (!processedContent) {
-                console.error('No processed content available in store');
-                return;
-              }
-              
-              // Extract the content for this round from the processed content
-              const lines = processedContent.split('\n');
-              roundContent = lines.slice(round.startLine, round.endLine + 1).join('\n');
-              
-              // Update the round with the raw content
-              if (roundContent) {
-                // Extract user and dungeon master content
-                const { userContent, dmContent } = extractBlocks(roundContent);
-                
-                // Update the round in the store
-                state.updateRound(roundIndex, {
-                  rawContent: roundContent,
-                  userText: userContent,
-                  dmText: dmContent
-                });
-              } else {
-                console.error(`Could not extract content for round ${roundIndex}`);
-                // Update queue item status to failed
-                set((state) => {
-                  const newQueue = [...state.roundSummaryQueue];
-                  newQueue.shift(); // Remove the first item (current)
-                  return {
-                    roundSummaryQueue: newQueue,
-                    isProcessingQueue: false
-                  };
-                });
-                return;
-              }
-            }
-            
-            // Extract DM content from the raw content
-            const { dmContent } = extractBlocks(roundContent);
-            if (!dmContent) {
-              console.error("No dungeon master content found in the round");
-              // Update queue item status to failed
-              set((state) => {
-                const newQueue = [...state.roundSummaryQueue];
-                newQueue.shift(); // Remove the first item (current)
-                return {
-                  roundSummaryQueue: newQueue,
-                  isProcessingQueue: false
-                };
-              });
-              return;
-            }
-            
-            // Update round status to inProgress
-            state.updateRound(roundIndex, { summaryStatus: 'inProgress' });
-            
-            // Prepare the prompt by replacing the placeholder
-            const prompt = roundPrompt.replace("[[narrative-excerpt]]", dmContent);
-            
-            // Call the API
-            const response = await fetch('http://localhost:4000/generate', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ prompt, model: 'gpt-4o-mini' }),
-            });
-
-            if (!response.ok) {
-              throw new Error(`Server error: ${response.status}`);
+          await Promise.all(roundIds.map(async (roundId) => {
+            const controller = new AbortController();
+            activeRoundTasks.set(roundId, controller);
+            try {
+              await summarizeRound(roundId, controller.signal);
+            } finally {
+              activeRoundTasks.delete(roundId);
             }
 
-            // Handle streaming response
-            const reader = response.body?.getReader();
-            if (!reader) {
-              throw new Error('Failed to get response stream reader');
-            }
+            // Fill the freed slot, without waiting for the rest of the queue
+            void useStore.getState().processRoundSummaryQueue();
+          }));
+        },
 
-            
-            const decoder = new TextDecoder();
-            let done = false;
-            let summary = '';
-            state.updateRound(roundIndex, { summary: '', summaryStatus: 'inProgress' });
-            while (!done) {
-              const { value, done: doneReading } = await reader.read();
-              done = doneReading;
-
-              if (value) {
-                const text = decoder.decode(value, { stream: !done });
-                summary += text;
-                
-                // Update the summary as it comes in
-                state.updateRound(roundIndex, { 
-                  summary: summary.trim(),
-                  summaryStatus: 'inProgress'
-                });
-              }
-            }
+        // Outlines queued chapters one at a time, alongside the round summaries
+        processChapterSummaryQueue: async () => {
+          // Another tab owns the queue; it processes the items and this tab mirrors its progress.
+          // When no tab owns the queue, it runs here
+          const { isQueueOwner, activeProjectId } = useStore.getState();
+          if (!isQueueOwner && await requestQueueProcessing(activeProjectId)) {
+            return;
+          }
+          const state = useStore.getState();
 
-            // Update with completed status
-            state.updateRound(roundIndex, { 
-              summary: summary.trim(),
-              summaryStatus: 'completed'
-            });
-            
-            // Update queue - remove the processed item
-            set((state) => {
-              const newQueue = [...state.roundSummaryQueue];
-              newQueue.shift(); // Remove the first item (current)
-              
-              // Continue processing if there are more items
-              if (newQueue.length > 0) {
-                requestAnimationFrame(() => {
-                  useStore.getState().processRoundSummaryQueue();
-                });
-              }
-              
-              return {
-                roundSummaryQueue: newQueue,
-                isProcessingQueue: false
-              };
-            });
-            
-          } catch (error) {
-            console.error('Error processing queue:', error);
-            
-            // Get the current queue item
-            const state = useStore.getState();
-            const currentItem = state.roundSummaryQueue[0];
-            
-            if (currentItem && currentItem.type === 'round') {
-              // Update the round status to failed
-              state.updateRound(currentItem.id, { summaryStatus: 'failed' });
+          const now = Date.now();
+          const item = state.chapterSummaryQueue.find(item =>
+            item.type === 'chapter' && item.status === 'pending' && !item.paused && (!item.retryAt || item.retryAt <= now)
+          );
+
+          if (state.isQueuePaused || activeChapterTasks.size > 0 || !item) {
+            if (activeRoundTasks.size === 0 && activeChapterTasks.size === 0 && state.isProcessingQueue) {
+              set({ isProcessingQueue: false });
             }
-            
-            // Remove failed item and reset processing flag
-            set((state) => {
-              const newQueue = [...state.roundSummaryQueue];
-              newQueue.shift(); // Remove the failed item
-              
-              // Continue processing if there are more items
-              if (newQueue.length > 0) {
-                requestAnimationFrame(() => {
-                  useStore.getState().processRoundSummaryQueue();
-                });
-              }
-              
-              
-              return {
-                roundSummaryQueue: newQueue,
-                isProcessingQueue: false
-              };
-            });
+            return;
+          }
+
+          set({ isProcessingQueue: true });
+          const controller = new AbortController();
+          const chapterKey = getChapterKey(state.chapters[item.id]);
+          activeChapterTasks.set(chapterKey, controller);
+
+          try {
+            await summarizeChapter(item.id, controller.signal);
+          } finally {
+            activeChapterTasks.delete(chapterKey);
           }
+
+          // Continue with the next chapter, without waiting for the rest of the queue
+          void useStore.getState().processChapterSummaryQueue();
         },
         
         // Reset Store
         resetStore: () => set({
           rawFileContent: null,
           processedContent: null,
+          sourceMap: null,
           rounds: [],
           chapters: [],
+          chapterSnapshots: [],
+          history: { past: [], future: [] },
           roundSummaryQueue: [],
           chapterSummaryQueue: [],
-          isProcessingQueue: false
+          isProcessingQueue: false,
+          isQueuePaused: false,
+          queueRecovery: null
         }),
       }),
       {
-        name: 'story-sync-storage', // Name for the localStorage key
-        partialize: (state) => ({
+        name: 'story-sync-storage', // localStorage key the project was saved under before IndexedDB
+        storage: createProjectStorage(),
+        version: STORE_VERSION,
+        migrate: migratePersistedState,
+        // Stored state is validated whether or not it needed migrating, and nothing is saved
+        // until it passes. Only the user's own and edited marker profiles are stored; the
+        // built-in ones come from the app
+        merge: (persisted, current) => {
+          const state = persisted === undefined ? {} : validatePersistedState(persisted);
+          allowSaves();
+          return { ...current, ...state, markerProfiles: mergeWithBuiltInProfiles(state.markerProfiles ?? []) };
+        },
+        onRehydrateStorage: () => (state, error) => {
+          if (error) void reportRehydrateError(error);
+          else if (state?.isQueueOwner) state.recoverInterruptedQueue();
+        },
+        partialize: (state): PersistedState => ({
           // Only persist these parts of the state
+          projects: state.projects,
+          activeProjectId: state.activeProjectId,
           rawFileContent: state.rawFileContent,
           processedContent: state.processedContent,
+          sourceMap: state.sourceMap,
+          markerProfiles: getSavedMarkerProfiles(state.markerProfiles),
+          selectedMarkerProfileId: state.selectedMarkerProfileId,
           rounds: state.rounds,
           chapters: state.chapters,
+          chapterGrouping: state.chapterGrouping,
+          chapterSnapshots: state.chapterSnapshots,
+          history: state.history,
           roundSummaryQueue: state.roundSummaryQueue,
           chapterSummaryQueue: state.chapterSummaryQueue,
+          summaryQueueSettings: state.summaryQueueSettings,
         }),
       }
     ),
     { name: 'story-sync-store' }
   )
-); 
\ No newline at end of file
+);
+
+// Re-check the chapters after every change to them or to the rounds, including rehydration and project switches
+useStore.subscribe((state, previous) => {
+  if (state.chapters === previous.chapters && state.rounds === previous.rounds) return;
+
+  const chapterIssues = checkChapters(state.chapters, state.rounds);
+  if (chapterIssues.length > 0 || state.chapterIssues.length > 0) {
+    useStore.setState({ chapterIssues });
+  }
+});
+
+// Abort the requests for items that were paused or taken off the queue, including by another tab,
+// and outlines of chapters that changed
+useStore.subscribe((state, previous) => {
+  if (
+    state.isQueuePaused === previous.isQueuePaused &&
+    state.roundSummaryQueue === previous.roundSummaryQueue &&
+    state.chapterSummaryQueue === previous.chapterSummaryQueue
+  ) return;
+
+  const isStopped = (item: SummaryQueueItem | undefined) => state.isQueuePaused || !item || item.paused;
+  activeRoundTasks.forEach((controller, roundId) => {
+    if (isStopped(state.roundSummaryQueue.find(item => item.id === roundId))) controller.abort();
+  });
+  activeChapterTasks.forEach((controller, chapterKey) => {
+    const chapterIndex = state.chapters.findIndex(chapter => getChapterKey(chapter) === chapterKey);
+    if (isStopped(state.chapterSummaryQueue.find(item => item.id === chapterIndex))) controller.abort();
+  });
+});
+
+// Recover the queue when this tab takes it over or opens another project, as well as after rehydration
+useStore.subscribe((state, previous) => {
+  if (state.isQueueOwner && (!previous.isQueueOwner || state.activeProjectId !== previous.activeProjectId)) {
+    state.recoverInterruptedQueue();
+  }
+});
+
+startTabSync(useStore);
+
+// Sets aside the whole database when stored data fails to load. Saves stay off until the
+// user dismisses the issue, so the app starts fresh without overwriting any stored project
+async function reportRehydrateError(error: unknown) {
+  console.error('Error loading saved project:', error);
+  const message = error instanceof Error ? error.message : String(error);
+  const version = error instanceof PersistedStateError ? error.version : STORE_VERSION;
+
+  let backupId: number | null = null;
+  try {
+    backupId = await quarantineData(await readDatabase(), version, message);
+  } catch (quarantineError) {
+    console.error('Error keeping a backup of the saved projects:', quarantineError);
+  }
+
+  useStore.setState({ storageIssue: { message, backupId } });
+}
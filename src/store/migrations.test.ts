@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { migratePersistedState, PersistedStateError, STORE_VERSION, validatePersistedState } from './migrations';
+import { parseContentIntoRounds, transformContent } from '@/utils/content-transformation';
+import { builtInMarkerProfiles } from '@/data/marker-profiles';
+
+const processedContent = transformContent('You said:\nLook around\nChatGPT said:\nA cave\nYou said:\nGo deeper\nChatGPT said:\nA chasm');
+// Rounds as saved before they had IDs
+const roundsWithoutIds = parseContentIntoRounds(processedContent).map(round => ({ ...round, id: undefined }));
+
+describe('migratePersistedState', () => {
+    it('should rename chapters in the export schema to roundsRange', () => {
+        const migrated = migratePersistedState({
+            chapters: [{ rounds: [0, 4], omit: [] }, { rounds: [5, 9] }],
+            history: { past: [{ label: 'Split', chapters: [{ rounds: [0, 9], omit: [] }], rounds: [] }], future: [] }
+        }, 0);
+
+        expect(migrated.chapters).toEqual([
+            { roundsRange: [0, 4], omit: [] },
+            { roundsRange: [5, 9], omit: [] }
+        ]);
+        expect(migrated.history.past[0].chapters).toEqual([{ roundsRange: [0, 9], omit: [] }]);
+        expect(() => validatePersistedState(migrated)).not.toThrow();
+    });
+
+    it('should give rounds IDs and point omits and queued round summaries at them', () => {
+        const migrated = migratePersistedState({
+            processedContent,
+            rounds: roundsWithoutIds,
+            chapters: [{ roundsRange: [0, 1], omit: [1] }],
+            history: { past: [{ label: 'Omit round 1', chapters: [{ roundsRange: [0, 1], omit: [] }], rounds: [roundsWithoutIds[1]] }], future: [] },
+            roundSummaryQueue: [{ id: 0, type: 'round', status: 'pending' }, { id: 7, type: 'round', status: 'pending' }]
+        }, 1);
+        const ids = parseContentIntoRounds(processedContent).map(round => round.id);
+
+        expect(migrated.rounds.map(round => round.id)).toEqual(ids);
+        expect(migrated.chapters[0].omit).toEqual([ids[1]]);
+        expect(migrated.roundSummaryQueue).toEqual([{ id: ids[0], type: 'round', status: 'pending' }]);
+        expect(() => validatePersistedState(migrated)).not.toThrow();
+    });
+
+    it('should give queue settings a retry limit', () => {
+        const migrated = migratePersistedState({ summaryQueueSettings: { maxConcurrentChapters: 2, maxConcurrentRounds: 1 } }, 2);
+
+        expect(migrated.summaryQueueSettings).toEqual({ maxConcurrentChapters: 2, maxConcurrentRounds: 1, maxRetries: 3 });
+        expect(() => validatePersistedState(migrated)).not.toThrow();
+    });
+
+    it('should drop saved copies of the built-in marker profiles and keep edited ones', () => {
+        const [unedited, builtIn] = builtInMarkerProfiles;
+        const edited = { ...builtIn, dmMarkers: ['^\\s*ai:'] };
+        const custom = { id: 'profile-1', name: 'Mine', userMarkers: ['me:'], dmMarkers: ['gm:'], dropLinePatterns: [], whitespace: 'preserve' };
+        const migrated = migratePersistedState({ markerProfiles: [{ ...unedited }, edited, custom] }, 3);
+
+        expect(migrated.markerProfiles).toEqual([edited, custom]);
+        expect(() => validatePersistedState(migrated)).not.toThrow();
+    });
+
+    it('should drop rounds from history steps', () => {
+        const migrated = migratePersistedState({
+            history: { past: [{ label: 'Omit round 1', chapters: [{ roundsRange: [0, 1], omit: [] }], rounds: [] }], future: [] }
+        }, 4);
+
+        expect(migrated.history).toEqual({ past: [{ label: 'Omit round 1', chapters: [{ roundsRange: [0, 1], omit: [] }] }], future: [] });
+        expect(() => validatePersistedState(migrated)).not.toThrow();
+    });
+
+    it('should refuse rounds saved without their transcript', () => {
+        expect(() => migratePersistedState({ rounds: roundsWithoutIds, chapters: [] }, 1)).toThrow(PersistedStateError);
+    });
+
+    it('should refuse state saved by a newer version', () => {
+        expect(() => migratePersistedState({ chapters: [] }, STORE_VERSION + 1)).toThrow(PersistedStateError);
+    });
+});
+
+describe('validatePersistedState', () => {
+    it('should return valid state as it was', () => {
+        const state = { rounds: [{ id: 'r-1', roundIndex: 0, startLine: 0, endLine: 3, lineCount: 4 }], chapters: [] };
+
+        expect(validatePersistedState(state)).toBe(state);
+    });
+
+    it('should carry the data of invalid state in the error', () => {
+        const state = { chapters: [{ roundsRange: 'all of them', omit: [] }] };
+
+        try {
+            validatePersistedState(state);
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(PersistedStateError);
+            expect((error as PersistedStateError).data).toBe(state);
+            expect((error as PersistedStateError).message).toContain('chapters.0.roundsRange');
+        }
+    });
+});
@@ -0,0 +1,235 @@
+/**
+ * Versioned persistence of the store.
+ * Every change to the persisted shape bumps `STORE_VERSION` and adds a
+ * migration from the previous version. Rehydrated state is validated before
+ * it reaches the store, so data the app can't read is reported instead of
+ * breaking it.
+ */
+import { z } from 'zod';
+import { assignRoundIds } from '@/utils/round-id';
+import type { MarkerProfile } from '@/utils/content-transformation';
+import { getSavedMarkerProfiles } from '@/data/marker-profiles';
+import type { PersistedState } from './index';
+
+export const STORE_VERSION = 5;
+
+const summaryStatusSchema = z.enum(['pending', 'inProgress', 'completed', 'failed']);
+
+const roundSchema = z.object({
+  id: z.string(),
+  roundIndex: z.number().int().nonnegative(),
+  startLine: z.number().int().nonnegative(),
+  endLine: z.number().int().nonnegative(),
+  lineCount: z.number().int().nonnegative(),
+  tokenCount: z.number().optional(),
+  session: z.object({ index: z.number().int(), date: z.string() }).optional(),
+  sourceFile: z.string().optional(),
+  summary: z.string().optional(),
+  summaryStatus: summaryStatusSchema.optional(),
+  lastError: z.string().optional(),
+  textChanged: z.boolean().optional(),
+  userText: z.string().optional(),
+  dmText: z.string().optional(),
+  rawContent: z.string().optional()
+}).passthrough();
+
+const chapterSchema = z.object({
+  roundsRange: z.tuple([z.number().int(), z.number().int()]),
+  omit: z.array(z.string()),
+  summary: z.string().optional(),
+  summaryStatus: summaryStatusSchema.optional(),
+  lastError: z.string().optional()
+}).passthrough();
+
+const queueItemSchema = z.object({
+  id: z.union([z.string(), z.number().int()]),
+  type: z.enum(['round', 'chapter']),
+  status: summaryStatusSchema,
+  attempts: z.number().int().nonnegative().optional(),
+  retryAt: z.number().optional(),
+  paused: z.boolean().optional(),
+  previousSummary: z.string().optional()
+}).passthrough();
+
+const historyEntrySchema = z.object({
+  label: z.string(),
+  chapters: z.array(chapterSchema)
+});
+
+// Keys missing from stored state fall back to the store's initial values
+const persistedStateSchema = z.object({
+  projects: z.array(z.object({ id: z.string(), name: z.string(), createdAt: z.string() }).passthrough()).min(1),
+  activeProjectId: z.string(),
+  rawFileContent: z.string().nullable(),
+  processedContent: z.string().nullable(),
+  sourceMap: z.array(z.number().int()).nullable(),
+  markerProfiles: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()),
+  selectedMarkerProfileId: z.string(),
+  rounds: z.array(roundSchema),
+  chapters: z.array(chapterSchema),
+  chapterGrouping: z.object({
+    mode: z.enum(['lines', 'tokens']),
+    strategy: z.enum(['size', 'scene-breaks']),
+    modelId: z.string(),
+    contextTokens: z.number().positive(),
+    reservedOutputTokens: z.number().nonnegative()
+  }),
+  chapterSnapshots: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    createdAt: z.string(),
+    chapters: z.array(chapterSchema)
+  })),
+  history: z.object({ past: z.array(historyEntrySchema), future: z.array(historyEntrySchema) }),
+  roundSummaryQueue: z.array(queueItemSchema),
+  chapterSummaryQueue: z.array(queueItemSchema),
+  summaryQueueSettings: z.object({
+    maxConcurrentChapters: z.number().int().positive(),
+    maxConcurrentRounds: z.number().int().positive(),
+    maxRetries: z.number().int().nonnegative()
+  })
+}).partial().passthrough();
+
+/**
+ * Stored state that couldn't be migrated or failed validation. Carries the
+ * data so it can be set aside and offered as a backup.
+ */
+export class PersistedStateError extends Error {
+  readonly data: unknown;
+  readonly version: number;
+
+  constructor(message: string, data: unknown, version: number) {
+    super(message);
+    this.name = 'PersistedStateError';
+    this.data = data;
+    this.version = version;
+  }
+}
+
+type StoredState = Record<string, unknown>;
+
+// Chapters in the exported configuration shape, `{ rounds: [start, end], omit }`, use `roundsRange` in the store
+const normalizeChapters = (chapters: unknown) => Array.isArray(chapters)
+  ? chapters.map(({ rounds, ...chapter }) => ({
+    ...chapter,
+    roundsRange: chapter.roundsRange ?? rounds,
+    omit: chapter.omit ?? []
+  }))
+  : chapters;
+
+// migrations[n] upgrades state saved at version n to version n + 1
+const migrations: ((state: StoredState) => StoredState)[] = [
+  // 0 → 1: unversioned state; chapters may use the export schema's `rounds` and lack `omit`
+  (state) => {
+    const history = state.history as { past?: StoredState[]; future?: StoredState[] } | undefined;
+    const normalizeEntries = (entries?: StoredState[]) =>
+      entries?.map(entry => ({ ...entry, chapters: normalizeChapters(entry.chapters) }));
+
+    return {
+      ...state,
+      chapters: normalizeChapters(state.chapters),
+      ...(history ? { history: { past: normalizeEntries(history.past), future: normalizeEntries(history.future) } } : {})
+    };
+  },
+
+  // 1 → 2: rounds get content-hash IDs, and omits and queued round summaries refer to them instead of round indices
+  (state) => {
+    const storedRounds = (state.rounds ?? []) as StoredState[];
+    if (storedRounds.length > 0 && typeof state.processedContent !== 'string') {
+      throw new Error('rounds were saved without the transcript they came from');
+    }
+
+    const rounds = assignRoundIds(
+      storedRounds as unknown as { startLine: number; endLine: number }[],
+      ((state.processedContent as string | null) ?? '').split('\n')
+    );
+    const idByIndex = new Map(rounds.map(round => [(round as unknown as StoredState).roundIndex, round.id]));
+    const toIds = (indices: unknown) => Array.isArray(indices)
+      ? indices.map(index => idByIndex.get(index)).filter((id): id is string => id !== undefined)
+      : indices;
+    const withIds = (chapters: unknown) => Array.isArray(chapters)
+      ? chapters.map(chapter => ({ ...chapter, omit: toIds(chapter.omit) }))
+      : chapters;
+
+    const history = state.history as { past?: StoredState[]; future?: StoredState[] } | undefined;
+    // History only holds rounds that are still in the transcript, under the same index
+    const migrateEntries = (entries?: StoredState[]) => entries?.map(entry => ({
+      ...entry,
+      chapters: withIds(entry.chapters),
+      rounds: Array.isArray(entry.rounds)
+        ? entry.rounds.map(round => ({ ...round, id: idByIndex.get(round.roundIndex) }))
+        : entry.rounds
+    }));
+    const roundQueue = state.roundSummaryQueue as StoredState[] | undefined;
+
+    return {
+      ...state,
+      ...(state.rounds ? { rounds } : {}),
+      chapters: withIds(state.chapters),
+      ...(history ? { history: { past: migrateEntries(history.past), future: migrateEntries(history.future) } } : {}),
+      ...(roundQueue ? {
+        roundSummaryQueue: roundQueue
+          .filter(item => idByIndex.has(item.id))
+          .map(item => ({ ...item, id: idByIndex.get(item.id) }))
+      } : {})
+    };
+  },
+
+  // 2 → 3: queue settings gain a retry limit
+  (state) => {
+    const settings = state.summaryQueueSettings as StoredState | undefined;
+    return settings ? { ...state, summaryQueueSettings: { maxRetries: 3, ...settings } } : state;
+  },
+
+  // 3 → 4: built-in marker profiles are no longer saved unless edited. Stored copies that match
+  // the shipped definition are dropped; edited ones are kept to override it
+  (state) => {
+    const profiles = state.markerProfiles as MarkerProfile[] | undefined;
+    return profiles ? { ...state, markerProfiles: getSavedMarkerProfiles(profiles) } : state;
+  },
+
+  // 4 → 5: history steps no longer hold rounds, as only chapters are undone
+  (state) => {
+    const history = state.history as { past?: StoredState[]; future?: StoredState[] } | undefined;
+    const dropRounds = (entries?: StoredState[]) =>
+      entries?.map(entry => Object.fromEntries(Object.entries(entry).filter(([key]) => key !== 'rounds')));
+    return history ? { ...state, history: { past: dropRounds(history.past), future: dropRounds(history.future) } } : state;
+  }
+];
+
+/**
+ * Runs the migrations from the stored version up to `STORE_VERSION`.
+ */
+export function migratePersistedState(persisted: unknown, version: number): PersistedState {
+  if (version > STORE_VERSION) {
+    throw new PersistedStateError(`Saved by a newer version of the app (schema ${version}, this app reads up to ${STORE_VERSION})`, persisted, version);
+  }
+
+  let state = persisted as StoredState;
+  for (let from = version; from < STORE_VERSION; from++) {
+    try {
+      state = migrations[from](state);
+    } catch (error) {
+      throw new PersistedStateError(`Migration from schema ${from} failed: ${(error as Error).message}`, persisted, version);
+    }
+  }
+
+  return state as unknown as PersistedState;
+}
+
+/**
+ * Checks rehydrated state against the current schema. Valid state is returned
+ * as it was, so unchanged rounds and chapters keep their identity.
+ */
+export function validatePersistedState(persisted: unknown): Partial<PersistedState> {
+  const result = persistedStateSchema.safeParse(persisted);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || 'state'}: ${issue.message}`)
+      .join('; ');
+    throw new PersistedStateError(`Saved data doesn't match the current schema (${issues})`, persisted, STORE_VERSION);
+  }
+
+  return persisted as Partial<PersistedState>;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useStore } from './index';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(2, 6);
+
+describe('projects', () => {
+    beforeEach(() => {
+        useStore.getState().resetStore();
+        useStore.getState().setRounds(rounds);
+        useStore.getState().setChapterGrouping({ mode: 'tokens' });
+    });
+
+    it('should start a new empty project that keeps the grouping settings', () => {
+        const previousProjectId = useStore.getState().activeProjectId;
+
+        useStore.getState().createProject('Second campaign');
+
+        const state = useStore.getState();
+        expect(state.activeProjectId).not.toBe(previousProjectId);
+        expect(state.projects.find(project => project.id === state.activeProjectId)?.name).toBe('Second campaign');
+        expect(state.rounds).toEqual([]);
+        expect(state.chapterGrouping.mode).toBe('tokens');
+    });
+
+    it('should rename a project', () => {
+        const { activeProjectId } = useStore.getState();
+
+        useStore.getState().renameProject(activeProjectId, 'Curse of Strahd');
+
+        expect(useStore.getState().projects.find(project => project.id === activeProjectId)?.name).toBe('Curse of Strahd');
+    });
+
+    it('should keep the last project', async () => {
+        const { projects } = useStore.getState();
+        for (const project of projects.slice(1)) {
+            useStore.setState(state => ({ projects: state.projects.filter(({ id }) => id !== project.id) }));
+        }
+
+        await useStore.getState().deleteProject(useStore.getState().projects[0].id);
+
+        expect(useStore.getState().projects).toHaveLength(1);
+    });
+});
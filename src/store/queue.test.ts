@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useStore } from './index';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(6, 2, roundIndex => ({
+    rawContent: `<user>Look around</user>\n<dungeon_master>Scene ${roundIndex}</dungeon_master>`
+}));
+
+// Requests the server hasn't answered yet, by the round their prompt is for
+let requests: { scene: string; respond: (status?: number) => void }[] = [];
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Answers every request, including those for rounds started as others finish
+const drainQueue = async () => {
+    while (useStore.getState().roundSummaryQueue.length > 0) {
+        requests.splice(0).forEach(request => request.respond());
+        await settle();
+    }
+    await settle();
+};
+
+describe('round summary queue', () => {
+    beforeEach(() => {
+        requests = [];
+        vi.stubGlobal('fetch', (_url: string, init: RequestInit) => new Promise<Response>((resolve, reject) => {
+            const scene = String(init.body).match(/Scene \d/)![0];
+            const request = {
+                scene,
+                respond: (status = 200) => resolve(new Response(status === 200 ? `Summary of ${scene}` : null, { status }))
+            };
+            requests.push(request);
+            init.signal?.addEventListener('abort', () => {
+                requests = requests.filter(pending => pending !== request);
+                reject(new DOMException('The request was aborted', 'AbortError'));
+            });
+        }));
+
+        useStore.getState().resetStore();
+        useStore.getState().setRounds(rounds);
+        useStore.getState().setChapters([{ roundsRange: [0, 2], omit: [] }, { roundsRange: [3, 5], omit: [] }]);
+        useStore.getState().setSummaryQueueSettings({ maxConcurrentChapters: 2, maxConcurrentRounds: 2 });
+        rounds.forEach(round => useStore.getState().enqueueRoundSummary(round.id));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should summarize rounds from several chapters at once, within the limits', async () => {
+        void useStore.getState().processRoundSummaryQueue();
+        await settle();
+
+        expect(requests.map(request => request.scene)).toEqual(['Scene 0', 'Scene 3', 'Scene 1', 'Scene 4']);
+        expect(useStore.getState().roundSummaryQueue.filter(item => item.status === 'inProgress')).toHaveLength(4);
+
+        // A finished round frees its slot for the next round of the same chapter
+        requests.shift()!.respond();
+        await settle();
+
+        expect(useStore.getState().rounds[0]).toMatchObject({ summary: 'Summary of Scene 0', summaryStatus: 'completed' });
+        expect(requests.map(request => request.scene)).toEqual(['Scene 3', 'Scene 1', 'Scene 4', 'Scene 2']);
+
+        await drainQueue();
+    });
+
+    it('should stop processing once the queue is empty', async () => {
+        void useStore.getState().processRoundSummaryQueue();
+        await drainQueue();
+
+        expect(useStore.getState().rounds.every(round => round.summaryStatus === 'completed')).toBe(true);
+        expect(useStore.getState().isProcessingQueue).toBe(false);
+    });
+
+    describe('failed requests', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+            useStore.getState().setSummaryQueueSettings({ maxConcurrentChapters: 1, maxConcurrentRounds: 1, maxRetries: 1 });
+            rounds.slice(2).forEach(round => useStore.getState().dequeueRoundSummary(round.id));
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should retry a server error after a delay and record why it failed', async () => {
+            void useStore.getState().processRoundSummaryQueue();
+            await vi.advanceTimersByTimeAsync(0);
+            requests.shift()!.respond(503);
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(useStore.getState().roundSummaryQueue[0]).toMatchObject({ id: 'r-0', status: 'pending', attempts: 1 });
+            expect(useStore.getState().rounds[0]).toMatchObject({ summaryStatus: 'pending', lastError: 'Server error: 503' });
+            expect(requests.map(request => request.scene)).toEqual(['Scene 1']);
+
+            requests.shift()!.respond();
+            await vi.advanceTimersByTimeAsync(2000);
+            expect(requests.map(request => request.scene)).toEqual(['Scene 0']);
+
+            requests.shift()!.respond();
+            await vi.advanceTimersByTimeAsync(0);
+            expect(useStore.getState().rounds[0]).toMatchObject({ summary: 'Summary of Scene 0', summaryStatus: 'completed' });
+            expect(useStore.getState().rounds[0].lastError).toBeUndefined();
+        });
+
+        it('should give up once the retries are used, and at once on a bad request', async () => {
+            void useStore.getState().processRoundSummaryQueue();
+            await vi.advanceTimersByTimeAsync(0);
+            requests.shift()!.respond(400);
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(useStore.getState().rounds[0]).toMatchObject({ summaryStatus: 'failed', lastError: 'Server error: 400' });
+            expect(useStore.getState().roundSummaryQueue.map(item => item.id)).not.toContain('r-0');
+
+            requests.shift()!.respond(429);
+            await vi.advanceTimersByTimeAsync(2000);
+            requests.shift()!.respond(429);
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(useStore.getState().rounds[1]).toMatchObject({ summaryStatus: 'failed', lastError: 'Server error: 429' });
+        });
+    });
+
+    describe('pausing and cancelling', () => {
+        beforeEach(() => {
+            useStore.getState().updateRound('r-0', { summary: 'Earlier summary', summaryStatus: 'completed' });
+        });
+
+        it('should abort the requests in flight when paused, and pick them up again on resume', async () => {
+            void useStore.getState().processRoundSummaryQueue();
+            await settle();
+
+            useStore.getState().pauseQueue();
+            await settle();
+
+            expect(requests).toEqual([]);
+            expect(useStore.getState().rounds[0]).toMatchObject({ summary: 'Earlier summary', summaryStatus: 'pending' });
+            expect(useStore.getState().roundSummaryQueue.every(item => item.status === 'pending')).toBe(true);
+            expect(useStore.getState().isProcessingQueue).toBe(false);
+
+            useStore.getState().resumeQueue();
+            await settle();
+
+            expect(requests.map(request => request.scene)).toEqual(['Scene 0', 'Scene 3', 'Scene 1', 'Scene 4']);
+            await drainQueue();
+        });
+
+        it('should pause only the rounds of the paused chapter', async () => {
+            useStore.getState().pauseChapter(0);
+            void useStore.getState().processRoundSummaryQueue();
+            await settle();
+
+            expect(requests.map(request => request.scene)).toEqual(['Scene 3', 'Scene 4']);
+
+            useStore.getState().resumeChapter(0);
+            await settle();
+
+            expect(requests.map(request => request.scene)).toEqual(['Scene 3', 'Scene 4', 'Scene 0', 'Scene 1']);
+            await drainQueue();
+        });
+
+        it('should put a round that is taken off the queue mid-request back to its earlier summary', async () => {
+            void useStore.getState().processRoundSummaryQueue();
+            await settle();
+
+            useStore.getState().dequeueRoundSummary('r-0');
+            await settle();
+
+            expect(requests.map(request => request.scene)).not.toContain('Scene 0');
+            expect(useStore.getState().rounds[0]).toMatchObject({ summary: 'Earlier summary', summaryStatus: 'completed' });
+
+            useStore.getState().cancelChapter(1);
+            await settle();
+
+            expect(useStore.getState().roundSummaryQueue.map(item => item.id)).toEqual(['r-1', 'r-2']);
+            expect(useStore.getState().rounds[3].summaryStatus).toBeUndefined();
+            await drainQueue();
+        });
+    });
+
+    describe('recovering interrupted work', () => {
+        it('should roll back and queue again the items a closed page left in progress', () => {
+            useStore.setState((state) => ({
+                roundSummaryQueue: state.roundSummaryQueue.map(item =>
+                    item.id === 'r-0' ? { ...item, status: 'inProgress', previousSummary: 'Earlier summary' } : item
+                ),
+                rounds: state.rounds.map(round =>
+                    round.id === 'r-0' ? { ...round, summary: 'Half a sum', summaryStatus: 'inProgress' } : round
+                )
+            }));
+            useStore.getState().recoverInterruptedQueue();
+
+            expect(useStore.getState().roundSummaryQueue[0]).toMatchObject({ id: 'r-0', status: 'pending' });
+            expect(useStore.getState().rounds[0]).toMatchObject({ summary: 'Earlier summary', summaryStatus: 'pending' });
+            expect(useStore.getState().queueRecovery).toEqual({ interrupted: 1, queued: 6 });
+        });
+
+        it('should leave items this tab is working on alone', async () => {
+            useStore.getState().pauseChapter(1);
+            void useStore.getState().processRoundSummaryQueue();
+            await settle();
+            useStore.getState().recoverInterruptedQueue();
+
+            expect(useStore.getState().roundSummaryQueue.filter(item => item.status === 'inProgress')).toHaveLength(2);
+            expect(useStore.getState().queueRecovery).toBeNull();
+
+            useStore.getState().cancelChapter(1);
+            await drainQueue();
+        });
+
+        it('should resume the queue when asked and clear the offer', async () => {
+            useStore.getState().recoverInterruptedQueue();
+            useStore.getState().resumeQueue();
+            await settle();
+
+            expect(useStore.getState().queueRecovery).toBeNull();
+            expect(requests).toHaveLength(4);
+            await drainQueue();
+        });
+    });
+
+    describe('chapter summaries', () => {
+        beforeEach(() => {
+            rounds.forEach(round => useStore.getState().dequeueRoundSummary(round.id));
+        });
+
+        it('should stream an outline of the chapter into its summary', async () => {
+            useStore.getState().enqueueChapterSummary(1);
+            void useStore.getState().processChapterSummaryQueue();
+            await settle();
+
+            expect(useStore.getState().chapters[1].summaryStatus).toBe('inProgress');
+            requests.shift()!.respond();
+            await settle();
+
+            expect(useStore.getState().chapters[1]).toMatchObject({ summary: 'Summary of Scene 3', summaryStatus: 'completed' });
+            expect(useStore.getState().chapterSummaryQueue).toEqual([]);
+            expect(useStore.getState().isProcessingQueue).toBe(false);
+        });
+
+        it('should only write into the chapter being summarized', async () => {
+            useStore.getState().updateChapter(0, { summary: 'Restored outline', summaryStatus: 'inProgress' });
+            useStore.getState().enqueueChapterSummary(1);
+            void useStore.getState().processChapterSummaryQueue();
+            await settle();
+
+            requests.shift()!.respond();
+            await settle();
+
+            expect(useStore.getState().chapters[0]).toMatchObject({ summary: 'Restored outline', summaryStatus: 'inProgress' });
+            expect(useStore.getState().chapters[1]).toMatchObject({ summary: 'Summary of Scene 3', summaryStatus: 'completed' });
+        });
+
+        it('should stop outlining a chapter that changed while it was summarized', async () => {
+            useStore.getState().enqueueChapterSummary(0);
+            void useStore.getState().processChapterSummaryQueue();
+            await settle();
+
+            useStore.getState().slideRoundDown(0, 2);
+            await settle();
+
+            expect(requests).toEqual([]);
+            expect(useStore.getState().chapters[0]).toMatchObject({ summary: undefined, summaryStatus: undefined });
+            expect(useStore.getState().chapterSummaryQueue).toEqual([]);
+        });
+
+        it('should keep outlining a chapter that only moved to another index', async () => {
+            useStore.getState().enqueueChapterSummary(1);
+            void useStore.getState().processChapterSummaryQueue();
+            await settle();
+
+            useStore.getState().splitChapter(0, 1);
+            requests.shift()!.respond();
+            await settle();
+
+            expect(useStore.getState().chapters[2]).toMatchObject({ summary: 'Summary of Scene 3', summaryStatus: 'completed' });
+            expect(useStore.getState().chapterSummaryQueue).toEqual([]);
+        });
+    });
+});
+
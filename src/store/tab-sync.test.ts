@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useStore, Chapter } from './index';
+import { requestQueueProcessing } from './tab-sync';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(3);
+
+// Stands in for another tab on the same channel
+let otherTab: BroadcastChannel;
+
+const nextMessage = () => new Promise<MessageEvent>(resolve => {
+    otherTab.onmessage = resolve;
+});
+
+const delivered = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('tab sync', () => {
+    beforeEach(() => {
+        useStore.getState().resetStore();
+        otherTab = new BroadcastChannel('story-sync');
+    });
+
+    afterEach(() => {
+        otherTab.close();
+    });
+
+    it('should post changed keys to other tabs', async () => {
+        const message = nextMessage();
+        useStore.getState().setChapters([{ roundsRange: [0, 0], omit: [] }]);
+
+        const { data } = await message;
+        expect(data).toEqual({
+            type: 'state',
+            projectId: useStore.getState().activeProjectId,
+            patch: { chapters: [{ roundsRange: [0, 0], omit: [] }] }
+        });
+    });
+
+    it('should only post the rounds that changed in place', async () => {
+        useStore.getState().setRounds(rounds);
+        await delivered();
+        const message = nextMessage();
+        useStore.getState().updateRound('r-1', { summary: 'The party rests' });
+
+        const { data } = await message;
+        expect(data.patch).toEqual({});
+        expect(data.changedRounds).toEqual([{ ...rounds[1], summary: 'The party rests' }]);
+    });
+
+    it('should apply rounds that changed in another tab', async () => {
+        useStore.getState().setRounds(rounds);
+        otherTab.postMessage({
+            type: 'state',
+            projectId: useStore.getState().activeProjectId,
+            patch: {},
+            changedRounds: [{ ...rounds[2], summary: 'A door opens' }]
+        });
+        await delivered();
+
+        expect(useStore.getState().rounds.map(round => round.summary)).toEqual([undefined, undefined, 'A door opens']);
+    });
+
+    it('should apply changes from a tab on the same project', async () => {
+        const chapters: Chapter[] = [{ roundsRange: [0, 3], omit: [] }];
+        otherTab.postMessage({ type: 'state', projectId: useStore.getState().activeProjectId, patch: { chapters } });
+        await delivered();
+
+        expect(useStore.getState().chapters).toEqual(chapters);
+    });
+
+    it('should only take shared state from a tab on another project', async () => {
+        const markerProfiles = useStore.getState().markerProfiles.slice(0, 1);
+        otherTab.postMessage({
+            type: 'state',
+            projectId: 'another-project',
+            patch: { chapters: [{ roundsRange: [0, 3], omit: [] }], markerProfiles }
+        });
+        await delivered();
+
+        expect(useStore.getState().chapters).toEqual([]);
+        expect(useStore.getState().markerProfiles).toEqual(markerProfiles);
+    });
+
+    it('should tell the asking tab when it takes a queue request', async () => {
+        const taken = new Promise<MessageEvent>(resolve => {
+            otherTab.onmessage = (event) => {
+                if (event.data.type === 'queue-taken') resolve(event);
+            };
+        });
+        otherTab.postMessage({ type: 'process-queue', projectId: useStore.getState().activeProjectId, requestId: 'request-1' });
+
+        const { data } = await taken;
+        expect(data).toEqual({ type: 'queue-taken', requestId: 'request-1' });
+    });
+
+    it('should only count a queue request as taken once the owner answers', async () => {
+        otherTab.onmessage = ({ data }) => {
+            if (data.type === 'process-queue' && data.projectId === 'answered-project') {
+                otherTab.postMessage({ type: 'queue-taken', requestId: data.requestId });
+            }
+        };
+        await expect(requestQueueProcessing('answered-project')).resolves.toBe(true);
+
+        vi.useFakeTimers();
+        try {
+            const unanswered = requestQueueProcessing('unanswered-project');
+            await vi.advanceTimersByTimeAsync(1000);
+            await expect(unanswered).resolves.toBe(false);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should leave the queue to a busy owner that still holds the lock', async () => {
+        vi.stubGlobal('navigator', {
+            locks: { query: async () => ({ held: [{ name: 'story-sync-queue:busy-project' }], pending: [] }) }
+        });
+        vi.useFakeTimers();
+        try {
+            const busy = requestQueueProcessing('busy-project');
+            const unowned = requestQueueProcessing('unowned-project');
+            await vi.advanceTimersByTimeAsync(1000);
+
+            await expect(busy).resolves.toBe(true);
+            await expect(unowned).resolves.toBe(false);
+        } finally {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        }
+    });
+});
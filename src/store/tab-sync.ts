@@ -0,0 +1,193 @@
+/**
+ * Keeps the store in step across browser tabs.
+ * Every change a tab makes to the saved state is posted over a BroadcastChannel
+ * and applied by the other tabs, which don't save it again. Every project has
+ * its own queue lock, and only the tab holding it runs that project's
+ * summarization queue; the other tabs on the project forward requests to it
+ * and mirror its progress through the same messages.
+ */
+import type { StoreApi, UseBoundStore } from 'zustand';
+import { applyWithoutSaving } from '@/db/project-storage';
+import type { PersistedState, Round, StoreState } from './index';
+
+const CHANNEL_NAME = 'story-sync';
+const QUEUE_LOCK_NAME = 'story-sync-queue';
+
+// How long to wait for the queue owner to take a request before checking whether there is one
+const REQUEST_TIMEOUT_MS = 1000;
+
+// Saved state that belongs to the open project, and is only applied by tabs on the same project
+const PROJECT_KEYS = [
+  'rawFileContent',
+  'processedContent',
+  'sourceMap',
+  'selectedMarkerProfileId',
+  'rounds',
+  'chapters',
+  'chapterGrouping',
+  'chapterSnapshots',
+  'history',
+  'roundSummaryQueue',
+  'chapterSummaryQueue',
+  'summaryQueueSettings'
+] as const satisfies readonly (keyof PersistedState)[];
+
+// Shared by every project; the active project is chosen per tab and isn't synced
+const GLOBAL_KEYS = ['projects', 'markerProfiles'] as const satisfies readonly (keyof PersistedState)[];
+
+// Not saved, but mirrored so other tabs show whether the queue owner is working, and can pause or resume it
+const LIVE_KEYS = ['isProcessingQueue', 'isQueuePaused', 'queueRecovery'] as const satisfies readonly (keyof StoreState)[];
+
+type SyncedKey = typeof PROJECT_KEYS[number] | typeof GLOBAL_KEYS[number] | typeof LIVE_KEYS[number];
+
+// Rounds that changed in place, such as a summary streaming in, are sent on their own instead of the whole list
+type TabMessage =
+  | { type: 'state'; projectId: string; patch: Partial<Pick<StoreState, SyncedKey>>; changedRounds?: Round[] }
+  | { type: 'process-queue'; projectId: string; requestId: string }
+  | { type: 'queue-taken'; requestId: string };
+
+let channel: BroadcastChannel | null = null;
+
+// Requests sent to the queue owner, by ID, with what to call once it takes them
+const pendingRequests = new Map<string, () => void>();
+
+const getQueueLockName = (projectId: string) => `${QUEUE_LOCK_NAME}:${projectId}`;
+
+// Whether a tab holds the project's queue lock, and so runs its queue
+async function isQueueLockHeld(projectId: string) {
+  if (typeof navigator === 'undefined' || !navigator.locks) return false;
+
+  const { held = [] } = await navigator.locks.query();
+  return held.some(lock => lock.name === getQueueLockName(projectId));
+}
+
+/**
+ * Asks the tab that owns the project's queue to process it. Resolves to true
+ * once that tab has taken the request, or when it is too busy to answer in
+ * time but still holds the queue lock; it gets to the request once it can.
+ * Resolves to false when no tab owns the queue, so it can run here.
+ */
+export function requestQueueProcessing(projectId: string): Promise<boolean> {
+  if (!channel) return Promise.resolve(false);
+
+  const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return new Promise(resolve => {
+    const timeout = setTimeout(() => {
+      pendingRequests.delete(requestId);
+      isQueueLockHeld(projectId).then(resolve, () => resolve(false));
+    }, REQUEST_TIMEOUT_MS);
+    pendingRequests.set(requestId, () => {
+      clearTimeout(timeout);
+      pendingRequests.delete(requestId);
+      resolve(true);
+    });
+    channel?.postMessage({ type: 'process-queue', projectId, requestId } satisfies TabMessage);
+  });
+}
+
+/**
+ * Starts syncing the store with other tabs and competing for the queue lock.
+ * Without BroadcastChannel the tab works alone and owns the queue.
+ */
+export function startTabSync(store: UseBoundStore<StoreApi<StoreState>>) {
+  if (typeof BroadcastChannel === 'undefined') {
+    store.setState({ isQueueOwner: true });
+    return;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  let applyingRemote = false;
+
+  store.subscribe((state, previous) => {
+    // Changes from other tabs, and loading a project, aren't edits to pass on
+    if (applyingRemote || state.activeProjectId !== previous.activeProjectId) return;
+
+    const keys: readonly SyncedKey[] = [...PROJECT_KEYS, ...GLOBAL_KEYS, ...LIVE_KEYS];
+    const changed = keys.filter(key => state[key] !== previous[key]);
+    if (changed.length === 0) return;
+
+    // The same rounds in the same order only need the ones that changed
+    const sameRounds = state.rounds.length === previous.rounds.length &&
+      state.rounds.every((round, index) => round.id === previous.rounds[index].id);
+    const changedRounds = changed.includes('rounds') && sameRounds
+      ? state.rounds.filter((round, index) => round !== previous.rounds[index])
+      : undefined;
+
+    const patch = Object.fromEntries(changed.filter(key => !(key === 'rounds' && changedRounds)).map(key => [key, state[key]]));
+    channel?.postMessage({
+      type: 'state',
+      projectId: state.activeProjectId,
+      patch,
+      ...(changedRounds ? { changedRounds } : {})
+    } satisfies TabMessage);
+  });
+
+  channel.onmessage = ({ data }: MessageEvent<TabMessage>) => {
+    if (data.type === 'queue-taken') {
+      pendingRequests.get(data.requestId)?.();
+      return;
+    }
+
+    const state = store.getState();
+    const sameProject = data.projectId === state.activeProjectId;
+
+    if (data.type === 'process-queue') {
+      if (state.isQueueOwner && sameProject) {
+        channel?.postMessage({ type: 'queue-taken', requestId: data.requestId } satisfies TabMessage);
+        void state.processRoundSummaryQueue();
+        void state.processChapterSummaryQueue();
+      }
+      return;
+    }
+
+    // A tab on another project only takes the shared parts
+    const patch = sameProject
+      ? { ...data.patch }
+      : Object.fromEntries(GLOBAL_KEYS.filter(key => key in data.patch).map(key => [key, data.patch[key]]));
+    if (sameProject && data.changedRounds) {
+      const changedRounds = new Map(data.changedRounds.map(round => [round.id, round]));
+      patch.rounds = state.rounds.map(round => changedRounds.get(round.id) ?? round);
+    }
+    if (Object.keys(patch).length === 0) return;
+
+    applyingRemote = true;
+    try {
+      applyWithoutSaving(() => store.setState(patch));
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    store.setState({ isQueueOwner: true });
+    return;
+  }
+
+  // The project's lock is held until the tab closes or opens another project,
+  // then passes to one of the tabs waiting on it
+  let releaseLock: (() => void) | null = null;
+  let stopWaiting: AbortController | null = null;
+  const competeForQueue = (projectId: string) => {
+    releaseLock?.();
+    stopWaiting?.abort();
+    releaseLock = null;
+    stopWaiting = new AbortController();
+    store.setState({ isQueueOwner: false });
+
+    navigator.locks.request(getQueueLockName(projectId), { signal: stopWaiting.signal }, () => {
+      // A previous owner that closed mid-item left the queue marked as processing. Its items
+      // are recovered, and left for the user to resume, once the store sees this tab owns the queue
+      store.setState({ isQueueOwner: true, isProcessingQueue: false });
+      return new Promise<void>(resolve => {
+        releaseLock = resolve;
+      });
+    }).catch(() => {
+      // Stopped waiting because the tab opened another project first
+    });
+  };
+
+  competeForQueue(store.getState().activeProjectId);
+  store.subscribe((state, previous) => {
+    if (state.activeProjectId !== previous.activeProjectId) competeForQueue(state.activeProjectId);
+  });
+}
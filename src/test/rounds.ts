@@ -0,0 +1,16 @@
+import type { Round } from '@/store';
+
+/**
+ * Builds `count` back-to-back rounds with ids `r-0`, `r-1`, … for tests.
+ * `fields` adds per-round extras such as raw content or a summary.
+ */
+export function makeRounds(count: number, lineCount = 4, fields?: (roundIndex: number) => Partial<Round>): Round[] {
+    return Array.from({ length: count }, (_, roundIndex) => ({
+        id: `r-${roundIndex}`,
+        roundIndex,
+        startLine: roundIndex * lineCount,
+        endLine: roundIndex * lineCount + lineCount - 1,
+        lineCount,
+        ...fields?.(roundIndex)
+    }));
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import type { Chapter } from '@/store';
+import { diffChapters } from './chapter-diff';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(6);
+
+describe('diffChapters', () => {
+    it('should find moved rounds, differing omits and lost summaries', () => {
+        const from: Chapter[] = [
+            { roundsRange: [0, 2], omit: ['r-1'], summary: 'Arrival' },
+            { roundsRange: [3, 5], omit: [], summary: 'The cave' }
+        ];
+        const to: Chapter[] = [
+            { roundsRange: [0, 3], omit: ['r-5'], summary: 'Arrival, longer' },
+            { roundsRange: [4, 5], omit: [] }
+        ];
+
+        expect(diffChapters(from, to, rounds)).toEqual({
+            movedRounds: [0, 1, 2, 3, 4, 5].map(roundIndex => ({ roundIndex, from: roundIndex < 3 ? 0 : 1, to: roundIndex < 4 ? 0 : 1 })),
+            omitChanges: [{ roundIndex: 1, omitted: false }, { roundIndex: 5, omitted: true }],
+            lostSummaries: [
+                { chapterIndex: 0, roundsRange: [0, 2], summary: 'Arrival' },
+                { chapterIndex: 1, roundsRange: [3, 5], summary: 'The cave' }
+            ]
+        });
+    });
+
+    it('should not count chapters that only changed number as moved', () => {
+        const from: Chapter[] = [{ roundsRange: [0, 1], omit: [] }, { roundsRange: [2, 5], omit: [], summary: 'Deeper' }];
+        const to: Chapter[] = [{ roundsRange: [0, 0], omit: [] }, { roundsRange: [1, 1], omit: [] }, { roundsRange: [2, 5], omit: [], summary: 'Deeper' }];
+
+        const diff = diffChapters(from, to, rounds);
+
+        expect(diff.movedRounds.map(move => move.roundIndex)).toEqual([0, 1]);
+        expect(diff.lostSummaries).toEqual([]);
+    });
+});
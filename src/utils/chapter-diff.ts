@@ -0,0 +1,72 @@
+/**
+ * Comparison of two chapter layouts of the same rounds, such as the current
+ * chapters and a saved snapshot.
+ */
+import type { Chapter, Round } from '@/store';
+
+export interface MovedRound {
+  roundIndex: number;
+  from: number | null; // chapter index in the first layout, null when no chapter held the round
+  to: number | null;
+}
+
+export interface OmitChange {
+  roundIndex: number;
+  omitted: boolean; // whether the second layout omits the round
+}
+
+export interface LostSummary {
+  chapterIndex: number;
+  roundsRange: [number, number];
+  summary: string;
+}
+
+export interface ChapterDiff {
+  movedRounds: MovedRound[];
+  omitChanges: OmitChange[];
+  lostSummaries: LostSummary[]; // summaries of the first layout that no chapter of the second one keeps
+}
+
+// Chapter index holding each round position
+const getChapterOf = (chapters: Chapter[], roundCount: number) => {
+  const chapterOf: (number | null)[] = Array(roundCount).fill(null);
+  chapters.forEach(({ roundsRange: [start, end] }, chapterIndex) => {
+    for (let roundIndex = Math.max(start, 0); roundIndex <= Math.min(end, roundCount - 1); roundIndex++) {
+      if (chapterOf[roundIndex] === null) chapterOf[roundIndex] = chapterIndex;
+    }
+  });
+  return chapterOf;
+};
+
+/**
+ * What changes when going from the `from` chapters to the `to` chapters.
+ * Rounds count as moved when the chapter holding them starts or ends at
+ * different rounds, not when only chapter numbers shift.
+ */
+export function diffChapters(from: Chapter[], to: Chapter[], rounds: Round[]): ChapterDiff {
+  const fromChapterOf = getChapterOf(from, rounds.length);
+  const toChapterOf = getChapterOf(to, rounds.length);
+  const rangeKey = (chapters: Chapter[], chapterIndex: number | null) =>
+    chapterIndex === null ? null : chapters[chapterIndex].roundsRange.join('-');
+
+  const movedRounds = rounds
+    .map(({ roundIndex }) => ({ roundIndex, from: fromChapterOf[roundIndex] ?? null, to: toChapterOf[roundIndex] ?? null }))
+    .filter(({ from: fromIndex, to: toIndex }) => rangeKey(from, fromIndex) !== rangeKey(to, toIndex));
+
+  const fromOmits = new Set(from.flatMap(chapter => chapter.omit));
+  const toOmits = new Set(to.flatMap(chapter => chapter.omit));
+  const omitChanges = rounds
+    .filter(round => fromOmits.has(round.id) !== toOmits.has(round.id))
+    .map(round => ({ roundIndex: round.roundIndex, omitted: toOmits.has(round.id) }));
+
+  const lostSummaries = from
+    .map((chapter, chapterIndex) => ({ chapter, chapterIndex }))
+    .filter(({ chapter }) => chapter.summary && !to.some(other =>
+      other.summary === chapter.summary
+      && other.roundsRange[0] === chapter.roundsRange[0]
+      && other.roundsRange[1] === chapter.roundsRange[1]
+    ))
+    .map(({ chapter, chapterIndex }) => ({ chapterIndex, roundsRange: chapter.roundsRange, summary: chapter.summary! }));
+
+  return { movedRounds, omitChanges, lostSummaries };
+}
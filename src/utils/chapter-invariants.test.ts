@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { Chapter } from '@/store';
+import { checkChapters, repairChapters } from './chapter-invariants';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(6);
+
+const sound: Chapter[] = [
+    { roundsRange: [0, 2], omit: ['r-1'] },
+    { roundsRange: [3, 5], omit: [] }
+];
+
+describe('checkChapters', () => {
+    it('should accept chapters that tile the rounds', () => {
+        expect(checkChapters(sound, rounds)).toEqual([]);
+    });
+
+    it('should report gaps, overlaps and stray omits', () => {
+        const issues = checkChapters([
+            { roundsRange: [0, 2], omit: ['r-4', 'r-9'] },
+            { roundsRange: [2, 3], omit: [] },
+            { roundsRange: [5, 7], omit: [] }
+        ], rounds);
+
+        expect(issues.map(issue => [issue.kind, issue.chapterIndex])).toEqual([
+            ['omit-out-of-range', 0],
+            ['omit-unknown', 0],
+            ['overlap', 1],
+            ['gap', 2],
+            ['out-of-bounds', 2]
+        ]);
+    });
+
+    it('should report rounds after the last chapter', () => {
+        expect(checkChapters([{ roundsRange: [0, 3], omit: [] }], rounds)).toMatchObject([
+            { kind: 'gap', chapterIndex: null, message: 'rounds 4-5 at the end are in no chapter' }
+        ]);
+    });
+});
+
+describe('repairChapters', () => {
+    it('should leave sound chapters alone', () => {
+        expect(repairChapters(sound, rounds)).toEqual({ chapters: sound, changes: [] });
+    });
+
+    it('should tile the rounds and keep omits with their rounds', () => {
+        const { chapters, changes } = repairChapters([
+            { roundsRange: [2, 3], omit: ['r-1'], summary: 'Deeper' },
+            { roundsRange: [0, 2], omit: ['r-9'], summary: 'Arrival' },
+            { roundsRange: [5, 7], omit: [] }
+        ], rounds);
+
+        expect(chapters).toEqual([
+            { roundsRange: [0, 2], omit: ['r-1'], summary: 'Arrival' },
+            { roundsRange: [3, 4], omit: [], summary: 'Deeper' },
+            { roundsRange: [5, 5], omit: [] }
+        ]);
+        expect(changes.length).toBeGreaterThan(0);
+        expect(checkChapters(chapters, rounds)).toEqual([]);
+    });
+
+    it('should put every round in one chapter when none are usable', () => {
+        const { chapters } = repairChapters([{ roundsRange: [4, 1], omit: [] }], rounds);
+
+        expect(chapters).toEqual([{ roundsRange: [0, 5], omit: [] }]);
+    });
+});
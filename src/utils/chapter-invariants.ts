@@ -0,0 +1,170 @@
+/**
+ * Structural checks for chapters.
+ * Chapters must tile the rounds: every round in exactly one chapter, chapters
+ * in order, and every omit pointing at a round inside its own chapter. Manual
+ * edits and stale saved data can break this, so the chapters are checked after
+ * every change and can be repaired in one step.
+ */
+import type { Chapter, Round } from '@/store';
+
+export type ChapterIssueKind =
+  | 'invalid-range' // start after end, or not whole round positions
+  | 'gap' // rounds that no chapter covers
+  | 'overlap' // rounds covered by more than one chapter
+  | 'out-of-bounds' // range reaches past the last round
+  | 'omit-unknown' // omit of a round that doesn't exist
+  | 'omit-out-of-range'; // omit of a round in another chapter
+
+export interface ChapterIssue {
+  kind: ChapterIssueKind;
+  chapterIndex: number | null; // null for issues that belong to no chapter, like uncovered rounds at the end
+  message: string;
+}
+
+export interface ChapterRepair {
+  chapters: Chapter[];
+  changes: string[]; // what the repair did, one line per change
+}
+
+const isValidRange = ([start, end]: [number, number]) =>
+  Number.isInteger(start) && Number.isInteger(end) && start >= 0 && start <= end;
+
+const describeRounds = (start: number, end: number) =>
+  start === end ? `round ${start}` : `rounds ${start}-${end}`;
+
+/**
+ * Lists every way the chapters fail to tile the rounds. An empty list means the
+ * chapters are sound.
+ */
+export function checkChapters(chapters: Chapter[], rounds: Round[]): ChapterIssue[] {
+  const issues: ChapterIssue[] = [];
+  const positions = new Map(rounds.map(round => [round.id, round.roundIndex]));
+  const lastRound = rounds.length - 1;
+  let expected = 0; // first round not yet covered
+
+  chapters.forEach((chapter, chapterIndex) => {
+    const label = `Chapter ${chapterIndex + 1}`;
+    const [start, end] = chapter.roundsRange;
+
+    if (!isValidRange(chapter.roundsRange)) {
+      issues.push({ kind: 'invalid-range', chapterIndex, message: `${label} has an invalid range [${start}, ${end}]` });
+      return;
+    }
+
+    if (start > expected && expected <= lastRound) {
+      const gapEnd = Math.min(start - 1, lastRound);
+      issues.push({ kind: 'gap', chapterIndex, message: `${describeRounds(expected, gapEnd)} before ${label.toLowerCase()} are in no chapter` });
+    } else if (start < expected) {
+      issues.push({ kind: 'overlap', chapterIndex, message: `${label} overlaps the previous chapter at ${describeRounds(start, Math.min(end, expected - 1))}` });
+    }
+
+    if (end > lastRound) {
+      issues.push({ kind: 'out-of-bounds', chapterIndex, message: `${label} ends at round ${end}, after the last round (${lastRound})` });
+    }
+
+    for (const roundId of chapter.omit) {
+      const position = positions.get(roundId);
+      if (position === undefined) {
+        issues.push({ kind: 'omit-unknown', chapterIndex, message: `${label} omits a round that doesn't exist (${roundId})` });
+      } else if (position < start || position > end) {
+        issues.push({ kind: 'omit-out-of-range', chapterIndex, message: `${label} omits round ${position}, which is outside the chapter` });
+      }
+    }
+
+    expected = Math.max(expected, end + 1);
+  });
+
+  if (expected <= lastRound) {
+    issues.push({ kind: 'gap', chapterIndex: null, message: `${describeRounds(expected, lastRound)} at the end are in no chapter` });
+  }
+
+  return issues;
+}
+
+/**
+ * Rebuilds chapters that fail `checkChapters` into a tiling of the rounds,
+ * changing as little as possible. Invalid chapters are dropped, overlaps go to
+ * the earlier chapter, gaps to the chapter before them, and omits move to the
+ * chapter that holds their round. Summaries stay with the surviving chapters.
+ */
+export function repairChapters(chapters: Chapter[], rounds: Round[]): ChapterRepair {
+  const changes: string[] = [];
+  const positions = new Map(rounds.map(round => [round.id, round.roundIndex]));
+  const lastRound = rounds.length - 1;
+
+  // Keep valid chapters that reach into the rounds, in order of their first round
+  const kept = chapters
+    .map((chapter, index) => ({ chapter, index }))
+    .filter(({ chapter, index }) => {
+      const valid = isValidRange(chapter.roundsRange) && chapter.roundsRange[0] <= lastRound;
+      if (!valid) changes.push(`Removed chapter ${index + 1}, whose range [${chapter.roundsRange.join(', ')}] holds no rounds`);
+      return valid;
+    })
+    .sort((a, b) => a.chapter.roundsRange[0] - b.chapter.roundsRange[0] || a.index - b.index);
+
+  if (kept.some(({ index }, position) => position > 0 && index < kept[position - 1].index)) {
+    changes.push('Put the chapters back in the order of their rounds');
+  }
+
+  const tiled: Chapter[] = [];
+  for (const { chapter, index } of kept) {
+    const previous = tiled[tiled.length - 1];
+    const expected = previous ? previous.roundsRange[1] + 1 : 0;
+    let [start, end] = chapter.roundsRange;
+
+    if (end > lastRound) {
+      changes.push(`Ended chapter ${index + 1} at the last round (${lastRound}) instead of ${end}`);
+      end = lastRound;
+    }
+    if (start < expected) {
+      if (end < expected) {
+        changes.push(`Removed chapter ${index + 1}, whose ${describeRounds(start, end)} were already in the previous chapter`);
+        previous.omit = [...previous.omit, ...chapter.omit];
+        continue;
+      }
+      changes.push(`Started chapter ${index + 1} at round ${expected} instead of ${start}, where the previous chapter ends`);
+      start = expected;
+    } else if (start > expected) {
+      if (previous) {
+        changes.push(`Added ${describeRounds(expected, start - 1)} to the chapter before chapter ${index + 1}`);
+        previous.roundsRange = [previous.roundsRange[0], start - 1];
+      } else {
+        changes.push(`Started chapter ${index + 1} at round 0 instead of ${start}`);
+        start = 0;
+      }
+    }
+
+    tiled.push({ ...chapter, roundsRange: [start, end], omit: [...chapter.omit] });
+  }
+
+  const last = tiled[tiled.length - 1];
+  if (!last && rounds.length > 0) {
+    changes.push(`Put all ${rounds.length} rounds in one chapter`);
+    tiled.push({ roundsRange: [0, lastRound], omit: chapters.flatMap(chapter => chapter.omit) });
+  } else if (last && last.roundsRange[1] < lastRound) {
+    changes.push(`Added ${describeRounds(last.roundsRange[1] + 1, lastRound)} to the last chapter`);
+    last.roundsRange = [last.roundsRange[0], lastRound];
+  }
+
+  // Every omit goes to the chapter holding its round; omits of missing rounds are dropped
+  const omitted = new Set(tiled.flatMap(chapter => chapter.omit));
+  const repaired = tiled.map(chapter => ({
+    ...chapter,
+    omit: [...omitted].filter(roundId => {
+      const position = positions.get(roundId);
+      return position !== undefined && position >= chapter.roundsRange[0] && position <= chapter.roundsRange[1];
+    })
+  }));
+
+  const unknown = [...omitted].filter(roundId => !positions.has(roundId));
+  if (unknown.length > 0) {
+    changes.push(`Dropped ${unknown.length} omit${unknown.length === 1 ? '' : 's'} of rounds that don't exist`);
+  }
+  const moved = tiled.reduce((count, chapter, index) =>
+    count + chapter.omit.filter(roundId => positions.has(roundId) && !repaired[index].omit.includes(roundId)).length, 0);
+  if (moved > 0) {
+    changes.push(`Moved ${moved} omit${moved === 1 ? '' : 's'} to the chapter holding the round`);
+  }
+
+  return { chapters: repaired, changes };
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import type { Chapter } from '@/store';
+import { buildChapterSummaryPrompt } from './chapter-summary';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(3, 4, roundIndex => ({
+    summary: `The party reaches room ${roundIndex}.`,
+    dmText: `You step into room ${roundIndex}. `.repeat(20)
+}));
+
+const chapter: Chapter = { roundsRange: [0, 2], omit: ['r-1'] };
+
+describe('buildChapterSummaryPrompt', () => {
+    it('should outline from the dungeon master text when it fits, leaving out omitted rounds', () => {
+        const { prompt, source } = buildChapterSummaryPrompt(chapter, rounds, null, 10000);
+
+        expect(source).toBe('dm-text');
+        expect(prompt).toContain('Round 0:\nYou step into room 0.');
+        expect(prompt).toContain('Round 2:\nYou step into room 2.');
+        expect(prompt).not.toContain('room 1');
+    });
+
+    it('should fall back to the round summaries when the text is too long', () => {
+        const { prompt, source } = buildChapterSummaryPrompt(chapter, rounds, null, 400);
+
+        expect(source).toBe('round-summaries');
+        expect(prompt).toContain('Round 0:\nThe party reaches room 0.\n\nRound 2:\nThe party reaches room 2.');
+    });
+
+    it('should refuse a long chapter whose rounds are not all summarized', () => {
+        const unsummarized = rounds.map(round => round.roundIndex === 2 ? { ...round, summary: undefined } : round);
+
+        expect(() => buildChapterSummaryPrompt(chapter, unsummarized, null, 400)).toThrow('1 of its rounds have no summary yet');
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Prompts for chapter summaries. A chapter is outlined from the dungeon
+ * master's text of its rounds when that fits the model's context window, and
+ * from the round summaries when it doesn't.
+ */
+import type { Chapter, Round } from '@/store';
+import { chapterPrompt } from '@/data/chapter-prompt';
+import { estimateTokens, extractBlocks } from './content-transformation';
+
+export interface ChapterSummaryPrompt {
+  prompt: string;
+  source: 'dm-text' | 'round-summaries';
+}
+
+// Rounds that go into the chapter summary, in order
+const getSummarizedRounds = (chapter: Chapter, rounds: Round[]) => {
+  const [start, end] = chapter.roundsRange;
+  return rounds
+    .filter(round => round.roundIndex >= start && round.roundIndex <= end && !chapter.omit.includes(round.id))
+    .sort((a, b) => a.roundIndex - b.roundIndex);
+};
+
+// The round's dungeon master text, from the round or else from the processed transcript
+const getDmText = (round: Round, processedLines: string[]) => {
+  if (round.dmText) return round.dmText;
+  const content = round.rawContent ?? processedLines.slice(round.startLine, round.endLine + 1).join('\n');
+  return extractBlocks(content).dmContent;
+};
+
+const formatExcerpt = (entries: { roundIndex: number; text: string }[]) =>
+  entries.map(({ roundIndex, text }) => `Round ${roundIndex}:\n${text}`).join('\n\n');
+
+/**
+ * Builds the prompt for a chapter summary that fits in `tokenBudget` tokens.
+ * Throws when the chapter has no rounds to summarize, or when its text is
+ * too long and some of its rounds have no summary to use instead.
+ */
+export function buildChapterSummaryPrompt(
+  chapter: Chapter,
+  rounds: Round[],
+  processedContent: string | null,
+  tokenBudget: number
+): ChapterSummaryPrompt {
+  const summarizedRounds = getSummarizedRounds(chapter, rounds);
+  if (summarizedRounds.length === 0) {
+    throw new Error('The chapter has no rounds to summarize');
+  }
+
+  const processedLines = (processedContent ?? '').split('\n');
+  const dmExcerpt = formatExcerpt(summarizedRounds
+    .map(round => ({ roundIndex: round.roundIndex, text: getDmText(round, processedLines) }))
+    .filter(({ text }) => text));
+  const dmPrompt = chapterPrompt
+    .replace('[[excerpt-kind]]', "the dungeon master's narration")
+    .replace('[[chapter-excerpt]]', () => dmExcerpt);
+  if (dmExcerpt && estimateTokens(dmPrompt) <= tokenBudget) {
+    return { prompt: dmPrompt, source: 'dm-text' };
+  }
+
+  const unsummarized = summarizedRounds.filter(round => !round.summary);
+  if (unsummarized.length > 0) {
+    const reason = dmExcerpt ? 'is too long to outline from its text' : 'has no dungeon master text';
+    throw new Error(`The chapter ${reason}, and ${unsummarized.length} of its rounds have no summary yet`);
+  }
+
+  const summaryPrompt = chapterPrompt
+    .replace('[[excerpt-kind]]', 'a one-sentence summary of each round')
+    .replace('[[chapter-excerpt]]', () => formatExcerpt(summarizedRounds.map(round => ({
+      roundIndex: round.roundIndex,
+      text: round.summary!
+    }))));
+  return { prompt: summaryPrompt, source: 'round-summaries' };
+}
@@ -1,4 +1,14 @@
-import { extractBlocks } from './content-transformation';
+import {
+    extractBlocks,
+    transformContent,
+    transformContentWithSourceMap,
+    parseContentIntoRoundsWithDiagnostics,
+    validateMarkerProfile,
+    parseContentIntoRounds,
+    groupRoundsIntoChapters,
+    estimateTokens,
+    MarkerProfile
+} from './content-transformation';
 
 describe('extractBlocks', () => {
     it('should extract user and dungeon master content from valid tags', () => {
@@ -51,4 +61,142 @@ describe('extractBlocks', () => {
         expect(result.userContent).toBe('This is user content');
         expect(result.dmContent).toBe('This is dungeon master content');
     });
-}); 
\ No newline at end of file
+}); 
+describe('transformContent', () => {
+    it('should apply the default ChatGPT markers', () => {
+        const content = 'You said:\nHello\nChatGPT said:\nWelcome\n3/14\nYou said:\nBye\nChatGPT said:\nFarewell';
+
+        const result = transformContent(content);
+
+        expect(result).toBe(
+            '<user>\nHello\n</user>\n<dungeon_master>\nWelcome\n</dungeon_master>\n<session date="3/14" />\n<user>\nBye\n</user>\n<dungeon_master>\nFarewell\n</dungeon_master>'
+        );
+    });
+
+    it('should split turns using a custom marker profile', () => {
+        const profile: MarkerProfile = {
+            id: 'gm',
+            name: 'GM',
+            userMarkers: ['^player:'],
+            dmMarkers: ['^(?:gm|narrator):'],
+            dropLinePatterns: [],
+            whitespace: 'preserve'
+        };
+        const content = 'Player: I attack\nGM: You hit\nPlayer: Again\nNarrator: The goblin falls';
+
+        const result = transformContent(content, profile);
+
+        expect(result.match(/<user>/g)).toHaveLength(2);
+        expect(result.match(/<dungeon_master>/g)).toHaveLength(2);
+        expect(result.startsWith('<user>')).toBe(true);
+    });
+});
+
+describe('validateMarkerProfile', () => {
+    it('should report invalid patterns and missing markers', () => {
+        const errors = validateMarkerProfile({
+            id: 'broken',
+            name: 'Broken',
+            userMarkers: ['('],
+            dmMarkers: [],
+            dropLinePatterns: [],
+            whitespace: 'preserve'
+        });
+
+        expect(errors).toContain('Invalid pattern: (');
+        expect(errors).toContain('At least one dungeon master marker is required');
+    });
+});
+
+describe('session dates', () => {
+    const content = 'You said:\nHello\nChatGPT said:\nWelcome\n3/14\nYou said:\nBye\nChatGPT said:\nFarewell';
+
+    it('should attach session dates to the rounds that follow them', () => {
+        const rounds = parseContentIntoRounds(transformContent(content));
+
+        expect(rounds).toHaveLength(2);
+        expect(rounds[0].session).toBeUndefined();
+        expect(rounds[1].session).toEqual({ index: 0, date: '3/14' });
+    });
+
+    it('should not count session markers toward the round before them', () => {
+        const rounds = parseContentIntoRounds(transformContent(content));
+
+        expect(rounds.map(round => round.lineCount)).toEqual([6, 6]);
+    });
+
+    it('should strip session markers from extracted blocks', () => {
+        const { dmContent } = extractBlocks('<dungeon_master>\nWelcome\n<session date="3/14" />\n</dungeon_master>');
+
+        expect(dmContent).toBe('Welcome');
+    });
+
+    it('should start a new chapter at each session when requested', () => {
+        const rounds = parseContentIntoRounds(transformContent(content));
+
+        expect(groupRoundsIntoChapters(rounds)).toHaveLength(1);
+        expect(groupRoundsIntoChapters(rounds, { splitOnSessions: true })).toHaveLength(2);
+    });
+});
+
+describe('diagnostics', () => {
+    it('should report missing markers', () => {
+        const { diagnostics } = transformContentWithSourceMap('Just some prose\nwithout any speakers');
+
+        expect(diagnostics.map(d => d.type)).toEqual(['missing-user-markers', 'missing-dm-markers']);
+    });
+
+    it('should report a dropped final round', () => {
+        const content = '<user>\nHello\n</user>\n<dungeon_master>\nWelcome\n</dungeon_master>\n<user>\nAnyone there?\n</user>';
+        const { rounds, diagnostics } = parseContentIntoRoundsWithDiagnostics(content);
+
+        expect(rounds).toHaveLength(1);
+        expect(diagnostics.map(d => d.type)).toContain('dropped-final-round');
+    });
+
+    it('should flag oversized rounds and point at their first line', () => {
+        const content = transformContent('You said:\nHello\nChatGPT said:\none\ntwo\nthree\nfour');
+        const { diagnostics } = parseContentIntoRoundsWithDiagnostics(content, { maxRoundLines: 3 });
+        const oversized = diagnostics.find(d => d.type === 'oversized-round');
+
+        expect(oversized?.roundIndex).toBe(0);
+        expect(oversized?.line).toBe(0);
+    });
+
+    it('should report stray closing tags', () => {
+        const { diagnostics } = parseContentIntoRoundsWithDiagnostics('</user>\n<user>\nHi\n</user>\n<dungeon_master>\nHello\n</dungeon_master>');
+
+        expect(diagnostics).toContainEqual(expect.objectContaining({ type: 'stray-closing-tag', line: 0 }));
+    });
+});
+
+describe('token budget grouping', () => {
+    const rounds = [400, 400, 400].map((tokenCount, roundIndex) => ({
+        roundIndex,
+        startLine: roundIndex * 6,
+        endLine: roundIndex * 6 + 5,
+        lineCount: 6,
+        tokenCount
+    }));
+
+    it('should estimate round tokens while parsing', () => {
+        const content = transformContent('You said:\nHello there\nChatGPT said:\nWelcome, traveller');
+        const [round] = parseContentIntoRounds(content);
+
+        expect(round.tokenCount).toBe(estimateTokens(content));
+    });
+
+    it('should size chapters to the token budget instead of the line threshold', () => {
+        expect(groupRoundsIntoChapters(rounds)).toHaveLength(1);
+        expect(groupRoundsIntoChapters(rounds, { maxChapterTokens: 800 }).map(chapter => chapter.roundsRange))
+            .toEqual([[0, 1], [2, 2]]);
+    });
+
+    it('should keep an oversized round in a chapter of its own', () => {
+        expect(groupRoundsIntoChapters(rounds, { maxChapterTokens: 100 })).toHaveLength(3);
+    });
+
+    it('should treat a token budget of 0 as a limit rather than no budget', () => {
+        expect(groupRoundsIntoChapters(rounds, { maxChapterTokens: 0 })).toHaveLength(3);
+    });
+});
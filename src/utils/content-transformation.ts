@@ -1,89 +1,549 @@
+import { assignRoundIds } from './round-id';
+
 /**
  * Transforms raw conversation text into a structured format for story processing.
  * Applies various text replacements and formatting rules as per project requirements.
  */
 
 /**
- * Transforms the content according to the specified rules:
- * - Replace first occurrence of "You said:" with "<user>"
- * - Replace subsequent occurrences of "You said:" with "</dungeon_master>\n<user>"
- * - Replace all "chatGPT said:" with "</user>\n<dungeon_master>"
+ * Describes how speaker turns are marked in a plain-text transcript.
+ * Patterns are regular expression sources and are always matched case-insensitively.
+ */
+export interface MarkerProfile {
+  id: string;
+  name: string;
+  // Patterns that open a user turn
+  userMarkers: string[];
+  // Patterns that open a dungeon master turn
+  dmMarkers: string[];
+  // Patterns for lines that are removed entirely
+  dropLinePatterns: string[];
+  // Pattern for lines that mark the start of a play session (e.g. "3/14");
+  // matching lines are turned into <session> tags instead of being dropped
+  sessionDatePattern?: string;
+  // 'collapse-newlines' replaces 3+ newlines with a blank line,
+  // 'collapse-all' also squeezes runs of spaces/tabs and trailing whitespace
+  whitespace: 'preserve' | 'collapse-newlines' | 'collapse-all';
+  // Built-in profiles can be edited but not deleted
+  builtIn?: boolean;
+}
+
+// The original ChatGPT web UI rules
+export const defaultMarkerProfile: MarkerProfile = {
+  id: 'chatgpt',
+  name: 'ChatGPT',
+  userMarkers: ['you said:'],
+  dmMarkers: ['chatGPT said:'],
+  dropLinePatterns: [],
+  sessionDatePattern: '^\\s*\\d+\\/\\d+\\s*$',
+  whitespace: 'collapse-newlines',
+  builtIn: true
+};
+
+// Matches a session marker line emitted by the transformation, e.g. <session date="3/14" />
+const sessionTagPattern = /^\s*<session date="([^"]*)"\s*\/>\s*$/;
+
+/**
+ * Renders a session marker line for processed content.
+ */
+export function createSessionTag(date: string): string {
+  return `<session date="${date.replace(/"/g, "'")}" />`;
+}
+
+/**
+ * Returns the date of a session marker line, or null if the line isn't one.
+ */
+export function parseSessionTag(line: string): string | null {
+  const match = line.match(sessionTagPattern);
+  return match ? match[1] : null;
+}
+
+/**
+ * Joins marker patterns into a single alternation.
+ */
+function combinePatterns(patterns: string[]): string {
+  return patterns.map(pattern => `(?:${pattern})`).join('|');
+}
+
+/**
+ * Checks that a marker profile has a name, at least one marker per speaker
+ * and only valid regular expressions. Returns a list of problems.
+ */
+export function validateMarkerProfile(profile: MarkerProfile): string[] {
+  const errors: string[] = [];
+
+  if (!profile.name.trim()) errors.push('Profile name is required');
+  if (profile.userMarkers.length === 0) errors.push('At least one user marker is required');
+  if (profile.dmMarkers.length === 0) errors.push('At least one dungeon master marker is required');
+
+  const patterns = [
+    ...profile.userMarkers,
+    ...profile.dmMarkers,
+    ...profile.dropLinePatterns,
+    ...(profile.sessionDatePattern ? [profile.sessionDatePattern] : [])
+  ];
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, 'gim');
+    } catch {
+      errors.push(`Invalid pattern: ${pattern}`);
+    }
+  }
+
+  return errors;
+}
+
+// A processed line together with the raw line it came from (-1 for inserted lines)
+interface MappedLine {
+  text: string;
+  rawLine: number;
+}
+
+export type TransformDiagnosticType =
+  | 'missing-user-markers'
+  | 'missing-dm-markers'
+  | 'user-without-reply'
+  | 'consecutive-dm'
+  | 'empty-block'
+  | 'stray-closing-tag'
+  | 'oversized-round'
+  | 'dropped-final-round';
+
+// A problem found while transforming or parsing a transcript
+export interface TransformDiagnostic {
+  type: TransformDiagnosticType;
+  severity: 'warning' | 'error';
+  line: number; // processed content line
+  roundIndex?: number;
+  message: string;
+}
+
+/**
+ * Processed content plus a source map: `sourceMap[i]` is the raw line that
+ * processed line `i` came from, or -1 for lines the transformation inserted.
+ */
+export interface TransformResult {
+  content: string;
+  sourceMap: number[];
+  diagnostics: TransformDiagnostic[];
+}
+
+/**
+ * Applies a replacement to every line. Replacements containing newlines split the
+ * line; the new lines keep the raw line of the line they were split from.
+ */
+function replaceInLines(
+  lines: MappedLine[],
+  pattern: RegExp,
+  replacer: (match: string, lineIndex: number, offset: number) => string
+): MappedLine[] {
+  return lines.flatMap((line, lineIndex) => {
+    const text = line.text.replace(pattern, (match: string, ...args: unknown[]) => {
+      if (match.length === 0) return match;
+      const offset = args.find(arg => typeof arg === 'number') as number;
+      return replacer(match, lineIndex, offset);
+    });
+    return text.split('\n').map(part => ({ text: part, rawLine: line.rawLine }));
+  });
+}
+
+/**
+ * Moves session markers that ended up inside a dungeon master block to just
+ * after it, so they open the next round instead of counting toward the
+ * previous one.
+ */
+function moveSessionTagsBetweenRounds(lines: MappedLine[]): MappedLine[] {
+  const result: MappedLine[] = [];
+  let held: MappedLine[] = [];
+  let inDmBlock = false;
+
+  for (const line of lines) {
+    if (inDmBlock && parseSessionTag(line.text) !== null) {
+      held.push(line);
+      continue;
+    }
+
+    result.push(line);
+    const opens = line.text.lastIndexOf('<dungeon_master>');
+    const closes = line.text.lastIndexOf('</dungeon_master>');
+    if (opens > closes) {
+      inDmBlock = true;
+    } else if (closes !== -1) {
+      inDmBlock = false;
+      result.push(...held);
+      held = [];
+    }
+  }
+
+  return [...result, ...held];
+}
+
+/**
+ * Replaces runs of empty lines spanning 3+ newlines with a single double newline,
+ * i.e. the line-based equivalent of `text.replace(/\n{3,}/g, "\n\n")`.
+ */
+function collapseEmptyLines(lines: MappedLine[]): MappedLine[] {
+  const result: MappedLine[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].text !== '') {
+      result.push(lines[i++]);
+      continue;
+    }
+
+    const runStart = i;
+    while (i < lines.length && lines[i].text === '') i++;
+
+    const hasPrevious = runStart > 0;
+    const hasNext = i < lines.length;
+    const edges = (hasPrevious ? 0 : 1) + (hasNext ? 0 : 1);
+    const newlines = (i - runStart) + 1 - edges;
+    const keep = newlines >= 3 ? 1 + edges : i - runStart;
+
+    result.push(...lines.slice(runStart, runStart + keep));
+  }
+
+  return result;
+}
+
+/**
+ * Line-based equivalent of `text.trim()`.
+ */
+function trimLines(lines: MappedLine[]): MappedLine[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].text.trim() === '') start++;
+  while (end > start && lines[end - 1].text.trim() === '') end--;
+
+  const result = lines.slice(start, end).map(line => ({ ...line }));
+  if (result.length > 0) {
+    result[0].text = result[0].text.trimStart();
+    result[result.length - 1].text = result[result.length - 1].text.trimEnd();
+  }
+  return result;
+}
+
+/**
+ * Transforms the content according to the rules of a marker profile
+ * (the ChatGPT profile by default):
+ * - Replace a user marker at the very start with "<user>" (or prepend "<user>")
+ * - Replace subsequent user markers with "</dungeon_master>\n<user>"
+ * - Replace all DM markers with "</user>\n<dungeon_master>"
  * - Ensure file starts with "<user>" and ends with "</dungeon_master>"
- * - Remove date lines matching /\d+\/\d+/ with no other content
- * - Replace multiple newlines with a single double newline
+ * - Turn session date lines (like 3/14 by default) into <session date="3/14" /> markers,
+ *   placed between the rounds rather than inside the previous reply
+ * - Remove lines matching the profile's drop patterns
+ * - Collapse whitespace as configured (multiple newlines to a single double newline by default)
+ *
+ * The transformation works line by line so that every processed line can be
+ * traced back to the raw line it came from.
  */
-export function transformContent(content: string): string {
-  // Make content case-insensitive for all pattern matching operations
-  const lowerContent = content.toLowerCase();
-  let result = content;
+export function transformContentWithSourceMap(
+  content: string,
+  profile: MarkerProfile = defaultMarkerProfile
+): TransformResult {
+  let lines: MappedLine[] = content.split('\n').map((text, rawLine) => ({ text, rawLine }));
+  let startsWithUserMarker = false;
+  let userMarkerCount = 0;
+  let dmMarkerCount = 0;
 
-  // Check if the content starts with "You said:" pattern
-  const youSaidPattern = /^you said:/i;
-  const firstYouSaidIndex = lowerContent.search(youSaidPattern);
+  // Replace user markers; the one at the very start of the file opens the first round
+  const userPattern = new RegExp(combinePatterns(profile.userMarkers), 'gim');
+  lines = replaceInLines(lines, userPattern, (_match, lineIndex, offset) => {
+    userMarkerCount++;
+    if (lineIndex === 0 && offset === 0) {
+      startsWithUserMarker = true;
+      return "<user>";
+    }
+    return "</dungeon_master>\n<user>";
+  });
 
-  if (firstYouSaidIndex === 0) {
-    // Replace the first occurrence with "<user>"
-    result = result.replace(youSaidPattern, "<user>");
-  } else {
-    // If it doesn't start with "You said:", prepend "<user>"
-    result = "<user>" + result;
+  // If it doesn't start with a user marker, prepend "<user>"
+  if (!startsWithUserMarker) {
+    lines[0] = { ...lines[0], text: "<user>" + lines[0].text };
   }
 
-  // Replace subsequent occurrences of "You said:" with "</dungeon_master>\n<user>"
-  // Use a regex that doesn't match at the start of the string
-  const subsequentYouSaidPattern = /(?<!^)you said:/gi;
-  result = result.replace(subsequentYouSaidPattern, "</dungeon_master>\n<user>");
+  // Replace all DM markers with "</user>\n<dungeon_master>"
+  const dmPattern = new RegExp(combinePatterns(profile.dmMarkers), 'gim');
+  lines = replaceInLines(lines, dmPattern, () => {
+    dmMarkerCount++;
+    return "</user>\n<dungeon_master>";
+  });
 
-  // Replace all instances of "chatGPT said:" with "</user>\n<dungeon_master>"
-  const chatGPTPattern = /chatGPT said:/gi;
-  result = result.replace(chatGPTPattern, "</user>\n<dungeon_master>");
+  // Turn session date lines into session markers
+  if (profile.sessionDatePattern) {
+    const sessionPattern = new RegExp(profile.sessionDatePattern, 'gim');
+    lines = replaceInLines(lines, sessionPattern, match =>
+      match.trim() ? createSessionTag(match.trim()) : match
+    );
+  }
 
-  // Remove lines matching /\d+\/\d+/ with no other content
-  const dateLinePattern = /^\s*\d+\/\d+\s*$/gm;
-  result = result.replace(dateLinePattern, "");
+  // Remove lines matching the drop patterns
+  for (const pattern of profile.dropLinePatterns) {
+    lines = replaceInLines(lines, new RegExp(pattern, 'gim'), () => "");
+  }
 
-  // Replace multiple newlines with a single double newline
-  const multipleNewlinesPattern = /\n{3,}/g;
-  result = result.replace(multipleNewlinesPattern, "\n\n");
+  if (profile.whitespace === 'collapse-all') {
+    // Squeeze runs of spaces/tabs and strip trailing whitespace on every line
+    lines = lines.map(line => ({ ...line, text: line.text.replace(/[ \t]+/g, " ").replace(/ +$/, "") }));
+  }
+
+  if (profile.whitespace !== 'preserve') {
+    // Replace multiple newlines with a single double newline
+    lines = collapseEmptyLines(lines);
+  }
 
   // Ensure the content ends with "</dungeon_master>"
+  const result = lines.map(line => line.text).join('\n');
   if (!result.trim().endsWith("</dungeon_master>")) {
-    result = result.trim() + "\n</dungeon_master>";
+    lines = [...trimLines(lines), { text: "</dungeon_master>", rawLine: -1 }];
   }
 
-  return result;
+  if (profile.sessionDatePattern) {
+    lines = moveSessionTagsBetweenRounds(lines);
+  }
+
+  // Markers that never match usually mean the wrong profile was selected
+  const diagnostics: TransformDiagnostic[] = [];
+  if (content.trim() && userMarkerCount === 0) {
+    diagnostics.push({
+      type: 'missing-user-markers',
+      severity: 'warning',
+      line: 0,
+      message: `No user markers found with the "${profile.name}" profile`
+    });
+  }
+  if (content.trim() && dmMarkerCount === 0) {
+    diagnostics.push({
+      type: 'missing-dm-markers',
+      severity: 'error',
+      line: 0,
+      message: `No dungeon master markers found with the "${profile.name}" profile; the transcript becomes a single round`
+    });
+  }
+
+  return {
+    content: lines.map(line => line.text).join('\n'),
+    sourceMap: lines.map(line => line.rawLine),
+    diagnostics
+  };
+}
+
+/**
+ * Transforms the content according to the rules of a marker profile.
+ * See `transformContentWithSourceMap` for the rules.
+ */
+export function transformContent(content: string, profile: MarkerProfile = defaultMarkerProfile): string {
+  return transformContentWithSourceMap(content, profile).content;
+}
+
+// Play session a round belongs to, from the date lines in the transcript
+export interface RoundSession {
+  index: number;
+  date: string;
+}
+
+// Define the Round interface to fix the type error
+interface Round {
+  id: string; // stable identity from the round's text, see `assignRoundIds`
+  roundIndex: number;
+  startLine: number;
+  endLine: number;
+  lineCount: number;
+  tokenCount: number; // rough estimate, see `estimateTokens`
+  session?: RoundSession;
+  sourceFile?: string; // uploaded file the round came from, when several files were merged
+}
+
+// Rounds longer than this are reported as likely merged turns
+export const DEFAULT_MAX_ROUND_LINES = 1000;
+
+// Line count at which the default grouping starts a new chapter
+export const DEFAULT_MAX_CHAPTER_LINES = 2500;
+
+/**
+ * Estimates the number of tokens a model would see for a text.
+ * Uses the common rule of thumb of about four characters per token for English prose.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Average tokens per processed line, for rounds stored before token estimates existed
+const FALLBACK_TOKENS_PER_LINE = 20;
+
+/**
+ * Returns a round's estimated token count, falling back to a line-based guess.
+ */
+export function getRoundTokenCount(round: { lineCount: number; tokenCount?: number }): number {
+  return round.tokenCount ?? round.lineCount * FALLBACK_TOKENS_PER_LINE;
+}
+
+// A round as far as chapter grouping is concerned; stored rounds may lack token estimates
+export type GroupableRound = Omit<Round, 'tokenCount' | 'id'> & { tokenCount?: number };
+
+// Options for `groupRoundsIntoChapters` and the scene-break grouping in `scene-breaks.ts`
+export interface ChapterGroupingOptions {
+  strategy?: 'size' | 'scene-breaks'; // cut purely by size, or at the best scene break within a size window
+  splitOnSessions?: boolean; // start a new chapter at every play session
+  splitOnSourceFiles?: boolean; // start a new chapter at every merged file
+  maxChapterTokens?: number; // size chapters by estimated tokens instead of lines
+}
+
+// Matches the block tags of processed content
+const blockTagPattern = /<(\/?)(user|dungeon_master)>/gi;
+
+/**
+ * Walks the block tags of processed content and reports structural problems:
+ * user turns with no reply, consecutive DM turns, empty blocks and stray closing tags.
+ */
+function checkBlockStructure(lines: string[]): TransformDiagnostic[] {
+  const diagnostics: TransformDiagnostic[] = [];
+  // 'user-closed' means a user block was closed and a DM block is expected next
+  let block: 'none' | 'user' | 'user-closed' | 'dm' = 'none';
+  let blockStartLine = 0;
+  let blockHasContent = false;
+
+  const checkEmpty = (kind: string) => {
+    if (!blockHasContent) {
+      diagnostics.push({
+        type: 'empty-block',
+        severity: 'warning',
+        line: blockStartLine,
+        message: `Empty ${kind} block`
+      });
+    }
+  };
+
+  const openBlock = (kind: 'user' | 'dm', line: number) => {
+    block = kind;
+    blockStartLine = line;
+    blockHasContent = false;
+  };
+
+  lines.forEach((line, i) => {
+    if (parseSessionTag(line) !== null) return;
+
+    let lastIndex = 0;
+    for (const match of line.matchAll(blockTagPattern)) {
+      if (line.slice(lastIndex, match.index).trim()) blockHasContent = true;
+      lastIndex = match.index + match[0].length;
+
+      const isClosing = match[1] === '/';
+      const tag = match[2].toLowerCase();
+
+      if (!isClosing) {
+        if (tag === 'user' && block === 'user') {
+          diagnostics.push({
+            type: 'user-without-reply',
+            severity: 'warning',
+            line: blockStartLine,
+            message: 'User turn has no dungeon master reply'
+          });
+        }
+        openBlock(tag === 'user' ? 'user' : 'dm', i);
+        continue;
+      }
+
+      if (tag === 'user') {
+        if (block === 'user') {
+          checkEmpty('user');
+          block = 'user-closed';
+        } else if (block === 'dm') {
+          // A DM marker inside a DM turn closes it as if it were a user turn
+          checkEmpty('dungeon master');
+          diagnostics.push({
+            type: 'consecutive-dm',
+            severity: 'warning',
+            line: i,
+            message: 'Consecutive dungeon master turns without a user turn in between'
+          });
+          block = 'user-closed';
+        } else {
+          diagnostics.push({ type: 'stray-closing-tag', severity: 'warning', line: i, message: 'Stray </user> tag' });
+        }
+      } else {
+        if (block === 'dm') {
+          checkEmpty('dungeon master');
+          block = 'none';
+        } else if (block === 'user') {
+          diagnostics.push({
+            type: 'user-without-reply',
+            severity: 'warning',
+            line: blockStartLine,
+            message: 'User turn has no dungeon master reply'
+          });
+          block = 'none';
+        } else {
+          diagnostics.push({ type: 'stray-closing-tag', severity: 'warning', line: i, message: 'Stray </dungeon_master> tag' });
+        }
+      }
+    }
+
+    if (line.slice(lastIndex).trim()) blockHasContent = true;
+  });
+
+  return diagnostics;
 }
 
 /**
  * Parses the processed content into rounds.
  * Each round consists of a pair of <user> and <dungeon_master> nodes.
+ * Rounds that start after a <session> marker are tagged with that session.
  */
 export function parseContentIntoRounds(content: string) {
+  return parseContentIntoRoundsWithDiagnostics(content).rounds;
+}
+
+/**
+ * Parses the processed content into rounds and reports problems with the
+ * transcript's structure, oversized rounds and a dropped final round.
+ */
+export function parseContentIntoRoundsWithDiagnostics(
+  content: string,
+  options: { maxRoundLines?: number } = {}
+): { rounds: Round[]; diagnostics: TransformDiagnostic[] } {
+  const maxRoundLines = options.maxRoundLines ?? DEFAULT_MAX_ROUND_LINES;
+
   // Split the content by lines for analysis
   const lines = content.split('\n');
-  const rounds = [];
+  const parsedRounds: Omit<Round, 'id'>[] = [];
 
-  let currentRound = null;
+  let currentRound: Omit<Round, 'id'> | null = null;
   let userTagFound = false;
+  let currentSession: RoundSession | undefined;
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
 
+    // A session marker applies to every round that starts after it
+    const sessionDate = parseSessionTag(line);
+    if (sessionDate !== null) {
+      currentSession = {
+        index: currentSession ? currentSession.index + 1 : 0,
+        date: sessionDate
+      };
+      continue;
+    }
+
     // Start of a user section
     if (line.includes("<user>")) {
       // If we already found a user tag and now found another one,
       // it means we're starting a new round
       if (userTagFound && currentRound) {
-        rounds.push(currentRound);
+        parsedRounds.push(currentRound);
         currentRound = null;
       }
 
       userTagFound = true;
       currentRound = {
-        roundIndex: rounds.length,
+        roundIndex: parsedRounds.length,
         startLine: i,
         endLine: -1,
-        lineCount: 0
+        lineCount: 0,
+        tokenCount: 0,
+        ...(currentSession && { session: currentSession })
       };
     }
 
@@ -91,34 +551,68 @@ export function parseContentIntoRounds(content: string) {
     if (line.includes("</dungeon_master>") && currentRound) {
       currentRound.endLine = i;
       currentRound.lineCount = currentRound.endLine - currentRound.startLine + 1;
+      currentRound.tokenCount = estimateTokens(lines.slice(currentRound.startLine, i + 1).join('\n'));
     }
   }
 
   // Push the last round if it exists
   if (currentRound && currentRound.endLine !== -1) {
-    rounds.push(currentRound);
+    parsedRounds.push(currentRound);
   }
+  const rounds: Round[] = assignRoundIds(parsedRounds, lines);
 
-  return rounds;
-}
+  const diagnostics = checkBlockStructure(lines);
 
-// Define the Round interface to fix the type error
-interface Round {
-  roundIndex: number;
-  startLine: number;
-  endLine: number;
-  lineCount: number;
+  if (currentRound && currentRound.endLine === -1) {
+    diagnostics.push({
+      type: 'dropped-final-round',
+      severity: 'error',
+      line: currentRound.startLine,
+      message: 'Final round has no closing </dungeon_master> tag and was dropped'
+    });
+  }
+
+  for (const round of rounds) {
+    if (round.lineCount > maxRoundLines) {
+      diagnostics.push({
+        type: 'oversized-round',
+        severity: 'warning',
+        line: round.startLine,
+        roundIndex: round.roundIndex,
+        message: `Round ${round.roundIndex} is ${round.lineCount} lines long (limit ${maxRoundLines})`
+      });
+    }
+  }
+
+  // Attach the round each problem falls in
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.roundIndex !== undefined) continue;
+    const round = rounds.find(r => diagnostic.line >= r.startLine && diagnostic.line <= r.endLine);
+    if (round) diagnostic.roundIndex = round.roundIndex;
+  }
+
+  return {
+    rounds,
+    diagnostics: diagnostics.sort((a, b) => a.line - b.line)
+  };
 }
 
 /**
- * Groups rounds into chapters based on line count threshold.
+ * Groups rounds into chapters based on line count threshold, or on an
+ * estimated token budget when `maxChapterTokens` is given.
+ * With `splitOnSessions`, every new play session also starts a new chapter,
+ * and with `splitOnSourceFiles` so does every merged file.
  */
-export function groupRoundsIntoChapters(rounds: Round[]) {
+export function groupRoundsIntoChapters(
+  rounds: GroupableRound[],
+  options: ChapterGroupingOptions = {}
+) {
   const chapters = [];
   let currentChapter = {
     roundsRange: [0, 0] as [number, number],
-    omit: [] as number[],
-    lineCount: 0
+    omit: [] as string[],
+    lineCount: 0,
+    tokenCount: 0
   };
 
   let chapterStartIndex = 0;
@@ -126,8 +620,21 @@ export function groupRoundsIntoChapters(rounds: Round[]) {
   for (let i = 0; i < rounds.length; i++) {
     const round = rounds[i];
 
-    // If adding this round exceeds the threshold and we already have at least one round
-    if (currentChapter.lineCount + round.lineCount >= 2500 && i > chapterStartIndex) {
+    // Whether this round opens a different play session than the previous one
+    const startsNewSession = !!options.splitOnSessions && i > 0
+      && round.session?.index !== rounds[i - 1].session?.index;
+
+    // Whether this round comes from a different merged file than the previous one
+    const startsNewFile = !!options.splitOnSourceFiles && i > 0
+      && round.sourceFile !== rounds[i - 1].sourceFile;
+
+    // Whether adding this round goes over the chapter size limit
+    const exceedsLimit = options.maxChapterTokens !== undefined
+      ? currentChapter.tokenCount + getRoundTokenCount(round) > options.maxChapterTokens
+      : currentChapter.lineCount + round.lineCount >= DEFAULT_MAX_CHAPTER_LINES;
+
+    // If adding this round exceeds the threshold (or starts a new session or file) and we already have at least one round
+    if ((exceedsLimit || startsNewSession || startsNewFile) && i > chapterStartIndex) {
       // Finish the current chapter
       currentChapter.roundsRange = [chapterStartIndex, i - 1];
       chapters.push({
@@ -139,13 +646,15 @@ export function groupRoundsIntoChapters(rounds: Round[]) {
       chapterStartIndex = i;
       currentChapter = {
         roundsRange: [i, 0] as [number, number],
-        omit: [] as number[],
-        lineCount: 0
+        omit: [] as string[],
+        lineCount: 0,
+        tokenCount: 0
       };
     }
 
-    // Add the current round's line count
+    // Add the current round's line and token counts
     currentChapter.lineCount += round.lineCount;
+    currentChapter.tokenCount += getRoundTokenCount(round);
   }
 
   // Add the last chapter if it has rounds
@@ -168,7 +677,6 @@ export function groupRoundsIntoChapters(rounds: Round[]) {
  * @returns An object containing userContent and dmContent strings
  */
 export function extractBlocks(content: string): { userContent: string; dmContent: string } {
-  console.log('extractBlocks', { content });
   const userRegex = /<user>([\s\S]*?)<\/user>/i;
   const dmRegex = /<dungeon_master>([\s\S]*?)<\/dungeon_master>/i;
 
@@ -180,5 +688,19 @@ export function extractBlocks(content: string): { userContent: string; dmContent
   const dmMatch = content.match(dmRegex);
   const dmContent = dmMatch ? dmMatch[1].trim() : '';
 
-  return { userContent, dmContent };
+  return {
+    userContent: stripSessionTags(userContent),
+    dmContent: stripSessionTags(dmContent)
+  };
+}
+
+/**
+ * Removes session marker lines from a block of text.
+ */
+function stripSessionTags(text: string): string {
+  return text
+    .split('\n')
+    .filter(line => parseSessionTag(line) === null)
+    .join('\n')
+    .trim();
 } 
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { TranscriptImporter, TranscriptTurn, getFileExtension, turnsToProcessedContent } from './shared';
+
+/**
+ * Minimal shape of a ChatGPT `conversations.json` export.
+ * Each conversation stores its messages as a tree of nodes keyed by id.
+ */
+export interface ChatGPTMessageNode {
+  id: string;
+  message: {
+    author: { role: string };
+    content: { content_type: string; parts?: unknown[] };
+    create_time?: number | null;
+  } | null;
+  parent: string | null;
+  children: string[];
+}
+
+export interface ChatGPTConversation {
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTMessageNode>;
+}
+
+/**
+ * Parses the export file into its list of conversations.
+ * A single conversation object is accepted as well as the usual array.
+ */
+export function parseChatGPTExport(content: string): ChatGPTConversation[] {
+  const data = JSON.parse(content);
+  const conversations = Array.isArray(data) ? data : [data];
+  return conversations.filter(
+    (conversation): conversation is ChatGPTConversation =>
+      !!conversation && typeof conversation === 'object' && !!conversation.mapping
+  );
+}
+
+/**
+ * Returns the node ids from the root to the given leaf, following parent links.
+ */
+export function getNodePath(conversation: ChatGPTConversation, leafId: string): string[] {
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let nodeId: string | null = leafId;
+
+  while (nodeId && conversation.mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    path.unshift(nodeId);
+    nodeId = conversation.mapping[nodeId].parent;
+  }
+
+  return path;
+}
+
+/**
+ * Finds the leaf of the branch the ChatGPT UI currently shows.
+ * Falls back to following the last child from the root when `current_node` is missing.
+ */
+export function getCurrentLeafId(conversation: ChatGPTConversation): string | null {
+  if (conversation.current_node && conversation.mapping[conversation.current_node]) {
+    return conversation.current_node;
+  }
+
+  const root = Object.values(conversation.mapping).find(node => !node.parent);
+  let node = root;
+  while (node && node.children.length > 0) {
+    node = conversation.mapping[node.children[node.children.length - 1]];
+  }
+
+  return node?.id ?? null;
+}
+
+/**
+ * Converts the messages along a node path into speaker turns.
+ * System, tool and empty messages are skipped.
+ */
+export function nodePathToTurns(conversation: ChatGPTConversation, path: string[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const nodeId of path) {
+    const message = conversation.mapping[nodeId]?.message;
+    if (!message) continue;
+
+    const role = message.author.role;
+    if (role !== 'user' && role !== 'assistant') continue;
+
+    const text = (message.content.parts ?? [])
+      .filter((part): part is string => typeof part === 'string')
+      .join("\n")
+      .trim();
+    if (!text) continue;
+
+    turns.push({
+      speaker: role === 'user' ? 'user' : 'dm',
+      text,
+      timestamp: message.create_time ? message.create_time * 1000 : undefined
+    });
+  }
+
+  return turns;
+}
+
+export interface ChatGPTConversationInfo {
+  index: number;
+  title: string;
+  createTime?: number;
+  branchCount: number;
+}
+
+export interface ChatGPTBranchInfo {
+  leafId: string;
+  isCurrent: boolean;
+  messageCount: number;
+  // Number of messages shared with the current branch before this one diverges
+  divergesAt: number;
+  preview: string;
+}
+
+/**
+ * Returns the ids of every leaf node that carries a message.
+ */
+function getLeafIds(conversation: ChatGPTConversation): string[] {
+  return Object.values(conversation.mapping)
+    .filter(node => node.children.length === 0 && node.message)
+    .map(node => node.id);
+}
+
+/**
+ * Summarizes the conversations of an export for the conversation picker.
+ */
+export function listConversations(conversations: ChatGPTConversation[]): ChatGPTConversationInfo[] {
+  return conversations.map((conversation, index) => ({
+    index,
+    title: conversation.title || `Conversation ${index + 1}`,
+    createTime: conversation.create_time,
+    branchCount: getLeafIds(conversation).length
+  }));
+}
+
+/**
+ * Lists every branch (root-to-leaf path) of a conversation, the current branch first.
+ * Regenerated replies and edited user messages each create a separate branch.
+ */
+export function listBranches(conversation: ChatGPTConversation): ChatGPTBranchInfo[] {
+  const currentLeafId = getCurrentLeafId(conversation);
+  const currentPath = currentLeafId ? getNodePath(conversation, currentLeafId) : [];
+
+  const branches = getLeafIds(conversation).map(leafId => {
+    const path = getNodePath(conversation, leafId);
+    const turns = nodePathToTurns(conversation, path);
+
+    let divergesAt = 0;
+    while (divergesAt < path.length && path[divergesAt] === currentPath[divergesAt]) {
+      divergesAt++;
+    }
+
+    const lastTurn = turns[turns.length - 1];
+    return {
+      leafId,
+      isCurrent: leafId === currentLeafId,
+      messageCount: turns.length,
+      divergesAt: nodePathToTurns(conversation, path.slice(0, divergesAt)).length,
+      preview: lastTurn ? lastTurn.text.slice(0, 80) : ''
+    };
+  });
+
+  return branches.sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent));
+}
+
+export const chatGPTJsonImporter: TranscriptImporter = {
+  format: 'chatgpt-json',
+  label: 'ChatGPT export (conversations.json)',
+  detect: (fileName, content) => {
+    const extension = getFileExtension(fileName);
+    if (extension !== 'json' && !content.trimStart().startsWith('[') && !content.trimStart().startsWith('{')) {
+      return false;
+    }
+    try {
+      return parseChatGPTExport(content).length > 0;
+    } catch {
+      return false;
+    }
+  },
+  transform: (content, options = {}) => {
+    const conversation = parseChatGPTExport(content)[options.conversationIndex ?? 0];
+    if (!conversation) return { content: '', sourceMap: [], diagnostics: [] };
+
+    const leafId = options.branchLeafId && conversation.mapping[options.branchLeafId]
+      ? options.branchLeafId
+      : getCurrentLeafId(conversation);
+    const turns = leafId ? nodePathToTurns(conversation, getNodePath(conversation, leafId)) : [];
+    return turnsToProcessedContent(turns);
+  },
+};
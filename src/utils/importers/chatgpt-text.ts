@@ -0,0 +1,14 @@
+import { transformContentWithSourceMap } from '@/utils/content-transformation';
+import { TranscriptImporter } from './shared';
+
+/**
+ * Plain text copied from a chat UI, split into turns by a speaker-marker profile
+ * ("You said:" / "chatGPT said:" by default). This is also the fallback importer
+ * when no other format is detected.
+ */
+export const chatGPTTextImporter: TranscriptImporter = {
+  format: 'chatgpt-text',
+  label: 'Plain text',
+  detect: (_fileName, content) => /you said:/i.test(content) || /chatgpt said:/i.test(content),
+  transform: (content, options = {}) => transformContentWithSourceMap(content, options.markerProfile),
+};
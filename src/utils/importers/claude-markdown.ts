@@ -0,0 +1,48 @@
+import { TranscriptImporter, TranscriptTurn, getFileExtension, turnsToProcessedContent } from './shared';
+
+// Speaker lines used by common Claude markdown exporters, e.g. "## Human", "**Assistant:**"
+const speakerLinePattern = /^\s*(?:#{1,6}\s*|\*\*)?(human|user|assistant|claude)(?:\s*:)?(?:\*\*)?(?:\s*:)?\s*$/i;
+
+/**
+ * Splits a Claude markdown export into speaker turns.
+ * Text before the first speaker line (titles, export metadata) is ignored.
+ */
+export function parseClaudeMarkdown(content: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let current: TranscriptTurn & { rawLines: number[] } | null = null;
+
+  content.split('\n').forEach((line, rawLine) => {
+    const match = line.match(speakerLinePattern);
+    if (match) {
+      if (current) turns.push(current);
+      const speaker = match[1].toLowerCase();
+      current = {
+        speaker: speaker === 'assistant' || speaker === 'claude' ? 'dm' : 'user',
+        text: '',
+        rawLines: []
+      };
+      return;
+    }
+
+    if (current) {
+      current.text += (current.rawLines.length > 0 ? "\n" : "") + line;
+      current.rawLines.push(rawLine);
+    }
+  });
+
+  if (current) turns.push(current);
+
+  return turns;
+}
+
+export const claudeMarkdownImporter: TranscriptImporter = {
+  format: 'claude-markdown',
+  label: 'Claude markdown',
+  detect: (fileName, content) => {
+    const extension = getFileExtension(fileName);
+    if (extension !== 'md' && extension !== 'markdown') return false;
+    const turns = parseClaudeMarkdown(content);
+    return turns.some(turn => turn.speaker === 'user') && turns.some(turn => turn.speaker === 'dm');
+  },
+  transform: (content) => turnsToProcessedContent(parseClaudeMarkdown(content)),
+};
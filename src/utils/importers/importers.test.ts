@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { detectImporter, importTranscript, listBranches, parseChatGPTExport } from './index';
+
+const chatGPTExport = JSON.stringify([
+    {
+        title: 'Campaign',
+        current_node: 'c',
+        mapping: {
+            root: { id: 'root', message: null, parent: null, children: ['a'] },
+            a: {
+                id: 'a',
+                message: { author: { role: 'user' }, content: { content_type: 'text', parts: ['I open the door'] } },
+                parent: 'root',
+                children: ['b', 'c']
+            },
+            b: {
+                id: 'b',
+                message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['An old branch'] } },
+                parent: 'a',
+                children: []
+            },
+            c: {
+                id: 'c',
+                message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['The door creaks open'] } },
+                parent: 'a',
+                children: []
+            }
+        }
+    }
+]);
+
+describe('detectImporter', () => {
+    it('detects a ChatGPT conversations.json export', () => {
+        expect(detectImporter('conversations.json', chatGPTExport).format).toBe('chatgpt-json');
+    });
+
+    it('detects a SillyTavern JSONL chat log', () => {
+        const content = [
+            JSON.stringify({ user_name: 'Player', character_name: 'GM', chat_metadata: {} }),
+            JSON.stringify({ name: 'Player', is_user: true, mes: 'Hello' }),
+        ].join('\n');
+
+        expect(detectImporter('chat.jsonl', content).format).toBe('sillytavern-jsonl');
+    });
+
+    it('detects a Claude markdown export', () => {
+        const content = '# Campaign\n\n## Human\n\nHello\n\n## Assistant\n\nWelcome, traveler.';
+
+        expect(detectImporter('campaign.md', content).format).toBe('claude-markdown');
+    });
+
+    it('falls back to the ChatGPT text importer', () => {
+        expect(detectImporter('story.txt', 'You said:\nHello').format).toBe('chatgpt-text');
+    });
+});
+
+describe('importTranscript', () => {
+    it('follows the current branch of a ChatGPT export', () => {
+        const result = importTranscript('conversations.json', chatGPTExport);
+
+        expect(result.processedContent).toBe(
+            '<user>\nI open the door\n</user>\n<dungeon_master>\nThe door creaks open\n</dungeon_master>'
+        );
+        expect(result.rounds).toHaveLength(1);
+    });
+
+    it('skips SillyTavern metadata and system messages', () => {
+        const content = [
+            JSON.stringify({ user_name: 'Player', character_name: 'GM', chat_metadata: {} }),
+            JSON.stringify({ name: 'GM', is_user: false, mes: 'Welcome' }),
+            JSON.stringify({ name: 'Player', is_user: true, mes: 'I look around' }),
+            JSON.stringify({ name: 'System', is_system: true, mes: 'ignored' }),
+            JSON.stringify({ name: 'GM', is_user: false, mes: 'You see a tavern' }),
+        ].join('\n');
+
+        const result = importTranscript('chat.jsonl', content);
+
+        expect(result.rounds).toHaveLength(2);
+        expect(result.processedContent).not.toContain('ignored');
+    });
+
+    it('produces the same rounds as the text pipeline for ChatGPT text', () => {
+        const content = 'You said:\nHello\nChatGPT said:\nWelcome\nYou said:\nBye\nChatGPT said:\nFarewell';
+
+        const result = importTranscript('story.txt', content);
+
+        expect(result.format).toBe('chatgpt-text');
+        expect(result.rounds).toHaveLength(2);
+    });
+});
+
+describe('ChatGPT export branches', () => {
+    it('lists the current branch first', () => {
+        const [conversation] = parseChatGPTExport(chatGPTExport);
+        const branches = listBranches(conversation);
+
+        expect(branches.map(branch => branch.leafId)).toEqual(['c', 'b']);
+        expect(branches[1].divergesAt).toBe(1);
+    });
+
+    it('follows an alternate branch when selected', () => {
+        const result = importTranscript('conversations.json', chatGPTExport, 'chatgpt-json', {
+            conversationIndex: 0,
+            branchLeafId: 'b'
+        });
+
+        expect(result.processedContent).toContain('An old branch');
+        expect(result.processedContent).not.toContain('The door creaks open');
+    });
+});
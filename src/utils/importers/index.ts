@@ -0,0 +1,64 @@
+/**
+ * Transcript importer registry.
+ * Sniffs an uploaded file, picks the matching importer and produces the same
+ * processed content and rounds as the plain-text ChatGPT pipeline.
+ */
+import { parseContentIntoRoundsWithDiagnostics } from '@/utils/content-transformation';
+import { chatGPTJsonImporter } from './chatgpt-json';
+import { sillyTavernJsonlImporter } from './sillytavern-jsonl';
+import { claudeMarkdownImporter } from './claude-markdown';
+import { chatGPTTextImporter } from './chatgpt-text';
+import { ImportFormat, ImportOptions, TranscriptImporter } from './shared';
+
+export type { ImportFormat, ImportOptions, TranscriptImporter, TranscriptTurn } from './shared';
+export { parseChatGPTExport, listConversations, listBranches } from './chatgpt-json';
+export type { ChatGPTConversation, ChatGPTConversationInfo, ChatGPTBranchInfo } from './chatgpt-json';
+
+// Ordered from most to least specific; the ChatGPT text importer is the fallback
+export const transcriptImporters: TranscriptImporter[] = [
+  chatGPTJsonImporter,
+  sillyTavernJsonlImporter,
+  claudeMarkdownImporter,
+  chatGPTTextImporter,
+];
+
+// File extensions accepted by the upload area
+export const supportedFileExtensions = ['.txt', '.md', '.markdown', '.json', '.jsonl'];
+
+/**
+ * Returns the importer for a given format.
+ */
+export function getImporter(format: ImportFormat): TranscriptImporter {
+  const importer = transcriptImporters.find(importer => importer.format === format);
+  if (!importer) {
+    throw new Error(`Unknown transcript format: ${format}`);
+  }
+  return importer;
+}
+
+/**
+ * Picks the first importer whose `detect` matches the file.
+ */
+export function detectImporter(fileName: string, content: string): TranscriptImporter {
+  return transcriptImporters.find(importer => importer.detect(fileName, content)) ?? chatGPTTextImporter;
+}
+
+/**
+ * Imports a transcript file: detects its format (unless given), converts it
+ * into processed content with a source map back to the raw file, and parses the
+ * rounds. Problems found along the way are returned as diagnostics.
+ */
+export function importTranscript(fileName: string, content: string, format?: ImportFormat, options?: ImportOptions) {
+  const importer = format ? getImporter(format) : detectImporter(fileName, content);
+  const { content: processedContent, sourceMap, diagnostics: transformDiagnostics } = importer.transform(content, options);
+  const { rounds, diagnostics: parseDiagnostics } = parseContentIntoRoundsWithDiagnostics(processedContent);
+
+  return {
+    format: importer.format,
+    formatLabel: importer.label,
+    processedContent,
+    sourceMap,
+    rounds,
+    diagnostics: [...transformDiagnostics, ...parseDiagnostics]
+  };
+}
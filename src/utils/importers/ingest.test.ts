@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { importTranscript } from './index';
+import { readFileInChunks, runIngest, IngestProgress } from './ingest';
+
+const transcript = 'You said:\nI open the door\nChatGPT said:\nThe door creaks open\nYou said:\nI step inside\nChatGPT said:\nIt is dark';
+
+describe('readFileInChunks', () => {
+    it('should decode multi-byte characters split across chunks', async () => {
+        const bytes = new TextEncoder().encode('Dragon 🐉 lair');
+        // Split inside the four-byte emoji
+        const file = new Blob([bytes.slice(0, 9), bytes.slice(9)]);
+        const progress: number[] = [];
+
+        expect(await readFileInChunks(file, loaded => progress.push(loaded))).toBe('Dragon 🐉 lair');
+        expect(progress[progress.length - 1]).toBe(bytes.byteLength);
+    });
+});
+
+describe('runIngest', () => {
+    it('should produce the same rounds as a synchronous import', async () => {
+        const result = await runIngest({ source: new File([transcript], 'campaign.txt'), fileName: 'campaign.txt' });
+
+        expect(result.rawContent).toBe(transcript);
+        expect(result.rounds).toEqual(importTranscript('campaign.txt', transcript).rounds);
+        expect(result.chapters).toEqual([{ roundsRange: [0, 1], omit: [] }]);
+        expect(result.conversations).toEqual([]);
+    });
+
+    it('should report every phase in order', async () => {
+        const phases: IngestProgress['phase'][] = [];
+        await runIngest({ source: new File([transcript], 'campaign.txt'), fileName: 'campaign.txt' }, progress => {
+            if (phases[phases.length - 1] !== progress.phase) phases.push(progress.phase);
+        });
+
+        expect(phases).toEqual(['reading', 'processing', 'grouping']);
+    });
+
+    it('should count content that was already read in bytes', async () => {
+        const content = transcript.replace('dark', 'dark 🐉');
+        const totals: number[] = [];
+        await runIngest({ source: content, fileName: 'campaign.txt' }, progress => totals.push(progress.total));
+
+        expect(totals).toEqual([content.length + 2, content.length + 2]);
+    });
+});
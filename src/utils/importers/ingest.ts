@@ -0,0 +1,161 @@
+/**
+ * Off-main-thread transcript ingestion.
+ * Large campaign files are read in chunks and imported inside a Web Worker so
+ * the upload card can show progress and cancel without freezing the tab.
+ * Parsing isn't streamed: once the whole file is read it is imported and
+ * grouped in one pass each, which report no progress of their own.
+ */
+import { ChapterGroupingOptions } from '@/utils/content-transformation';
+import { groupRoundsByStrategy } from '@/utils/scene-breaks';
+import { importTranscript, parseChatGPTExport } from './index';
+import type { ChatGPTConversation } from './chatgpt-json';
+import type { ImportFormat, ImportOptions } from './shared';
+
+// Only 'reading' reports progress as it goes; the other phases are reported as they start
+export type IngestPhase = 'reading' | 'processing' | 'grouping';
+
+export interface IngestProgress {
+  phase: IngestPhase;
+  loaded: number; // bytes read so far
+  total: number; // total bytes, 0 when unknown
+}
+
+export interface IngestRequest {
+  source: File | string; // a file to read, or content that was already read
+  fileName: string;
+  format?: ImportFormat;
+  options?: ImportOptions;
+  grouping?: ChapterGroupingOptions;
+}
+
+export type IngestResult = ReturnType<typeof importTranscript> & {
+  rawContent: string;
+  chapters: ReturnType<typeof groupRoundsByStrategy>;
+  conversations: ChatGPTConversation[];
+};
+
+// Messages posted by the ingest worker
+export type IngestWorkerMessage =
+  | { type: 'progress'; progress: IngestProgress }
+  | { type: 'done'; result: IngestResult }
+  | { type: 'error'; message: string };
+
+export class IngestCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'IngestCancelledError';
+  }
+}
+
+/**
+ * Reads a file chunk by chunk, reporting the number of bytes read after each chunk.
+ */
+export async function readFileInChunks(file: Blob, onProgress?: (loaded: number) => void): Promise<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    loaded += value.byteLength;
+    // Multi-byte characters may straddle chunks, so keep the decoder streaming
+    chunks.push(decoder.decode(value, { stream: true }));
+    onProgress?.(loaded);
+  }
+  chunks.push(decoder.decode());
+
+  return chunks.join('');
+}
+
+/**
+ * Reads, imports and groups a transcript. This is what the worker runs, but it
+ * has no worker dependencies of its own. The file is read in chunks, then
+ * imported from the complete text.
+ */
+export async function runIngest(
+  request: IngestRequest,
+  onProgress: (progress: IngestProgress) => void = () => {}
+): Promise<IngestResult> {
+  const { source, fileName, format, options, grouping } = request;
+  // In bytes either way, like the counts reported while a file is read
+  const total = typeof source === 'string' ? new TextEncoder().encode(source).byteLength : source.size;
+
+  let rawContent: string;
+  if (typeof source === 'string') {
+    rawContent = source;
+  } else {
+    // Only report whole-percent changes to keep the message channel quiet
+    let lastPercent = -1;
+    rawContent = await readFileInChunks(source, loaded => {
+      const percent = total ? Math.floor((loaded / total) * 100) : 0;
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      onProgress({ phase: 'reading', loaded, total });
+    });
+  }
+
+  onProgress({ phase: 'processing', loaded: total, total });
+  const imported = importTranscript(fileName, rawContent, format, options);
+
+  onProgress({ phase: 'grouping', loaded: total, total });
+  const chapters = groupRoundsByStrategy(imported.rounds, imported.processedContent, grouping);
+
+  return {
+    ...imported,
+    rawContent,
+    chapters,
+    // ChatGPT exports may hold several conversations and branches to choose from
+    conversations: imported.format === 'chatgpt-json' ? parseChatGPTExport(rawContent) : []
+  };
+}
+
+export interface IngestTask {
+  promise: Promise<IngestResult>;
+  cancel: () => void;
+}
+
+/**
+ * Runs `runIngest` in a dedicated worker. Cancelling terminates the worker and
+ * rejects the promise with an `IngestCancelledError`.
+ */
+export function startIngest(request: IngestRequest, onProgress?: (progress: IngestProgress) => void): IngestTask {
+  const worker = new Worker(new URL('./ingest.worker.ts', import.meta.url), { type: 'module' });
+  let rejectTask: (reason: Error) => void = () => {};
+
+  const promise = new Promise<IngestResult>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (event: MessageEvent<IngestWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Import worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectTask(new IngestCancelledError());
+    }
+  };
+}
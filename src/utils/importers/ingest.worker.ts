@@ -0,0 +1,15 @@
+/**
+ * Web Worker entry point for transcript ingestion. See `startIngest`.
+ */
+import { runIngest, IngestRequest, IngestWorkerMessage } from './ingest';
+
+const post = (message: IngestWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+  try {
+    const result = await runIngest(event.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { runIngest } from './ingest';
+import { getSessionDateSortKey, mergeIngestResults, MergeSource, sortMergeSources } from './merge';
+
+const ingest = async (fileName: string, content: string): Promise<MergeSource> => ({
+    fileName,
+    fileSizeKB: 1,
+    result: await runIngest({ source: content, fileName })
+});
+
+const part1 = 'You said:\nI open the door\nChatGPT said:\nThe door creaks open';
+const part2 = 'You said:\nI step inside\nChatGPT said:\nIt is dark\n3/14\nYou said:\nLight a torch\nChatGPT said:\nShadows flee';
+
+describe('mergeIngestResults', () => {
+    it('should concatenate rounds and record their source file', async () => {
+        const merged = mergeIngestResults([await ingest('part-1.txt', part1), await ingest('part-2.txt', part2)]);
+
+        expect(merged.rounds.map(round => [round.roundIndex, round.sourceFile])).toEqual([
+            [0, 'part-1.txt'],
+            [1, 'part-2.txt'],
+            [2, 'part-2.txt']
+        ]);
+        expect(merged.rawContent).toBe(`${part1}\n${part2}`);
+
+        // Shifted rounds and source map still point at the right lines
+        const processedLines = merged.processedContent.split('\n');
+        const rawLines = merged.rawContent.split('\n');
+        const secondRound = merged.rounds[1];
+        expect(processedLines.slice(secondRound.startLine, secondRound.endLine + 1)).toContain('I step inside');
+        expect(rawLines[merged.sourceMap[processedLines.indexOf('I step inside')]]).toBe('I step inside');
+    });
+
+    it('should keep sessions apart when a file skips a session index', async () => {
+        const skipping = 'You said:\nWait\nChatGPT said:\nTime passes\n3/1\n3/8\nYou said:\nGo on\nChatGPT said:\nYou do';
+        const merged = mergeIngestResults([await ingest('part-1.txt', skipping), await ingest('part-2.txt', part2)]);
+
+        expect(merged.rounds.map(round => round.session?.index)).toEqual([undefined, 1, undefined, 2]);
+    });
+
+    it('should refuse an empty list of files', () => {
+        expect(() => mergeIngestResults([])).toThrow('There are no files to merge');
+    });
+
+    it('should optionally start a new chapter at each file', async () => {
+        const sources = [await ingest('part-1.txt', part1), await ingest('part-2.txt', part2)];
+
+        expect(mergeIngestResults(sources).chapters).toHaveLength(1);
+        expect(mergeIngestResults(sources, { splitOnSourceFiles: true }).chapters.map(chapter => chapter.roundsRange))
+            .toEqual([[0, 0], [1, 2]]);
+    });
+});
+
+describe('sortMergeSources', () => {
+    it('should sort by name with numbers in order', async () => {
+        const sources = [await ingest('part-10.txt', part1), await ingest('part-2.txt', part1)];
+
+        expect(sortMergeSources(sources, 'name').map(source => source.fileName)).toEqual(['part-2.txt', 'part-10.txt']);
+    });
+
+    it('should sort by first session date and put undated files last', async () => {
+        const sources = [
+            await ingest('undated.txt', part1),
+            await ingest('later.txt', part2.replace('3/14', '4/2')),
+            await ingest('earlier.txt', part2)
+        ];
+
+        expect(sortMergeSources(sources, 'session-date').map(source => source.fileName))
+            .toEqual(['earlier.txt', 'later.txt', 'undated.txt']);
+    });
+
+    it('should understand ISO and slashed dates', () => {
+        expect(getSessionDateSortKey('2024-03-14')).toBeLessThan(getSessionDateSortKey('2024-04-02'));
+        expect(getSessionDateSortKey('12/31/23')).toBeLessThan(getSessionDateSortKey('1/1/2024'));
+        expect(getSessionDateSortKey('someday')).toBeNaN();
+    });
+});
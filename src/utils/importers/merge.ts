@@ -0,0 +1,142 @@
+/**
+ * Merging of several imported transcript files into one campaign timeline.
+ * Long campaigns span many conversations, so each file is imported on its own
+ * and the results are concatenated in the order the user picked.
+ */
+import { ChapterGroupingOptions } from '@/utils/content-transformation';
+import { assignRoundIds } from '@/utils/round-id';
+import { groupRoundsByStrategy } from '@/utils/scene-breaks';
+import type { IngestResult } from './ingest';
+
+export interface MergeSource {
+  fileName: string;
+  fileSizeKB: number;
+  result: IngestResult;
+}
+
+export type MergeOrder = 'name' | 'session-date';
+
+/**
+ * Date of the first play session in an imported file, if it has any.
+ */
+export function getFirstSessionDate(result: IngestResult): string | undefined {
+  return result.rounds.find(round => round.session)?.session?.date;
+}
+
+/**
+ * Turns a session date into a number that sorts chronologically, or NaN when
+ * the date isn't recognised. Handles `YYYY-MM-DD` and `M/D` or `M/D/YY(YY)`.
+ */
+export function getSessionDateSortKey(date: string): number {
+  const iso = date.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return Number(iso[1]) * 10000 + Number(iso[2]) * 100 + Number(iso[3]);
+  }
+
+  const slashed = date.trim().match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (slashed) {
+    const year = slashed[3] ? Number(slashed[3].length === 2 ? `20${slashed[3]}` : slashed[3]) : 0;
+    return year * 10000 + Number(slashed[1]) * 100 + Number(slashed[2]);
+  }
+
+  return NaN;
+}
+
+/**
+ * Sorts merge sources by file name, or by the date of their first session.
+ * Files without a recognisable date go last, in name order.
+ */
+export function sortMergeSources(sources: MergeSource[], order: MergeOrder): MergeSource[] {
+  const byName = (a: MergeSource, b: MergeSource) =>
+    a.fileName.localeCompare(b.fileName, undefined, { numeric: true });
+
+  if (order === 'name') {
+    return [...sources].sort(byName);
+  }
+
+  const dateKey = (source: MergeSource) => {
+    const date = getFirstSessionDate(source.result);
+    return date === undefined ? NaN : getSessionDateSortKey(date);
+  };
+  return [...sources].sort((a, b) => {
+    const keyA = dateKey(a);
+    const keyB = dateKey(b);
+    if (isNaN(keyA) || isNaN(keyB)) {
+      return isNaN(keyA) === isNaN(keyB) ? byName(a, b) : isNaN(keyA) ? 1 : -1;
+    }
+    return keyA - keyB || byName(a, b);
+  });
+}
+
+/**
+ * Concatenates imported files into one result. Raw and processed content are
+ * joined line by line, so rounds, sessions, source maps and diagnostics are
+ * shifted by the lines, rounds and sessions of the files before them. Every
+ * round records the file it came from, and rounds repeated across files get
+ * distinct IDs. Throws when there are no files to merge.
+ */
+export function mergeIngestResults(
+  sources: MergeSource[],
+  options: ChapterGroupingOptions = {}
+): IngestResult {
+  if (sources.length === 0) {
+    throw new Error('There are no files to merge');
+  }
+
+  const rawParts: string[] = [];
+  const processedParts: string[] = [];
+  const sourceMap: number[] = [];
+  const rounds: IngestResult['rounds'] = [];
+  const diagnostics: IngestResult['diagnostics'] = [];
+  let rawOffset = 0;
+  let processedOffset = 0;
+  let sessionOffset = 0;
+
+  for (const { fileName, result } of sources) {
+    const roundOffset = rounds.length;
+
+    rawParts.push(result.rawContent);
+    processedParts.push(result.processedContent);
+    sourceMap.push(...result.sourceMap.map(rawLine => rawLine === -1 ? -1 : rawLine + rawOffset));
+
+    for (const round of result.rounds) {
+      rounds.push({
+        ...round,
+        roundIndex: round.roundIndex + roundOffset,
+        startLine: round.startLine + processedOffset,
+        endLine: round.endLine + processedOffset,
+        session: round.session && { ...round.session, index: round.session.index + sessionOffset },
+        sourceFile: fileName
+      });
+    }
+
+    for (const diagnostic of result.diagnostics) {
+      diagnostics.push({
+        ...diagnostic,
+        line: diagnostic.line + processedOffset,
+        roundIndex: diagnostic.roundIndex === undefined ? undefined : diagnostic.roundIndex + roundOffset,
+        message: `${fileName}: ${diagnostic.message}`
+      });
+    }
+
+    rawOffset += result.rawContent.split('\n').length;
+    processedOffset += result.processedContent.split('\n').length;
+    // Session indices count date lines, so a file's may skip the ones that have no rounds
+    sessionOffset += Math.max(-1, ...result.rounds.map(round => round.session?.index ?? -1)) + 1;
+  }
+
+  const processedContent = processedParts.join('\n');
+  const mergedRounds = assignRoundIds(rounds, processedContent.split('\n'));
+
+  return {
+    format: sources[0].result.format,
+    formatLabel: `${sources.length} merged files`,
+    rawContent: rawParts.join('\n'),
+    processedContent,
+    sourceMap,
+    rounds: mergedRounds,
+    chapters: groupRoundsByStrategy(mergedRounds, processedContent, options),
+    diagnostics,
+    conversations: []
+  };
+}
@@ -0,0 +1,146 @@
+import { createSessionTag, type MarkerProfile, type TransformResult } from '@/utils/content-transformation';
+
+/**
+ * Shared types and helpers for transcript importers.
+ * Every importer reduces its source format to a list of speaker turns, which is
+ * then rendered into the same <user>/<dungeon_master> markup that
+ * `transformContent` produces for plain-text ChatGPT transcripts.
+ */
+
+export type ImportFormat = 'chatgpt-text' | 'chatgpt-json' | 'claude-markdown' | 'sillytavern-jsonl';
+
+export interface TranscriptTurn {
+  speaker: 'user' | 'dm';
+  text: string;
+  // When the message was sent (ms since epoch), if the format records it
+  timestamp?: number;
+  // Raw file line of each line of `text`, if the format can tell
+  rawLines?: number[];
+}
+
+// Format-specific choices made by the user after the file has been sniffed
+export interface ImportOptions {
+  // Index of the conversation to load from a multi-conversation export
+  conversationIndex?: number;
+  // Id of the leaf message whose branch should be followed
+  branchLeafId?: string;
+  // Speaker-marker profile used for plain-text transcripts
+  markerProfile?: MarkerProfile;
+}
+
+export interface TranscriptImporter {
+  format: ImportFormat;
+  label: string;
+  // Returns true when the file looks like this importer's format
+  detect: (fileName: string, content: string) => boolean;
+  // Converts the raw file content into <user>/<dungeon_master> processed content
+  // and a map from processed lines back to raw lines
+  transform: (content: string, options?: ImportOptions) => TransformResult;
+}
+
+// A turn's text split into lines, each with the raw line it came from (-1 if unknown)
+interface TurnLines {
+  speaker: TranscriptTurn['speaker'];
+  lines: { text: string; rawLine: number }[];
+  timestamp?: number;
+}
+
+/**
+ * Splits a turn into mapped lines and drops leading/trailing blank lines,
+ * the line-based equivalent of `text.trim()`.
+ */
+function toTrimmedLines(turn: TranscriptTurn): TurnLines['lines'] {
+  const lines = turn.text.split('\n').map((text, i) => ({ text, rawLine: turn.rawLines?.[i] ?? -1 }));
+
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].text.trim()) start++;
+  while (end > start && !lines[end - 1].text.trim()) end--;
+
+  const trimmed = lines.slice(start, end);
+  if (trimmed.length > 0) {
+    trimmed[0] = { ...trimmed[0], text: trimmed[0].text.trimStart() };
+    trimmed[trimmed.length - 1] = { ...trimmed[trimmed.length - 1], text: trimmed[trimmed.length - 1].text.trimEnd() };
+  }
+  return trimmed;
+}
+
+/**
+ * Renders speaker turns into processed content.
+ * Consecutive turns from the same speaker are merged, and a leading DM turn gets
+ * an empty user block so that every round is a <user>/<dungeon_master> pair.
+ * A <session> marker is emitted before a user turn sent on a new calendar day.
+ */
+export function turnsToProcessedContent(turns: TranscriptTurn[]): TransformResult {
+  const merged: TurnLines[] = [];
+
+  for (const turn of turns) {
+    const lines = toTrimmedLines(turn);
+    if (lines.length === 0) continue;
+
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === turn.speaker) {
+      previous.lines.push({ text: '', rawLine: -1 }, ...lines);
+    } else {
+      merged.push({ speaker: turn.speaker, lines, timestamp: turn.timestamp });
+    }
+  }
+
+  if (merged.length > 0 && merged[0].speaker === 'dm') {
+    merged.unshift({ speaker: 'user', lines: [{ text: '', rawLine: -1 }] });
+  }
+
+  const output: { text: string; rawLine: number }[] = [];
+  const tagLine = (text: string) => output.push({ text, rawLine: -1 });
+  let lastSessionDate: string | null = null;
+
+  for (const turn of merged) {
+    // Tags map to the raw line where the turn starts
+    const firstRawLine = turn.lines.find(line => line.rawLine !== -1)?.rawLine ?? -1;
+
+    if (turn.speaker === 'user') {
+      const sessionDate = turn.timestamp !== undefined ? formatSessionDate(turn.timestamp) : null;
+      if (sessionDate && sessionDate !== lastSessionDate) {
+        tagLine(createSessionTag(sessionDate));
+        lastSessionDate = sessionDate;
+      }
+    }
+
+    const tag = turn.speaker === 'user' ? 'user' : 'dungeon_master';
+    output.push({ text: `<${tag}>`, rawLine: firstRawLine });
+    output.push(...turn.lines);
+    output.push({ text: `</${tag}>`, rawLine: turn.lines[turn.lines.length - 1].rawLine });
+  }
+
+  // A trailing user turn without a reply still needs a closing DM block
+  if (merged.length > 0 && merged[merged.length - 1].speaker === 'user') {
+    tagLine("<dungeon_master>");
+    tagLine("</dungeon_master>");
+  }
+
+  return {
+    content: output.map(line => line.text).join("\n"),
+    sourceMap: output.map(line => line.rawLine),
+    diagnostics: []
+  };
+}
+
+/**
+ * Formats a timestamp as a local YYYY-MM-DD session date.
+ */
+function formatSessionDate(timestamp: number): string | null {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return null;
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Returns the file extension (lowercase, without the dot) of a file name.
+ */
+export function getFileExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.slice(dotIndex + 1).toLowerCase();
+}
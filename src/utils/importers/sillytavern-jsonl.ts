@@ -0,0 +1,55 @@
+import { TranscriptImporter, TranscriptTurn, getFileExtension, turnsToProcessedContent } from './shared';
+
+interface SillyTavernMessage {
+  name?: string;
+  is_user?: boolean;
+  is_system?: boolean;
+  mes?: string;
+  send_date?: string | number;
+}
+
+/**
+ * Parses a SillyTavern JSONL chat log into speaker turns.
+ * The first line is chat metadata (no `mes` field) and system messages are skipped.
+ */
+export function parseSillyTavernJsonl(content: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  content.split('\n').forEach((line, rawLine) => {
+    if (!line.trim()) return;
+
+    const message = JSON.parse(line) as SillyTavernMessage;
+    if (typeof message.mes !== 'string' || message.is_system) return;
+
+    const timestamp = message.send_date !== undefined ? new Date(message.send_date).getTime() : NaN;
+    turns.push({
+      speaker: message.is_user ? 'user' : 'dm',
+      text: message.mes,
+      timestamp: isNaN(timestamp) ? undefined : timestamp,
+      // The whole message lives on a single JSONL line
+      rawLines: message.mes.split('\n').map(() => rawLine)
+    });
+  });
+
+  return turns;
+}
+
+export const sillyTavernJsonlImporter: TranscriptImporter = {
+  format: 'sillytavern-jsonl',
+  label: 'SillyTavern JSONL',
+  detect: (fileName, content) => {
+    const extension = getFileExtension(fileName);
+    if (extension !== 'jsonl' && extension !== 'json') return false;
+    try {
+      const lines = content.split('\n').filter(line => line.trim());
+      return lines.length > 1 && lines.slice(0, 3).every(line => {
+        const parsed = JSON.parse(line);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+          && ('mes' in parsed || 'user_name' in parsed || 'chat_metadata' in parsed);
+      });
+    } catch {
+      return false;
+    }
+  },
+  transform: (content) => turnsToProcessedContent(parseSillyTavernJsonl(content)),
+};
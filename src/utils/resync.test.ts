@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseContentIntoRounds, transformContent } from './content-transformation';
+import { resyncRounds } from './resync';
+import type { Chapter, Round } from '@/store';
+
+// Builds processed content and rounds from [user, dm] pairs
+const project = (pairs: [string, string][]) => {
+    const processedContent = transformContent(pairs.map(([user, dm]) => `You said:\n${user}\nChatGPT said:\n${dm}`).join('\n'));
+    return { processedContent, rounds: parseContentIntoRounds(processedContent) as Round[] };
+};
+
+const played: [string, string][] = [['Look around', 'A cave'], ['Light a torch', 'Shadows flee'], ['Go deeper', 'A chasm']];
+
+const summarized = () => {
+    const { processedContent, rounds } = project(played);
+    return {
+        processedContent,
+        rounds: rounds.map(round => ({ ...round, summary: `Summary ${round.roundIndex}`, summaryStatus: 'completed' as const })),
+        chapters: [{ roundsRange: [0, 1], omit: [rounds[1].id] }, { roundsRange: [2, 2], omit: [] }] as Chapter[]
+    };
+};
+
+describe('resyncRounds', () => {
+    it('should keep summaries and omits and append new rounds in a new chapter', () => {
+        const previous = summarized();
+        const result = resyncRounds(previous, project([...played, ['Jump', 'You fly']]));
+
+        expect(result.rounds.map(round => round.summary)).toEqual(['Summary 0', 'Summary 1', 'Summary 2', undefined]);
+        expect(result.chapters.map(({ roundsRange, omit }) => ({ roundsRange, omit }))).toEqual([
+            { roundsRange: [0, 1], omit: [previous.rounds[1].id] },
+            { roundsRange: [2, 2], omit: [] },
+            { roundsRange: [3, 3], omit: [] }
+        ]);
+        expect(result.stats).toEqual({ unchanged: 3, changed: 0, inserted: 0, removed: 0, appended: 1 });
+    });
+
+    it('should append new rounds to the trailing chapter when asked', () => {
+        const result = resyncRounds(summarized(), project([...played, ['Jump', 'You fly']]), { appendTo: 'trailing-chapter' });
+
+        expect(result.chapters.map(chapter => chapter.roundsRange)).toEqual([[0, 1], [2, 3]]);
+    });
+
+    it('should flag rounds whose text changed', () => {
+        const edited: [string, string][] = [played[0], ['Light a torch', 'Shadows flee, hissing'], played[2]];
+        const result = resyncRounds(summarized(), project(edited));
+
+        expect(result.rounds[1]).toMatchObject({ summary: 'Summary 1', textChanged: true });
+        expect(result.rounds[0].textChanged).toBeUndefined();
+        expect(result.rounds[1].id).not.toBe(summarized().rounds[1].id);
+        expect(result.stats.changed).toBe(1);
+    });
+
+    it('should shift indices around removed rounds', () => {
+        const result = resyncRounds(summarized(), project([played[0], played[2]]));
+
+        expect(result.rounds.map(round => round.summary)).toEqual(['Summary 0', 'Summary 2']);
+        expect(result.chapters.map(({ roundsRange, omit }) => ({ roundsRange, omit }))).toEqual([
+            { roundsRange: [0, 0], omit: [] },
+            { roundsRange: [1, 1], omit: [] }
+        ]);
+        expect(result.rounds[1].id).toBe(summarized().rounds[2].id);
+        expect(result.stats.removed).toBe(1);
+    });
+
+    it('should only carry finished summaries over, and drop those of chapters whose rounds changed', () => {
+        const previous = summarized();
+        const rounds: Round[] = previous.rounds.map(round => round.roundIndex === 2 ? { ...round, summaryStatus: 'inProgress' } : round);
+        const chapters: Chapter[] = [
+            { ...previous.chapters[0], summary: 'Arrival', summaryStatus: 'completed' },
+            { ...previous.chapters[1], summary: 'The chasm', summaryStatus: 'completed' }
+        ];
+        const result = resyncRounds({ ...previous, rounds, chapters }, project([played[0], played[2]]));
+
+        expect(result.rounds[1]).toMatchObject({ summary: 'Summary 2', summaryStatus: undefined });
+        expect(result.chapters[0].summary).toBeUndefined();
+        expect(result.chapters[1]).toMatchObject({ summary: 'The chasm', summaryStatus: 'completed' });
+    });
+});
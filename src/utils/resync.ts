@@ -0,0 +1,194 @@
+/**
+ * Re-sync of a re-uploaded transcript with the rounds and chapters already in the store.
+ * Rounds are matched by their text so summaries, omits and hand-tuned chapter
+ * boundaries survive; rounds played since the last upload are appended.
+ */
+import type { Chapter, Round } from '@/store';
+import { ChapterGroupingOptions, extractBlocks } from './content-transformation';
+import { groupRoundsByStrategy } from './scene-breaks';
+
+// How far ahead to look for a matching round before treating a pair as changed
+const MATCH_LOOKAHEAD = 50;
+
+export interface ResyncOptions {
+  appendTo?: 'new-chapter' | 'trailing-chapter'; // where rounds after the last matched round go
+  grouping?: ChapterGroupingOptions; // used when grouping appended rounds into new chapters
+}
+
+export interface ResyncStats {
+  unchanged: number;
+  changed: number; // matched by position, but the text differs
+  inserted: number; // new rounds between matched rounds
+  removed: number; // stored rounds missing from the new transcript
+  appended: number;
+}
+
+export interface ResyncResult {
+  rounds: Round[];
+  chapters: Chapter[];
+  roundIdMap: Map<string, string>; // stored round ID -> ID of the matched new round
+  chapterIndexMap: Map<number, number>; // stored chapter index -> new chapter index
+  stats: ResyncStats;
+}
+
+/**
+ * Whitespace-insensitive text of a round, used to match rounds across uploads.
+ */
+export function getRoundMatchKey(round: Round, processedLines: string[]): string {
+  const roundContent = processedLines.slice(round.startLine, round.endLine + 1).join('\n');
+  const { userContent, dmContent } = extractBlocks(roundContent);
+  return `${userContent}\n${dmContent}`.replace(/\s+/g, ' ').trim();
+}
+
+// Next position >= from (and within the lookahead) holding the key, or -1
+const findNext = (positions: Map<string, number[]>, key: string, from: number) => {
+  const next = positions.get(key)?.find(position => position >= from);
+  return next !== undefined && next - from <= MATCH_LOOKAHEAD ? next : -1;
+};
+
+// Only finished summaries carry over; requests in flight belong to the replaced rounds and chapters
+const carriedStatus = (status: Round['summaryStatus']) =>
+  status === 'completed' || status === 'failed' ? status : undefined;
+
+const indexKeys = (keys: string[]) => {
+  const positions = new Map<string, number[]>();
+  keys.forEach((key, index) => positions.set(key, [...(positions.get(key) ?? []), index]));
+  return positions;
+};
+
+/**
+ * Matches the rounds of a new upload against the stored rounds and rebuilds the chapters.
+ */
+export function resyncRounds(
+  previous: { rounds: Round[]; chapters: Chapter[]; processedContent: string },
+  next: { rounds: Round[]; processedContent: string },
+  options: ResyncOptions = {}
+): ResyncResult {
+  const previousLines = previous.processedContent.split('\n');
+  const nextLines = next.processedContent.split('\n');
+  const previousKeys = previous.rounds.map(round => getRoundMatchKey(round, previousLines));
+  const nextKeys = next.rounds.map(round => getRoundMatchKey(round, nextLines));
+  const previousPositions = indexKeys(previousKeys);
+  const nextPositions = indexKeys(nextKeys);
+
+  const stats: ResyncStats = { unchanged: 0, changed: 0, inserted: 0, removed: 0, appended: 0 };
+  const roundIndexMap = new Map<number, number>();
+  const changedRounds = new Set<number>(); // new indices whose text changed
+
+  // Walk both round lists in order, skipping inserted or removed runs when the text shows up again shortly
+  let i = 0;
+  let j = 0;
+  while (i < previousKeys.length && j < nextKeys.length) {
+    if (previousKeys[i] === nextKeys[j]) {
+      roundIndexMap.set(i++, j++);
+      stats.unchanged++;
+      continue;
+    }
+
+    const inNext = findNext(nextPositions, previousKeys[i], j);
+    const inPrevious = findNext(previousPositions, nextKeys[j], i);
+    if (inNext !== -1 && (inPrevious === -1 || inNext - j <= inPrevious - i)) {
+      stats.inserted += inNext - j;
+      j = inNext;
+    } else if (inPrevious !== -1) {
+      stats.removed += inPrevious - i;
+      i = inPrevious;
+    } else {
+      changedRounds.add(j);
+      roundIndexMap.set(i++, j++);
+      stats.changed++;
+    }
+  }
+  stats.removed += previousKeys.length - i;
+
+  // Everything after the last matched round counts as newly played
+  const appendStart = j;
+  stats.appended = nextKeys.length - appendStart;
+
+  const roundIdMap = new Map([...roundIndexMap].map(([from, to]) => [previous.rounds[from].id, next.rounds[to].id]));
+
+  // Carry summaries over to the matched rounds
+  const previousIndexByNext = new Map([...roundIndexMap].map(([from, to]) => [to, from]));
+  const rounds = next.rounds.map((round, index) => {
+    const previousIndex = previousIndexByNext.get(index);
+    if (previousIndex === undefined) return round;
+
+    const previousRound = previous.rounds[previousIndex];
+    const textChanged = changedRounds.has(index) || previousRound.textChanged;
+    return {
+      ...round,
+      summary: previousRound.summary,
+      summaryStatus: carriedStatus(previousRound.summaryStatus),
+      ...(textChanged ? { textChanged: true } : {})
+    };
+  });
+
+  // Assign every new round up to the append point to a stored chapter
+  const previousChapterOf = (roundIndex: number) =>
+    previous.chapters.findIndex(({ roundsRange: [start, end] }) => roundIndex >= start && roundIndex <= end);
+  const chapterOf: number[] = [];
+  for (let index = 0; index < appendStart; index++) {
+    const previousIndex = previousIndexByNext.get(index);
+    const chapterIndex = previousIndex === undefined ? -1 : previousChapterOf(previousIndex);
+    // Inserted rounds join the chapter of the round before them
+    chapterOf.push(chapterIndex !== -1 ? chapterIndex : chapterOf[index - 1] ?? -1);
+  }
+  // Rounds inserted before the first matched round join the first chapter that follows
+  const firstAssigned = chapterOf.find(chapterIndex => chapterIndex !== -1) ?? 0;
+  for (let index = 0; index < chapterOf.length && chapterOf[index] === -1; index++) {
+    chapterOf[index] = firstAssigned;
+  }
+
+  // Rebuild each surviving chapter around its rounds' new positions
+  const chapters: Chapter[] = [];
+  const chapterIndexMap = new Map<number, number>();
+  chapterOf.forEach((chapterIndex, roundIndex) => {
+    const last = chapters[chapters.length - 1];
+    if (last && chapterOf[roundIndex - 1] === chapterIndex) {
+      last.roundsRange = [last.roundsRange[0], roundIndex];
+      return;
+    }
+
+    const previousChapter = previous.chapters[chapterIndex] ?? { omit: [] };
+    chapterIndexMap.set(chapterIndex, chapters.length);
+    chapters.push({ ...previousChapter, roundsRange: [roundIndex, roundIndex], omit: [] });
+  });
+  previous.chapters.forEach((chapter, chapterIndex) => {
+    const newChapterIndex = chapterIndexMap.get(chapterIndex);
+    if (newChapterIndex === undefined) return;
+
+    chapters[newChapterIndex].omit = chapter.omit
+      .map(roundId => roundIdMap.get(roundId))
+      .filter((roundId): roundId is string => roundId !== undefined);
+  });
+
+  // Newly played rounds either extend the last chapter or get chapters of their own
+  if (stats.appended > 0) {
+    const lastChapter = chapters[chapters.length - 1];
+    if (options.appendTo === 'trailing-chapter' && lastChapter) {
+      lastChapter.roundsRange = [lastChapter.roundsRange[0], rounds.length - 1];
+    } else {
+      const appended = groupRoundsByStrategy(rounds.slice(appendStart), next.processedContent, options.grouping);
+      chapters.push(...appended.map(chapter => ({
+        ...chapter,
+        roundsRange: [chapter.roundsRange[0] + appendStart, chapter.roundsRange[1] + appendStart] as [number, number]
+      })));
+    }
+  }
+
+  // Chapters that gained or lost rounds need new summaries
+  chapterIndexMap.forEach((newChapterIndex, chapterIndex) => {
+    const [previousStart, previousEnd] = previous.chapters[chapterIndex].roundsRange;
+    const previousIds = previous.rounds.slice(previousStart, previousEnd + 1).map(round => roundIdMap.get(round.id));
+    const [start, end] = chapters[newChapterIndex].roundsRange;
+    const ids = rounds.slice(start, end + 1).map(round => round.id);
+
+    const { summary, summaryStatus, lastError, ...chapter } = chapters[newChapterIndex];
+    const sameRounds = previousIds.length === ids.length && previousIds.every((id, index) => id === ids[index]);
+    chapters[newChapterIndex] = sameRounds
+      ? { ...chapter, summary, summaryStatus: carriedStatus(summaryStatus), lastError }
+      : chapter;
+  });
+
+  return { rounds, chapters, roundIdMap, chapterIndexMap, stats };
+}
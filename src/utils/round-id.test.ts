@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseContentIntoRounds, transformContent } from './content-transformation';
+
+const parse = (transcript: string) => parseContentIntoRounds(transformContent(transcript));
+
+describe('round IDs', () => {
+    it('should keep a round\'s ID when rounds before it are added', () => {
+        const [first, second] = parse('You said:\nLook around\nChatGPT said:\nA cave\nYou said:\nGo deeper\nChatGPT said:\nA chasm');
+        const reparsed = parse('You said:\nWake up\nChatGPT said:\nYou are cold\n' +
+            'You said:\nLook around\nChatGPT said:\nA cave\nYou said:\nGo deeper\nChatGPT said:\nA chasm');
+
+        expect(reparsed.map(round => round.id)).toEqual([expect.any(String), first.id, second.id]);
+        expect(reparsed[2].roundIndex).toBe(2);
+    });
+
+    it('should ignore whitespace differences', () => {
+        const [round] = parse('You said:\nLook around\nChatGPT said:\nA cave');
+        const [respaced] = parse('You said:\n  Look   around\n\nChatGPT said:\nA cave  ');
+
+        expect(respaced.id).toBe(round.id);
+    });
+
+    it('should tell apart rounds with the same text', () => {
+        const rounds = parse('You said:\nContinue\nChatGPT said:\nOn you go\nYou said:\nContinue\nChatGPT said:\nOn you go');
+
+        expect(rounds[1].id).toBe(`${rounds[0].id}-2`);
+    });
+});
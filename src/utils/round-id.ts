@@ -0,0 +1,58 @@
+/**
+ * Stable round identities.
+ * A round's ID is a hash of its normalized text, so summaries, omits and queue
+ * entries stay with the round when a re-import or a parser change moves it to
+ * a new position. `roundIndex` is only the round's position.
+ */
+
+// Block and session tags aren't part of a round's text
+const TAG_PATTERN = /<\/?(?:user|dungeon_master)>|<session date="[^"]*"\s*\/>/gi;
+
+/**
+ * Whitespace-insensitive text of a round, without block or session tags.
+ */
+export function getRoundText(round: { startLine: number; endLine: number }, processedLines: string[]): string {
+  return processedLines
+    .slice(round.startLine, round.endLine + 1)
+    .join('\n')
+    .replace(TAG_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fast 53-bit string hash (cyrb53), in base 36. Not cryptographic; collisions
+ * between rounds of one transcript are vanishingly unlikely.
+ */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Gives every round an ID from its text. Rounds with the same text, such as a
+ * repeated "continue", are told apart by the order they appear in.
+ */
+export function assignRoundIds<T extends { startLine: number; endLine: number }>(
+  rounds: T[],
+  processedLines: string[]
+): (T & { id: string })[] {
+  const seen = new Map<string, number>();
+
+  return rounds.map(round => {
+    const hash = hashText(getRoundText(round, processedLines));
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+
+    return { ...round, id: occurrence === 1 ? `r-${hash}` : `r-${hash}-${occurrence}` };
+  });
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseContentIntoRounds, transformContent } from './content-transformation';
+import { groupRoundsBySceneBreaks, isHeaderLikeLine, scoreBreakPoints } from './scene-breaks';
+
+// Builds processed content and rounds from DM narrations
+const campaign = (narrations: string[]) => {
+    const processedContent = transformContent(narrations.map(dm => `You said:\nWhat happens?\nChatGPT said:\n${dm}`).join('\n'));
+    return { processedContent, rounds: parseContentIntoRounds(processedContent) };
+};
+
+const battle = 'The dragon roars and the knights raise their shields against the flames.';
+
+describe('isHeaderLikeLine', () => {
+    it('should recognise scene headers', () => {
+        expect(isHeaderLikeLine('Impact Imminent. War Unleashed.')).toBe(true);
+        expect(isHeaderLikeLine('The Rift Bomb Drops. Chaos Erupts.')).toBe(true);
+        expect(isHeaderLikeLine('## The Harbor at Dawn')).toBe(true);
+    });
+
+    it('should ignore narration', () => {
+        expect(isHeaderLikeLine('She flips the switch.')).toBe(false);
+        expect(isHeaderLikeLine('And above them?')).toBe(false);
+        expect(isHeaderLikeLine(battle)).toBe(false);
+    });
+});
+
+describe('scoreBreakPoints', () => {
+    it('should score headers and time skips above continuing scenes', () => {
+        const { processedContent, rounds } = campaign([
+            battle,
+            battle,
+            'Hours Later. The Quiet Harbor.\nThe next morning the fishing boats drift in the fog.'
+        ]);
+        const [continuing, newScene] = scoreBreakPoints(rounds, processedContent);
+
+        expect(newScene.reasons).toEqual(expect.arrayContaining(['header', 'time-skip']));
+        expect(newScene.score).toBeGreaterThan(continuing.score);
+    });
+});
+
+describe('groupRoundsBySceneBreaks', () => {
+    it('should cut at the scene break within the size window', () => {
+        const { processedContent, rounds } = campaign([
+            battle, battle, battle,
+            'Aftermath. Smoke Over The Valley.\nThe battlefield lies silent under drifting ash.',
+            'Villagers return to count their losses among the ruined farms.',
+            'Children search the rubble for anything worth keeping.'
+        ]);
+        const chapters = groupRoundsBySceneBreaks(rounds, processedContent);
+        // Chapters may hold about 2 to 5 rounds
+        const sized = groupRoundsBySceneBreaks(rounds, processedContent, {
+            maxChapterTokens: rounds.slice(0, 5).reduce((sum, round) => sum + round.tokenCount, 0)
+        });
+
+        expect(chapters).toHaveLength(1);
+        expect(sized.map(chapter => chapter.roundsRange)).toEqual([[0, 2], [3, 5]]);
+    });
+
+    it('should honour forced session breaks', () => {
+        const { processedContent, rounds } = campaign([`${battle}\n3/14`, battle]);
+        const chapters = groupRoundsBySceneBreaks(rounds, processedContent, { splitOnSessions: true });
+
+        expect(chapters.map(chapter => chapter.roundsRange)).toEqual([[0, 0], [1, 1]]);
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Scene-break-aware chapter grouping.
+ * Scores the gap before every round with offline heuristics (header-like title
+ * lines, scene-break markers, time skips and location changes, new play
+ * sessions and vocabulary shifts) and places chapter boundaries at the best
+ * scoring gaps that keep each chapter within a size window.
+ */
+import {
+  ChapterGroupingOptions,
+  DEFAULT_MAX_CHAPTER_LINES,
+  extractBlocks,
+  getRoundTokenCount,
+  GroupableRound,
+  groupRoundsIntoChapters
+} from './content-transformation';
+
+// Chapters must reach this share of the maximum size before a scene break may end them
+export const MIN_CHAPTER_SIZE_RATIO = 0.4;
+
+// Number of rounds on each side of a gap compared for vocabulary shifts
+const VOCABULARY_WINDOW = 2;
+
+// Weights of each signal in a gap's score
+const SCORE_WEIGHTS = {
+  session: 1.5,
+  header: 1,
+  sceneMarker: 1,
+  timeSkip: 0.5,
+  vocabularyShift: 1
+};
+
+// Lines that separate scenes, e.g. `***`, `* * *`, `---` or `⁂`
+const SCENE_MARKER_PATTERN = /^\s*(?:[*\-~_=#]\s*){3,}$|^\s*⁂\s*$/;
+
+// Phrases that open a new scene by moving in time or place
+const TIME_SKIP_PATTERN = /\b(?:(?:hours|days|weeks|months|years|moments|some time) (?:later|pass|passed)|the next (?:morning|day|night|evening)|meanwhile|elsewhere|at (?:dawn|dusk|sunrise|sunset)|later that (?:day|night|evening)|that night|the following (?:morning|day)|back (?:at|on|in) the)\b/i;
+
+// Short, common words that say nothing about what a scene is about
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'from', 'have', 'they', 'them', 'their', 'there', 'what', 'when', 'where', 'which',
+  'your', 'you\'re', 'into', 'just', 'like', 'then', 'than', 'were', 'will', 'would', 'could', 'should',
+  'about', 'over', 'only', 'some', 'more', 'through', 'back', 'down', 'still', 'even', 'every', 'each',
+  'been', 'being', 'before', 'after', 'again', 'against', 'while', 'because', 'other', 'another', 'does'
+]);
+
+export type BreakReason = 'session' | 'header' | 'scene-marker' | 'time-skip' | 'vocabulary-shift';
+
+export interface BreakPointScore {
+  index: number; // position of the round the break would come before
+  score: number;
+  reasons: BreakReason[];
+}
+
+/**
+ * Whether a line looks like a scene header: a markdown heading, a bold line, or
+ * a short line of mostly capitalised words such as "Impact Imminent. War Unleashed."
+ */
+export function isHeaderLikeLine(line: string): boolean {
+  const trimmed = line.trim();
+  if (/^#{1,6}\s+\S/.test(trimmed) || /^\*\*[^*]+\*\*$/.test(trimmed)) return true;
+  if (trimmed.length < 3 || trimmed.length > 80 || /[,;:?"“”]$/.test(trimmed)) return false;
+
+  const words = trimmed.split(/\s+/).filter(word => /[A-Za-z]/.test(word));
+  if (words.length === 0 || words.length > 10) return false;
+
+  const significant = words.filter(word => word.replace(/[^A-Za-z]/g, '').length > 3);
+  if (significant.length === 0) return false;
+
+  const capitalised = significant.filter(word => /^[^A-Za-z]*[A-Z]/.test(word));
+  return capitalised.length / significant.length >= 0.75;
+}
+
+// Content words of a text, for comparing what neighbouring rounds are about
+const getVocabulary = (text: string) => new Set(
+  (text.toLowerCase().match(/[a-z][a-z']{3,}/g) ?? []).filter(word => !STOPWORDS.has(word))
+);
+
+// 1 when two vocabularies share nothing, 0 when they are the same
+const getVocabularyShift = (before: Set<string>, after: Set<string>) => {
+  if (before.size === 0 || after.size === 0) return 0;
+  let shared = 0;
+  after.forEach(word => { if (before.has(word)) shared++; });
+  return 1 - shared / (before.size + after.size - shared);
+};
+
+const union = (sets: Set<string>[]) => new Set(sets.flatMap(set => [...set]));
+
+/**
+ * Scores the gap before every round but the first. Higher scores are better chapter starts.
+ */
+export function scoreBreakPoints(rounds: GroupableRound[], processedContent: string): BreakPointScore[] {
+  const lines = processedContent.split('\n');
+  const dmTexts = rounds.map(round => extractBlocks(lines.slice(round.startLine, round.endLine + 1).join('\n')).dmContent);
+  const vocabularies = dmTexts.map(getVocabulary);
+
+  return rounds.slice(1).map((round, offset) => {
+    const index = offset + 1;
+    const reasons: BreakReason[] = [];
+    let score = 0;
+
+    if (round.session?.index !== rounds[index - 1].session?.index) {
+      score += SCORE_WEIGHTS.session;
+      reasons.push('session');
+    }
+
+    // Only the opening of the narration says whether the round starts a scene
+    const openingLines = dmTexts[index].split('\n').filter(line => line.trim()).slice(0, 3);
+    if (openingLines.some(line => SCENE_MARKER_PATTERN.test(line))) {
+      score += SCORE_WEIGHTS.sceneMarker;
+      reasons.push('scene-marker');
+    }
+    if (openingLines.slice(0, 2).some(isHeaderLikeLine)) {
+      score += SCORE_WEIGHTS.header;
+      reasons.push('header');
+    }
+    if (TIME_SKIP_PATTERN.test(openingLines.join(' ').slice(0, 300))) {
+      score += SCORE_WEIGHTS.timeSkip;
+      reasons.push('time-skip');
+    }
+
+    const shift = getVocabularyShift(
+      union(vocabularies.slice(Math.max(0, index - VOCABULARY_WINDOW), index)),
+      union(vocabularies.slice(index, index + VOCABULARY_WINDOW))
+    );
+    score += shift * SCORE_WEIGHTS.vocabularyShift;
+    if (shift >= 0.9) reasons.push('vocabulary-shift');
+
+    return { index, score, reasons };
+  });
+}
+
+/**
+ * Groups rounds into chapters at the best scoring scene breaks. Each chapter
+ * ends at the highest scoring gap that keeps it between the minimum and maximum
+ * size (estimated tokens with `maxChapterTokens`, otherwise lines). Session and
+ * file splits, when asked for, are always honoured.
+ */
+export function groupRoundsBySceneBreaks(
+  rounds: GroupableRound[],
+  processedContent: string,
+  options: ChapterGroupingOptions = {}
+) {
+  const maxSize = options.maxChapterTokens ?? DEFAULT_MAX_CHAPTER_LINES;
+  const minSize = maxSize * MIN_CHAPTER_SIZE_RATIO;
+  const sizeOf = (round: GroupableRound) => options.maxChapterTokens !== undefined ? getRoundTokenCount(round) : round.lineCount;
+  const scores = scoreBreakPoints(rounds, processedContent);
+  const scoreBefore = (index: number) => scores[index - 1]?.score ?? 0;
+
+  // Breaks the user asked for explicitly
+  const isForcedBreak = (index: number) =>
+    (!!options.splitOnSessions && rounds[index].session?.index !== rounds[index - 1].session?.index)
+    || (!!options.splitOnSourceFiles && rounds[index].sourceFile !== rounds[index - 1].sourceFile);
+
+  const chapters: { roundsRange: [number, number]; omit: string[] }[] = [];
+  let start = 0;
+  while (start < rounds.length) {
+    let size = 0;
+    let best = -1;
+    let end = start;
+
+    // Walk forward until the chapter would get too big, remembering the best gap in the window
+    for (; end < rounds.length; end++) {
+      if (end > start && isForcedBreak(end)) break;
+      if (end > start && size >= minSize && (best === -1 || scoreBefore(end) >= scoreBefore(best))) {
+        best = end;
+      }
+      if (end > start && size + sizeOf(rounds[end]) > maxSize) break;
+      size += sizeOf(rounds[end]);
+    }
+
+    // Forced breaks, the end of the transcript and windows without a candidate cut where the walk stopped
+    const cut = end >= rounds.length || (end > start && isForcedBreak(end)) || best === -1 ? end : best;
+    chapters.push({ roundsRange: [start, cut - 1], omit: [] });
+    start = cut;
+  }
+
+  return chapters;
+}
+
+/**
+ * Groups rounds with the strategy named in the options.
+ */
+export function groupRoundsByStrategy(
+  rounds: GroupableRound[],
+  processedContent: string,
+  options: ChapterGroupingOptions = {}
+) {
+  return options.strategy === 'scene-breaks'
+    ? groupRoundsBySceneBreaks(rounds, processedContent, options)
+    : groupRoundsIntoChapters(rounds, options);
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { transformContentWithSourceMap } from './content-transformation';
+import { getRawExcerpt, getRawLineRange } from './source-map';
+
+const raw = 'You said:\nHello\nChatGPT said:\nWelcome\n\n\n\nto the tavern\nYou said:\nBye\nChatGPT said:\nFarewell';
+
+describe('transformContentWithSourceMap', () => {
+    it('maps every processed line to a raw line', () => {
+        const { content, sourceMap } = transformContentWithSourceMap(raw);
+
+        expect(sourceMap).toHaveLength(content.split('\n').length);
+        // "<user>" replaced the marker on raw line 0
+        expect(sourceMap[0]).toBe(0);
+        // "to the tavern" survives the newline collapse
+        const processedLine = content.split('\n').indexOf('to the tavern');
+        expect(sourceMap[processedLine]).toBe(7);
+    });
+});
+
+describe('getRawLineRange', () => {
+    it('ignores inserted lines', () => {
+        expect(getRawLineRange([-1, 3, 4, -1, 9], 0, 4)).toEqual([3, 9]);
+        expect(getRawLineRange([-1, -1], 0, 1)).toBeNull();
+    });
+});
+
+describe('getRawExcerpt', () => {
+    it('marks changed and removed raw lines', () => {
+        const { content, sourceMap } = transformContentWithSourceMap(raw);
+
+        const excerpt = getRawExcerpt(raw, content, sourceMap, 0, 7);
+
+        expect(excerpt[0].status).toBe('changed');
+        expect(excerpt[1].status).toBe('unchanged');
+        expect(excerpt.filter(line => line.status === 'removed')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Helpers for mapping processed content back to the raw upload.
+ * A source map is an array where index `i` holds the raw line of processed
+ * line `i`, or -1 for lines inserted by the transformation.
+ */
+
+export type SourceMap = number[];
+
+export interface RawExcerptLine {
+  rawLine: number;
+  text: string;
+  // 'removed': no processed line comes from this raw line
+  // 'changed': the processed lines differ from the raw text
+  status: 'unchanged' | 'changed' | 'removed';
+  // Processed lines that came from this raw line
+  processedLines: string[];
+}
+
+/**
+ * Returns the raw line range [first, last] covered by processed lines
+ * startLine..endLine (inclusive), or null if none of them map to the raw file.
+ */
+export function getRawLineRange(sourceMap: SourceMap, startLine: number, endLine: number): [number, number] | null {
+  const rawLines = sourceMap
+    .slice(startLine, endLine + 1)
+    .filter(rawLine => rawLine !== -1);
+
+  if (rawLines.length === 0) return null;
+
+  return [Math.min(...rawLines), Math.max(...rawLines)];
+}
+
+/**
+ * Builds the raw excerpt for lines rawStart..rawEnd (inclusive) and marks
+ * which lines the transformation removed or changed.
+ */
+export function getRawExcerpt(
+  rawContent: string,
+  processedContent: string,
+  sourceMap: SourceMap,
+  rawStart: number,
+  rawEnd: number
+): RawExcerptLine[] {
+  const rawLines = rawContent.split('\n');
+  const processedLines = processedContent.split('\n');
+
+  // Group processed lines by the raw line they came from
+  const processedByRaw = new Map<number, string[]>();
+  sourceMap.forEach((rawLine, processedLine) => {
+    if (rawLine < rawStart || rawLine > rawEnd) return;
+    const lines = processedByRaw.get(rawLine) ?? [];
+    lines.push(processedLines[processedLine] ?? '');
+    processedByRaw.set(rawLine, lines);
+  });
+
+  const excerpt: RawExcerptLine[] = [];
+  for (let rawLine = rawStart; rawLine <= Math.min(rawEnd, rawLines.length - 1); rawLine++) {
+    const text = rawLines[rawLine];
+    const processed = processedByRaw.get(rawLine) ?? [];
+
+    excerpt.push({
+      rawLine,
+      text,
+      status: processed.length === 0
+        ? 'removed'
+        : processed.join('\n') === text ? 'unchanged' : 'changed',
+      processedLines: processed
+    });
+  }
+
+  return excerpt;
+}
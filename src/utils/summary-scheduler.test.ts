@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Chapter, SummaryQueueItem } from '@/store';
+import { getChapterSummaryProgress, getRetryDelay, isRetryableError, pickRoundsToStart, SummaryRequestError } from './summary-scheduler';
+import { makeRounds } from '@/test/rounds';
+
+const rounds = makeRounds(9, 4, roundIndex => ({ summaryStatus: roundIndex === 0 ? 'completed' : undefined }));
+
+const chapters: Chapter[] = [
+    { roundsRange: [0, 2], omit: [] },
+    { roundsRange: [3, 5], omit: [] },
+    { roundsRange: [6, 8], omit: ['r-8'] }
+];
+
+const queued = (...roundIndices: number[]): SummaryQueueItem<string>[] =>
+    roundIndices.map(roundIndex => ({ id: `r-${roundIndex}`, type: 'round', status: 'pending' }));
+
+describe('pickRoundsToStart', () => {
+    it('should let chapters take turns in queue order', () => {
+        const queue = queued(1, 2, 3, 4, 6, 7);
+
+        expect(pickRoundsToStart(queue, rounds, chapters, new Set(), { maxConcurrentChapters: 3, maxConcurrentRounds: 2 }))
+            .toEqual(['r-1', 'r-3', 'r-6', 'r-2', 'r-4', 'r-7']);
+    });
+
+    it('should keep within the chapter and round limits', () => {
+        const queue = queued(1, 2, 3, 4, 6, 7);
+
+        expect(pickRoundsToStart(queue, rounds, chapters, new Set(), { maxConcurrentChapters: 2, maxConcurrentRounds: 1 }))
+            .toEqual(['r-1', 'r-3']);
+    });
+
+    it('should count rounds already in flight', () => {
+        const queue = queued(1, 2, 3, 4, 6);
+        queue[0].status = 'inProgress';
+
+        expect(pickRoundsToStart(queue, rounds, chapters, new Set(['r-1']), { maxConcurrentChapters: 2, maxConcurrentRounds: 2 }))
+            .toEqual(['r-2', 'r-3', 'r-4']);
+    });
+
+    it('should leave rounds waiting for a retry until their time', () => {
+        const queue = queued(1, 2);
+        queue[0].retryAt = 5000;
+
+        expect(pickRoundsToStart(queue, rounds, chapters, new Set(), { maxConcurrentChapters: 1, maxConcurrentRounds: 1 }, 4000))
+            .toEqual(['r-2']);
+    });
+
+    it('should skip paused rounds', () => {
+        const queue = queued(1, 2, 3);
+        queue[0].paused = true;
+        queue[1].paused = true;
+
+        expect(pickRoundsToStart(queue, rounds, chapters, new Set(), { maxConcurrentChapters: 2, maxConcurrentRounds: 2 }))
+            .toEqual(['r-3']);
+    });
+});
+
+describe('retries', () => {
+    it('should retry rate limits, server errors and network failures only', () => {
+        const response = (status: number) => SummaryRequestError.fromResponse(new Response(null, { status }));
+
+        expect(isRetryableError(response(429))).toBe(true);
+        expect(isRetryableError(response(502))).toBe(true);
+        expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isRetryableError(response(400))).toBe(false);
+        expect(isRetryableError(new Error('No dungeon master content found in the round'))).toBe(false);
+    });
+
+    it('should back off exponentially unless the server says how long to wait', () => {
+        const rateLimited = SummaryRequestError.fromResponse(new Response(null, { status: 429, headers: { 'Retry-After': '30' } }));
+
+        expect([1, 2, 3, 10].map(attempt => getRetryDelay(attempt))).toEqual([2000, 4000, 8000, 60000]);
+        expect(getRetryDelay(1, rateLimited)).toBe(30000);
+    });
+});
+
+describe('getChapterSummaryProgress', () => {
+    it('should count summarized, running and queued rounds the chapter keeps', () => {
+        const queue = queued(1, 2, 8);
+        queue[0].status = 'inProgress';
+
+        expect(getChapterSummaryProgress(chapters[0], rounds, queue)).toEqual({ total: 3, completed: 1, inProgress: 1, pending: 1 });
+        expect(getChapterSummaryProgress(chapters[2], rounds, queue)).toEqual({ total: 2, completed: 0, inProgress: 0, pending: 0 });
+    });
+});
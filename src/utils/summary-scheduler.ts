@@ -0,0 +1,149 @@
+/**
+ * Scheduling of queued round summaries. Several rounds are summarized at once,
+ * spread over a limited number of chapters so that every chapter makes
+ * progress instead of the first one holding every request. Requests that fail
+ * for passing reasons are retried after a growing delay.
+ */
+import type { Chapter, Round, SummaryQueueItem, SummaryQueueSettings } from '@/store';
+
+// Delay before the first retry, doubled for every further one
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+/**
+ * A failed summary request. Rate limits, server errors and network failures
+ * are worth retrying; anything wrong with the round itself isn't.
+ */
+export class SummaryRequestError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null; // how long the server asked us to wait, if it did
+
+  constructor(message: string, retryable: boolean, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'SummaryRequestError';
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Error for a response that wasn't ok, honouring a Retry-After header given in seconds
+  static fromResponse(response: Response): SummaryRequestError {
+    const retryable = response.status === 429 || response.status >= 500;
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return new SummaryRequestError(
+      `Server error: ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`,
+      retryable,
+      retryAfter > 0 ? retryAfter * 1000 : null
+    );
+  }
+}
+
+// Network failures reach us as the TypeError `fetch` rejects with
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof SummaryRequestError ? error.retryable : error instanceof TypeError;
+}
+
+// Wait before the given attempt, counting from the first retry as attempt 1
+export function getRetryDelay(attempt: number, error?: unknown): number {
+  if (error instanceof SummaryRequestError && error.retryAfterMs !== null) {
+    return error.retryAfterMs;
+  }
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * The attempt count and delay for retrying a failed request, or null when it
+ * shouldn't be retried.
+ */
+export function planRetry(error: unknown, previousAttempts: number, maxRetries: number): { attempts: number; delay: number } | null {
+  const attempts = previousAttempts + 1;
+  if (!isRetryableError(error) || attempts > maxRetries) return null;
+  return { attempts, delay: getRetryDelay(attempts, error) };
+}
+
+export interface ChapterSummaryProgress {
+  total: number; // rounds the chapter doesn't omit
+  completed: number;
+  inProgress: number;
+  pending: number;
+}
+
+// Chapter holding the round position, or -1 when no chapter does
+export function findChapterIndexForRound(roundIndex: number, chapters: Chapter[]): number {
+  return chapters.findIndex(({ roundsRange: [start, end] }) => roundIndex >= start && roundIndex <= end);
+}
+
+/**
+ * The pending rounds to start now, given the rounds already in flight.
+ * Chapters take turns in the order their first round appears in the queue:
+ * each gets one more round before any gets another, within the limits.
+ * Rounds that no chapter holds are scheduled together as one more chapter.
+ * Paused rounds are skipped, and rounds waiting to be retried are left until
+ * their retry time.
+ */
+export function pickRoundsToStart(
+  queue: SummaryQueueItem<string>[],
+  rounds: Round[],
+  chapters: Chapter[],
+  activeRoundIds: ReadonlySet<string>,
+  limits: Pick<SummaryQueueSettings, 'maxConcurrentChapters' | 'maxConcurrentRounds'>,
+  now = Date.now()
+): string[] {
+  const positions = new Map(rounds.map(round => [round.id, round.roundIndex]));
+  const chapterOf = (roundId: string) => {
+    const roundIndex = positions.get(roundId);
+    return roundIndex === undefined ? -1 : findChapterIndexForRound(roundIndex, chapters);
+  };
+
+  const activeByChapter = new Map<number, number>();
+  activeRoundIds.forEach(roundId => {
+    const chapterIndex = chapterOf(roundId);
+    activeByChapter.set(chapterIndex, (activeByChapter.get(chapterIndex) ?? 0) + 1);
+  });
+
+  const pendingByChapter = new Map<number, string[]>();
+  queue
+    .filter(item => item.type === 'round' && item.status === 'pending' && !item.paused && !activeRoundIds.has(item.id))
+    .filter(item => !item.retryAt || item.retryAt <= now)
+    .forEach(item => {
+      const chapterIndex = chapterOf(item.id);
+      pendingByChapter.set(chapterIndex, [...(pendingByChapter.get(chapterIndex) ?? []), item.id]);
+    });
+
+  const picked: string[] = [];
+  let pickedThisTurn = true;
+  while (pickedThisTurn) {
+    pickedThisTurn = false;
+    for (const [chapterIndex, pending] of pendingByChapter) {
+      const active = activeByChapter.get(chapterIndex) ?? 0;
+      if (pending.length === 0 || active >= limits.maxConcurrentRounds) continue;
+      if (active === 0 && activeByChapter.size >= limits.maxConcurrentChapters) continue;
+
+      picked.push(pending.shift()!);
+      activeByChapter.set(chapterIndex, active + 1);
+      pickedThisTurn = true;
+    }
+  }
+
+  return picked;
+}
+
+// How far the chapter's round summaries have come, counting queued and running rounds
+export function getChapterSummaryProgress(
+  chapter: Chapter,
+  rounds: Round[],
+  queue: SummaryQueueItem<string>[]
+): ChapterSummaryProgress {
+  const [start, end] = chapter.roundsRange;
+  const chapterRounds = rounds.filter(round =>
+    round.roundIndex >= start && round.roundIndex <= end && !chapter.omit.includes(round.id)
+  );
+  const roundIds = new Set(chapterRounds.map(round => round.id));
+  const queued = queue.filter(item => item.type === 'round' && roundIds.has(item.id));
+
+  return {
+    total: chapterRounds.length,
+    completed: chapterRounds.filter(round => round.summaryStatus === 'completed').length,
+    inProgress: queued.filter(item => item.status === 'inProgress').length,
+    pending: queued.filter(item => item.status === 'pending').length
+  };
+}
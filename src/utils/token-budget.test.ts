@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import type { Chapter, ChapterGroupingSettings, Round } from '@/store';
+import { getChapterSizeOptions, getChapterTokenCount, isChapterOverBudget } from './token-budget';
+
+const settings: ChapterGroupingSettings = { mode: 'tokens', strategy: 'size', modelId: 'test', contextTokens: 1000, reservedOutputTokens: 200 };
+
+const rounds: Round[] = [
+    { id: 'r-0', roundIndex: 0, startLine: 0, endLine: 5, lineCount: 6, tokenCount: 500 },
+    { id: 'r-1', roundIndex: 1, startLine: 6, endLine: 11, lineCount: 6, tokenCount: 400 },
+    // Stored before token estimates existed
+    { id: 'r-2', roundIndex: 2, startLine: 12, endLine: 17, lineCount: 6 }
+];
+
+describe('token budget', () => {
+    it('should leave omitted rounds out of chapter token counts', () => {
+        const chapter: Chapter = { roundsRange: [0, 1], omit: ['r-1'] };
+
+        expect(getChapterTokenCount(chapter, rounds)).toBe(500);
+    });
+
+    it('should fall back to a line-based estimate', () => {
+        expect(getChapterTokenCount({ roundsRange: [2, 2], omit: [] }, rounds)).toBeGreaterThan(0);
+    });
+
+    it('should only flag chapters over budget in token mode', () => {
+        const chapter: Chapter = { roundsRange: [0, 1], omit: [] };
+
+        expect(isChapterOverBudget(chapter, rounds, settings)).toBe(true);
+        expect(isChapterOverBudget(chapter, rounds, { ...settings, mode: 'lines' })).toBe(false);
+    });
+
+    it('should turn the settings into grouping options', () => {
+        expect(getChapterSizeOptions(settings)).toEqual({ maxChapterTokens: 800 });
+        expect(getChapterSizeOptions({ ...settings, mode: 'lines' })).toEqual({});
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Token budgets for chapters: how many transcript tokens fit in the
+ * summarizing model's context window, and how many a chapter uses.
+ */
+import type { Chapter, ChapterGroupingSettings, Round } from '@/store';
+import { ChapterGroupingOptions, getRoundTokenCount } from './content-transformation';
+
+/**
+ * Tokens a chapter may use: the model's context window minus the reserved output.
+ */
+export function getChapterTokenBudget(settings: ChapterGroupingSettings): number {
+  return Math.max(0, settings.contextTokens - settings.reservedOutputTokens);
+}
+
+/**
+ * Estimated tokens of a chapter's rounds, leaving out omitted rounds.
+ */
+export function getChapterTokenCount(chapter: Chapter, rounds: Round[]): number {
+  const [start, end] = chapter.roundsRange;
+  return rounds
+    .filter(round => round.roundIndex >= start && round.roundIndex <= end && !chapter.omit.includes(round.id))
+    .reduce((sum, round) => sum + getRoundTokenCount(round), 0);
+}
+
+/**
+ * Whether a chapter goes over the budget. Only applies in token-budget mode.
+ */
+export function isChapterOverBudget(chapter: Chapter, rounds: Round[], settings: ChapterGroupingSettings): boolean {
+  return settings.mode === 'tokens' && getChapterTokenCount(chapter, rounds) > getChapterTokenBudget(settings);
+}
+
+/**
+ * Grouping options for `groupRoundsIntoChapters` that follow the settings.
+ */
+export function getChapterSizeOptions(settings: ChapterGroupingSettings): Pick<ChapterGroupingOptions, 'maxChapterTokens'> {
+  return settings.mode === 'tokens' ? { maxChapterTokens: getChapterTokenBudget(settings) } : {};
+}
+
+/**
+ * Formats a token count compactly, e.g. `12.3k`.
+ */
+export function formatTokenCount(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}